@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { formatCalendar } from '../lib/ical';
+
+const now = new Date('2024-01-15T12:00:00Z');
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('ical', () => {
+
+  // ─── Calendar ───────────────────────────────────────────────────────────────
+
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const ics = formatCalendar('Household tasks', [], now);
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Household tasks');
+  });
+
+  // ─── Events ─────────────────────────────────────────────────────────────────
+
+  it('writes timed events in UTC with a default 30 minute length', () => {
+    const lines = unfold(
+      formatCalendar('x', [{ uid: 'ticket-1', summary: 'Fix gate', start: new Date('2024-01-16T09:00:00Z') }], now)
+    );
+    expect(lines).toContain('UID:ticket-1');
+    expect(lines).toContain('DTSTAMP:20240115T120000Z');
+    expect(lines).toContain('DTSTART:20240116T090000Z');
+    expect(lines).toContain('DTEND:20240116T093000Z');
+  });
+
+  it('writes all-day events as a local date spanning one day', () => {
+    const lines = unfold(
+      formatCalendar('x', [{ uid: 'r-1', summary: 'Sweep patio', start: new Date(2024, 0, 31), allDay: true }], now)
+    );
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240131');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240201');
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const lines = unfold(
+      formatCalendar('x', [{ uid: 'u', summary: 'a, b; c\\d', description: 'one\ntwo', start: now }], now)
+    );
+    expect(lines).toContain('SUMMARY:a\\, b\\; c\\\\d');
+    expect(lines).toContain('DESCRIPTION:one\\ntwo');
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const summary = 'Limpiar la piscina — ' + 'ñ'.repeat(60);
+    const ics = formatCalendar('x', [{ uid: 'u', summary, start: now }], now);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
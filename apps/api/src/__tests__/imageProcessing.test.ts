@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE } from '@household/domain';
+import { processImage, ImageProcessingError } from '../lib/imageProcessing';
+
+// A landscape phone shot stored sideways: 3000×1500 pixels with EXIF orientation 6 (rotate 90°)
+// and a GPS position, the way many phones write them
+async function phonePhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 3000, height: 1500, channels: 3, background: '#3a7' } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: {
+        IFD0: { Make: 'PhoneCo' },
+        IFD2: { DateTimeOriginal: '2024:03:01 09:30:00', OffsetTimeOriginal: '-05:00' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '25/1 46/1 0/1' },
+      },
+    })
+    .toBuffer();
+}
+
+describe('imageProcessing', () => {
+  it('applies the EXIF orientation and drops all metadata', async () => {
+    const input = await phonePhoto();
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const { original, mimeType } = await processImage(input);
+    const meta = await sharp(original.body).metadata();
+
+    expect(mimeType).toBe('image/jpeg');
+    expect(meta.format).toBe('jpeg');
+    expect(meta.exif).toBeUndefined();
+    expect(meta.orientation).toBeUndefined();
+    // Upright now: portrait, longest edge capped at 2560
+    expect([original.width, original.height]).toEqual([1280, 2560]);
+  });
+
+  it('cuts a medium variant and a square thumbnail', async () => {
+    const { medium, thumb } = await processImage(await phonePhoto());
+
+    expect(Math.max(medium.width, medium.height)).toBe(1280);
+    expect([thumb.width, thumb.height]).toEqual([320, 320]);
+    expect(thumb.body.length).toBeLessThan(medium.body.length);
+  });
+
+  it('never enlarges small images', async () => {
+    const small = await sharp({ create: { width: 200, height: 100, channels: 4, background: '#0000' } })
+      .png()
+      .toBuffer();
+
+    const { original, medium } = await processImage(small);
+    expect([original.width, original.height]).toEqual([200, 100]);
+    expect([medium.width, medium.height]).toEqual([200, 100]);
+  });
+
+  it('reads the capture time before stripping it, honouring the time zone offset', async () => {
+    const { capturedAt } = await processImage(await phonePhoto());
+    expect(capturedAt).toEqual(new Date('2024-03-01T14:30:00Z'));
+  });
+
+  it('has no capture time when the camera wrote none', async () => {
+    const plain = await sharp({ create: { width: 100, height: 100, channels: 3, background: '#fff' } }).jpeg().toBuffer();
+    expect((await processImage(plain)).capturedAt).toBeNull();
+  });
+
+  it('gives re-encoded copies of a photo a near-identical hash and other photos a distant one', async () => {
+    // Left half dark, right half light — a scene with some structure to hash
+    const scene = (left: string, right: string) =>
+      sharp({ create: { width: 800, height: 600, channels: 3, background: left } })
+        .composite([{ input: { create: { width: 400, height: 600, channels: 3, background: right } }, left: 400, top: 0 }])
+        .jpeg();
+
+    const first = await processImage(await scene('#222', '#ddd').toBuffer());
+    const copy = await processImage(await sharp(await scene('#222', '#ddd').toBuffer()).resize(400).jpeg({ quality: 40 }).toBuffer());
+    const other = await processImage(await scene('#ddd', '#222').toBuffer());
+
+    expect(first.phash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(first.phash, copy.phash)).toBeLessThanOrEqual(NEAR_DUPLICATE_MAX_DISTANCE);
+    expect(hammingDistance(first.phash, other.phash)).toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE);
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toThrow(ImageProcessingError);
+  });
+});
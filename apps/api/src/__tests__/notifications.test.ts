@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileTransport } from '../lib/mailTransport';
+import {
+  ticketAssignedEmail,
+  ticketRejectedEmail,
+  immediateInterruptEmail,
+  dailyDigestEmail,
+} from '../services/notificationTemplates';
+import type { DigestInput } from '../services/notificationTemplates';
+
+const APP_URL = 'https://tickets.example.com';
+
+const ticket = {
+  title: 'Clean pool filter',
+  area: 'pool',
+  category: 'maintenance',
+  severity: 'needs_fix_today',
+  description: 'Filter pressure is high',
+};
+
+describe('notifications', () => {
+
+  // ─── Templates ──────────────────────────────────────────────────────────────
+
+  describe('templates', () => {
+    it('assignment email names the task, its place and severity', () => {
+      const email = ticketAssignedEmail(ticket, APP_URL);
+      expect(email.subject).toBe('New task: Clean pool filter');
+      expect(email.text).toContain('pool › maintenance · Fix Today');
+      expect(email.text).toContain(APP_URL);
+    });
+
+    it('rejection email includes the reason when there is one', () => {
+      expect(ticketRejectedEmail(ticket, 'Still cloudy', APP_URL).text).toContain('Reason: Still cloudy');
+      expect(ticketRejectedEmail(ticket, undefined, APP_URL).text).not.toContain('Reason:');
+    });
+
+    it('rejection email names the reason code and keeps the note', () => {
+      const text = ticketRejectedEmail(ticket, 'Still cloudy', APP_URL, 'poor_quality').text;
+      expect(text).toContain('Reason: Not up to standard');
+      expect(text).toContain('Note: Still cloudy');
+    });
+
+    it('interrupt email is marked urgent and carries the description', () => {
+      const email = immediateInterruptEmail({ ...ticket, severity: 'immediate_interrupt' }, APP_URL);
+      expect(email.subject).toBe('URGENT: Clean pool filter');
+      expect(email.text).toContain('Filter pressure is high');
+    });
+
+    it('digest summarises the weekly report', () => {
+      const report: DigestInput = {
+        householdName: 'Casa Rivera',
+        summary: { open: 3, inProgress: 1, closed: 5, skipped: 0, reopened: 1 },
+        employeeStats: [
+          { user: { name: 'Rosa' }, closed: 4, open: 1, rejected: 0, scoreImpact: 5 },
+          { user: { name: 'Miguel' }, closed: 1, open: 2, rejected: 1, scoreImpact: -10 },
+        ],
+        trends: { overdueCount: 2, hotSpots: [{ area: 'pool › maintenance', issueScore: 1 }], noCompletions: [] },
+      };
+      const email = dailyDigestEmail(report, new Date('2024-01-15T21:00:00Z'), APP_URL);
+
+      expect(email.subject).toBe('Casa Rivera — daily digest 2024-01-15');
+      expect(email.text).toContain('Overdue right now: 2');
+      expect(email.text).toContain('Rosa: 4 done, 1 open, 0 sent back (+5 pts)');
+      expect(email.text).toContain('Miguel: 1 done, 2 open, 1 sent back (-10 pts)');
+      expect(email.text).toContain('pool › maintenance (1 issues)');
+      expect(email.text).not.toContain('No completions yet');
+    });
+  });
+
+  // ─── File transport ─────────────────────────────────────────────────────────
+
+  describe('file transport', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+      if (dir) await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes one .eml file per message with headers and body', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+      const transport = createFileTransport(dir, 'Household <no-reply@example.com>');
+
+      await transport.send({ to: 'rosa@example.com', subject: 'Hello', text: 'Body line' });
+      await transport.send({ to: 'ana@example.com', subject: 'Again', text: 'Second' });
+
+      const files = (await fs.readdir(dir)).sort();
+      expect(files).toHaveLength(2);
+      expect(files.every((f) => f.endsWith('.eml'))).toBe(true);
+
+      const contents = await Promise.all(files.map((f) => fs.readFile(path.join(dir!, f), 'utf8')));
+      const rosa = contents.find((c) => c.includes('To: rosa@example.com'))!;
+      expect(rosa).toContain('From: Household <no-reply@example.com>');
+      expect(rosa).toContain('Subject: Hello');
+      expect(rosa).toContain('\n\nBody line\n');
+    });
+  });
+});
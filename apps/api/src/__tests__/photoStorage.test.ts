@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalStorage } from '../lib/photoStorage';
+
+describe('photoStorage', () => {
+
+  // ─── Local driver ───────────────────────────────────────────────────────────
+
+  describe('local', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+      if (dir) await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('stores bytes under the key and reads them back', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'photos-'));
+      const storage = createLocalStorage(dir);
+      const body = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+
+      await storage.put('tickets/t1/a.jpg', body, 'image/jpeg');
+
+      expect(await storage.get('tickets/t1/a.jpg')).toEqual(body);
+      expect(await fs.readFile(path.join(dir, 'tickets', 't1', 'a.jpg'))).toEqual(body);
+    });
+
+    it('returns null for a missing key and removes idempotently', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'photos-'));
+      const storage = createLocalStorage(dir);
+
+      await storage.put('tickets/t1/a.png', Buffer.from('png'), 'image/png');
+      await storage.remove('tickets/t1/a.png');
+      await storage.remove('tickets/t1/a.png');
+
+      expect(await storage.get('tickets/t1/a.png')).toBeNull();
+    });
+
+    it('refuses keys that escape the storage directory', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'photos-'));
+      const storage = createLocalStorage(dir);
+
+      await expect(storage.put('../outside.jpg', Buffer.from('x'), 'image/jpeg')).rejects.toThrow('Invalid photo key');
+      await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid photo key');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+// Golden week against a real Postgres: the weekly report and stored ScoreRecords must show the
+// same score for the same employee and week. Skipped unless TEST_DATABASE_URL is set.
+// Prepare the database once with:
+//   DATABASE_URL=$TEST_DATABASE_URL pnpm prisma migrate deploy
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+// Thursday of a fixed week; the report week runs Sunday 10th to Sunday 17th (local time)
+const NOW = new Date(2024, 2, 14, 12);
+const at = (day: number, hour: number) => new Date(2024, 2, day, hour);
+
+describe.skipIf(!TEST_DATABASE_URL)('weekly report vs ScoreRecord (Postgres)', () => {
+  let prisma: typeof import('../lib/prisma').prisma;
+  let tenant: typeof import('../lib/tenantContext');
+  let scoring: typeof import('../services/scoringService');
+  let reports: typeof import('../services/reportService');
+  let disputes: typeof import('../services/scoreDisputeService');
+  let policies: typeof import('../services/scoringPolicyService');
+
+  const suffix = Date.now().toString(36);
+  const ids = { household: '', mother: '', rosa: '', miguel: '' };
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    prisma = (await import('../lib/prisma')).prisma;
+    tenant = await import('../lib/tenantContext');
+    scoring = await import('../services/scoringService');
+    reports = await import('../services/reportService');
+    disputes = await import('../services/scoreDisputeService');
+    policies = await import('../services/scoringPolicyService');
+
+    const household = await tenant.runUnscoped(() =>
+      prisma.household.create({ data: { name: `Golden week ${suffix}` } })
+    );
+    const householdId = (ids.household = household.id);
+
+    await tenant.runWithHousehold(householdId, async () => {
+      const user = (name: string, role: 'mother' | 'employee') =>
+        prisma.user.create({
+          data: { householdId, name, email: `${name.toLowerCase()}-${suffix}@test.local`, passwordHash: 'x', role },
+        });
+      ids.mother = (await user('Mother', 'mother')).id;
+      ids.rosa = (await user('Rosa', 'employee')).id;
+      ids.miguel = (await user('Miguel', 'employee')).id;
+
+      type Log = [from: string, to: string, when: Date, reason?: 'poor_quality'];
+      const ticket = async (title: string, assignedUserId: string, logs: Log[], dueAt?: Date) => {
+        const created = await prisma.ticket.create({
+          data: {
+            householdId,
+            title,
+            description: 'golden week',
+            area: 'kitchen',
+            category: 'cleaning',
+            severity: 'minor',
+            status: 'closed',
+            assignedUserId,
+            createdById: ids.mother,
+            createdAt: at(11, 8),
+            closedAt: logs[logs.length - 1][2],
+            dueAt,
+          },
+        });
+        for (const [fromStatus, toStatus, createdAt, reason] of logs) {
+          await prisma.ticketAuditLog.create({
+            data: { ticketId: created.id, changedById: ids.mother, fromStatus, toStatus, createdAt, reason },
+          });
+        }
+        return created;
+      };
+
+      const onTime: Log[] = [['in_progress', 'needs_review', at(11, 10)], ['needs_review', 'closed', at(11, 11)]];
+      const rejectedOnce: Log[] = [
+        ['in_progress', 'needs_review', at(11, 10)],
+        ['needs_review', 'in_progress', at(11, 12), 'poor_quality'],
+        ['in_progress', 'needs_review', at(12, 10)],
+        ['needs_review', 'closed', at(12, 11)],
+      ];
+
+      await ticket('On time', ids.rosa, onTime);
+      await ticket('Rejected', ids.rosa, rejectedOnce);
+      // On time by the 48h minor deadline, a day late by its own dueAt
+      await ticket('Past due', ids.rosa, onTime, at(11, 9));
+      // Rosa was sent back, then Miguel took it over and finished it
+      const handedOver = await ticket('Handed over', ids.miguel, rejectedOnce);
+      await prisma.ticketAssignment.create({
+        data: { ticketId: handedOver.id, fromUserId: ids.rosa, toUserId: ids.miguel, changedById: ids.mother, createdAt: at(11, 13) },
+      });
+    });
+  });
+
+  afterAll(async () => {
+    if (!prisma) return;
+    await tenant.runUnscoped(async () => {
+      const householdId = ids.household;
+      if (householdId) {
+        const ticketWhere = { ticket: { householdId } };
+        await prisma.scoreDisputeEvent.deleteMany({ where: { dispute: { householdId } } });
+        await prisma.scoreDispute.deleteMany({ where: { householdId } });
+        await prisma.scoreRecord.deleteMany({ where: { householdId } });
+        await prisma.scoringPolicy.deleteMany({ where: { householdId } });
+        await prisma.ticketAssignment.deleteMany({ where: ticketWhere });
+        await prisma.ticketAuditLog.deleteMany({ where: ticketWhere });
+        await prisma.ticket.deleteMany({ where: { householdId } });
+        await prisma.user.deleteMany({ where: { householdId } });
+        await prisma.household.deleteMany({ where: { id: householdId } });
+      }
+    });
+    await prisma.$disconnect();
+  });
+
+  it('report totals match the stored ScoreRecords', async () => {
+    const { report, records } = await tenant.runWithHousehold(ids.household, async () => {
+      const report = await reports.buildWeeklyReport(0, NOW);
+      const records = await Promise.all(
+        [ids.rosa, ids.miguel].map((userId) => scoring.computeAndSaveScore(userId, report.period))
+      );
+      return { report, records };
+    });
+
+    const reportTotal = (userId: string) => report.employeeStats.find((s) => s.user.id === userId)?.total;
+    expect(reportTotal(ids.rosa)).toBe(records[0].totalScore);
+    expect(reportTotal(ids.miguel)).toBe(records[1].totalScore);
+  });
+
+  it('stores a ledger that explains the score line by line', async () => {
+    const breakdown = await tenant.runWithHousehold(ids.household, async () => {
+      const report = await reports.buildWeeklyReport(0, NOW);
+      const record = await scoring.computeAndSaveScore(ids.rosa, report.period);
+      return scoring.getScoreBreakdown(ids.rosa, record.id);
+    });
+
+    const lines = breakdown!.lines
+      .map((l) => [l.ticket?.title, l.rule, l.points])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    expect(lines).toEqual([
+      ['Handed over', 'rejection', -15],
+      ['Past due', 'late', -3],
+      ['Rejected', 'rejection', -15],
+    ]);
+    expect(breakdown!.lines.reduce((sum, l) => sum + l.points, 0)).toBe(breakdown!.score.totalScore - 100);
+  });
+
+  it('records an accepted dispute as an adjustment alongside the score', async () => {
+    const { record, adjusted, trail } = await tenant.runWithHousehold(ids.household, async () => {
+      const report = await reports.buildWeeklyReport(0, NOW);
+      const record = await scoring.computeAndSaveScore(ids.rosa, report.period);
+      const late = (record.ledger as Array<{ ticketId: string; rule: string }>).find((l) => l.rule === 'late')!;
+
+      const dispute = await disputes.openDispute(ids.rosa, { scoreId: record.id, ticketId: late.ticketId, rule: 'late', reason: 'Waiting on parts' });
+      await disputes.resolveDispute(dispute!.id, ids.mother, { accept: true });
+
+      const adjusted = await prisma.scoreRecord.findUniqueOrThrow({ where: { id: record.id } });
+      const trail = await prisma.scoreDisputeEvent.findMany({ where: { disputeId: dispute!.id }, orderBy: { createdAt: 'asc' } });
+      return { record, adjusted, trail };
+    });
+
+    expect(adjusted.totalScore).toBe(record.totalScore);
+    expect(adjusted.adjustment).toBe(3);
+    expect(trail.map((e) => [e.action, e.actorId])).toEqual([['opened', ids.rosa], ['accepted', ids.mother]]);
+  });
+
+  it('produces the golden numbers', async () => {
+    const report = await tenant.runWithHousehold(ids.household, () => reports.buildWeeklyReport(0, NOW));
+    const stats = (userId: string) => report.employeeStats.find((s) => s.user.id === userId);
+
+    // Two poor_quality rejections (one on the ticket she handed over) and one late day, given
+    // back by the dispute accepted above
+    expect(stats(ids.rosa)).toMatchObject({
+      rejected: 2,
+      rejectionReasons: { poor_quality: 2 },
+      daysLate: 1,
+      qualityPenalty: 30,
+      latePenalty: 3,
+      bonus: 0,
+      total: 67,
+      adjustment: 3,
+      adjustedTotal: 70,
+      scoreImpact: -30,
+    });
+    // One clean completion after taking the ticket over
+    expect(stats(ids.miguel)).toMatchObject({ rejected: 0, daysLate: 0, bonus: 5, total: 105, adjustment: 0, scoreImpact: 5 });
+  });
+
+  // Last: it finalizes the week and changes the household's policy
+  it('reports a finalized week as frozen after the policy changes', async () => {
+    const { record, report } = await tenant.runWithHousehold(ids.household, async () => {
+      const { period } = await reports.buildWeeklyReport(0, NOW);
+      const record = await scoring.finalizeScore(ids.rosa, { type: 'weekly', ...period }, NOW);
+      // Her late day would now cost 10 instead of 3
+      await policies.updateScoringPolicy({ lateDayPenalty: 10 }, ids.mother);
+      const report = await reports.buildWeeklyReport(0, NOW);
+      return { record, report };
+    });
+
+    const rosa = report.employeeStats.find((s) => s.user.id === ids.rosa);
+    expect(record.policyVersion).toBe(0);
+    expect(rosa).toMatchObject({
+      daysLate: 1,
+      latePenalty: -record.speedScore,
+      total: record.totalScore,
+      adjustment: record.adjustment,
+      adjustedTotal: record.totalScore + record.adjustment,
+    });
+    expect(rosa?.total).toBe(67);
+  });
+});
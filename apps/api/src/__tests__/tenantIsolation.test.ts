@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+// Cross-tenant isolation against a real Postgres. Skipped unless TEST_DATABASE_URL is set.
+// Prepare the database once with:
+//   DATABASE_URL=$TEST_DATABASE_URL pnpm prisma migrate deploy
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+describe.skipIf(!TEST_DATABASE_URL)('tenant isolation (Postgres)', () => {
+  let prisma: typeof import('../lib/prisma').prisma;
+  let tenant: typeof import('../lib/tenantContext');
+  let tickets: typeof import('../services/ticketService');
+
+  const suffix = Date.now().toString(36);
+  const ids = { h1: '', h2: '', mother1: '', mother2: '', employee1: '', employee2: '', ticket1: '', ticket2: '' };
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    prisma = (await import('../lib/prisma')).prisma;
+    tenant = await import('../lib/tenantContext');
+    tickets = await import('../services/ticketService');
+
+    const [h1, h2] = await tenant.runUnscoped(() =>
+      Promise.all([
+        prisma.household.create({ data: { name: `Isolation A ${suffix}` } }),
+        prisma.household.create({ data: { name: `Isolation B ${suffix}` } }),
+      ])
+    );
+    ids.h1 = h1.id;
+    ids.h2 = h2.id;
+
+    for (const [key, householdId] of [['1', h1.id], ['2', h2.id]] as const) {
+      await tenant.runWithHousehold(householdId, async () => {
+        const mother = await prisma.user.create({
+          data: { householdId, name: `Mother ${key}`, email: `mother${key}-${suffix}@test.local`, passwordHash: 'x', role: 'mother' },
+        });
+        const employee = await prisma.user.create({
+          data: { householdId, name: `Employee ${key}`, email: `employee${key}-${suffix}@test.local`, passwordHash: 'x', role: 'employee' },
+        });
+        const ticket = await tickets.createTicket({
+          title: `Ticket ${key}`,
+          description: 'isolation test',
+          area: 'kitchen',
+          category: 'cleaning',
+          severity: 'minor',
+          isInspection: false,
+          assignedUserId: employee.id,
+          createdById: mother.id,
+          creatorRole: 'mother',
+        });
+        ids[`mother${key}`] = mother.id;
+        ids[`employee${key}`] = employee.id;
+        ids[`ticket${key}`] = ticket.id;
+      });
+    }
+  });
+
+  afterAll(async () => {
+    if (!prisma) return;
+    await tenant.runUnscoped(async () => {
+      const householdIds = [ids.h1, ids.h2].filter(Boolean);
+      const ticketWhere = { ticket: { householdId: { in: householdIds } } };
+      await prisma.ticketAuditLog.deleteMany({ where: ticketWhere });
+      await prisma.ticket.deleteMany({ where: { householdId: { in: householdIds } } });
+      await prisma.user.deleteMany({ where: { householdId: { in: householdIds } } });
+      await prisma.household.deleteMany({ where: { id: { in: householdIds } } });
+    });
+    await prisma.$disconnect();
+  });
+
+  it('getTickets only returns the caller household tickets', async () => {
+    const list = await tenant.runWithHousehold(ids.h1, () =>
+      tickets.getTickets({ requestorId: ids.mother1, requestorRole: 'mother' })
+    );
+    expect(list.map((t) => t.id)).toEqual([ids.ticket1]);
+  });
+
+  it('getTicketById hides another household ticket even from an authority', async () => {
+    const ticket = await tenant.runWithHousehold(ids.h1, () =>
+      tickets.getTicketById(ids.ticket2, ids.mother1, 'mother')
+    );
+    expect(ticket).toBeNull();
+  });
+
+  it('users of another household are invisible', async () => {
+    const users = await tenant.runWithHousehold(ids.h1, () => prisma.user.findMany());
+    expect(users.map((u) => u.id).sort()).toEqual([ids.mother1, ids.employee1].sort());
+  });
+
+  it('audit logs of another household ticket are invisible', async () => {
+    const logs = await tenant.runWithHousehold(ids.h1, () =>
+      prisma.ticketAuditLog.findMany({ where: { ticketId: ids.ticket2 } })
+    );
+    expect(logs).toEqual([]);
+  });
+
+  it('updating another household ticket by id fails', async () => {
+    await expect(
+      tenant.runWithHousehold(ids.h1, () =>
+        prisma.ticket.update({ where: { id: ids.ticket2 }, data: { title: 'hijacked' } })
+      )
+    ).rejects.toThrow();
+
+    const untouched = await tenant.runWithHousehold(ids.h2, () => prisma.ticket.findUnique({ where: { id: ids.ticket2 } }));
+    expect(untouched?.title).toBe('Ticket 2');
+  });
+
+  it('transitioning another household ticket reports not found', async () => {
+    await expect(
+      tenant.runWithHousehold(ids.h1, () =>
+        tickets.transitionTicket({ ticketId: ids.ticket2, toStatus: 'in_progress', actorId: ids.mother1, actorRole: 'mother' })
+      )
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('cannot assign a ticket to a user of another household', async () => {
+    await expect(
+      tenant.runWithHousehold(ids.h1, () =>
+        tickets.createTicket({
+          title: 'Cross assignment',
+          description: 'should fail',
+          area: 'kitchen',
+          category: 'cleaning',
+          severity: 'minor',
+          isInspection: false,
+          assignedUserId: ids.employee2,
+          createdById: ids.mother1,
+          creatorRole: 'mother',
+        })
+      )
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('counts and groupBy never include other households', async () => {
+    const [count, groups] = await tenant.runWithHousehold(ids.h2, () =>
+      Promise.all([
+        prisma.ticket.count(),
+        prisma.ticket.groupBy({ by: ['assignedUserId'], _count: { id: true } }),
+      ])
+    );
+    expect(count).toBe(1);
+    expect(groups.map((g) => g.assignedUserId)).toEqual([ids.employee2]);
+  });
+
+  it('a tenant query outside any scope throws', async () => {
+    await expect(prisma.ticket.findMany()).rejects.toThrow(tenant.TenantScopeError);
+  });
+});
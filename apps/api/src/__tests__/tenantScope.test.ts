@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { scopeQueryArgs, scopeOperation, isTenantModel } from '../lib/tenantScope';
+import { runWithHousehold, runUnscoped, TenantScopeError } from '../lib/tenantContext';
+
+const H = 'household-1';
+
+describe('tenantScope', () => {
+
+  // ─── Which models are scoped ────────────────────────────────────────────────
+
+  describe('isTenantModel', () => {
+    it('scopes household-owned models and ticket children', () => {
+      expect(isTenantModel('Ticket')).toBe(true);
+      expect(isTenantModel('User')).toBe(true);
+      expect(isTenantModel('TicketAuditLog')).toBe(true);
+      expect(isTenantModel('TicketCommentMention')).toBe(true);
+      expect(isTenantModel('EscalationRule')).toBe(true);
+      expect(isTenantModel('EvidencePolicy')).toBe(true);
+      expect(isTenantModel('TicketEscalation')).toBe(true);
+      expect(isTenantModel('NotificationPreference')).toBe(true);
+      expect(isTenantModel('PushSubscription')).toBe(true);
+      expect(isTenantModel('CalendarToken')).toBe(true);
+      expect(isTenantModel('TicketChecklistItem')).toBe(true);
+      expect(isTenantModel('TicketAssignment')).toBe(true);
+      expect(isTenantModel('HandoffRequest')).toBe(true);
+      expect(isTenantModel('ScoringPolicy')).toBe(true);
+      expect(isTenantModel('ScoreDispute')).toBe(true);
+      expect(isTenantModel('ScoreDisputeEvent')).toBe(true);
+    });
+
+    it('leaves global models alone', () => {
+      expect(isTenantModel('Household')).toBe(false);
+      expect(isTenantModel('RevokedToken')).toBe(false);
+    });
+  });
+
+  // ─── Reads ──────────────────────────────────────────────────────────────────
+
+  describe('where filters', () => {
+    it('findMany with no where gets a household filter', () => {
+      const args = scopeQueryArgs('Ticket', 'findMany', {}, H);
+      expect(args.where).toEqual({ AND: [{ householdId: H }] });
+    });
+
+    it('keeps the caller filter and unique keys at top level', () => {
+      const args = scopeQueryArgs('Ticket', 'findUnique', { where: { id: 't1' } }, H);
+      expect(args.where).toEqual({ id: 't1', AND: [{ householdId: H }] });
+    });
+
+    it('appends to an existing AND array', () => {
+      const args = scopeQueryArgs('User', 'findFirst', { where: { AND: [{ role: 'employee' }] } }, H);
+      expect(args.where).toEqual({ AND: [{ role: 'employee' }, { householdId: H }] });
+    });
+
+    it('a caller-supplied householdId cannot widen the scope', () => {
+      const args = scopeQueryArgs('Ticket', 'findMany', { where: { householdId: 'other' } }, H);
+      // Both conditions must hold — rows of "other" never match
+      expect(args.where).toEqual({ householdId: 'other', AND: [{ householdId: H }] });
+    });
+
+    it('ticket children are filtered through their ticket', () => {
+      const args = scopeQueryArgs('TicketAuditLog', 'count', { where: { ticketId: 't1' } }, H);
+      expect(args.where).toEqual({ ticketId: 't1', AND: [{ ticket: { householdId: H } }] });
+    });
+
+    it('comment mentions are filtered through comment → ticket', () => {
+      const args = scopeQueryArgs('TicketCommentMention', 'deleteMany', {}, H);
+      expect(args.where).toEqual({ AND: [{ comment: { ticket: { householdId: H } } }] });
+    });
+
+    it('groupBy and aggregate are filtered', () => {
+      expect(scopeQueryArgs('Ticket', 'groupBy', { by: ['status'] }, H).where).toEqual({ AND: [{ householdId: H }] });
+      expect(scopeQueryArgs('ScoreRecord', 'aggregate', {}, H).where).toEqual({ AND: [{ householdId: H }] });
+    });
+
+    it('global models pass through untouched', () => {
+      const args = scopeQueryArgs('RevokedToken', 'findUnique', { where: { jti: 'x' } }, H);
+      expect(args).toEqual({ where: { jti: 'x' } });
+    });
+  });
+
+  // ─── Writes ─────────────────────────────────────────────────────────────────
+
+  describe('writes', () => {
+    it('create stamps the household id, overriding any supplied value', () => {
+      const args = scopeQueryArgs('Ticket', 'create', { data: { title: 'x', householdId: 'other' } }, H);
+      expect(args.data).toEqual({ title: 'x', householdId: H });
+    });
+
+    it('createMany stamps every row', () => {
+      const args = scopeQueryArgs('User', 'createMany', { data: [{ name: 'a' }, { name: 'b' }] }, H);
+      expect(args.data).toEqual([{ name: 'a', householdId: H }, { name: 'b', householdId: H }]);
+    });
+
+    it('update cannot move a row to another household', () => {
+      const args = scopeQueryArgs('Ticket', 'update', { where: { id: 't1' }, data: { title: 'y', householdId: 'other' } }, H);
+      expect(args.data).toEqual({ title: 'y' });
+      expect(args.where).toEqual({ id: 't1', AND: [{ householdId: H }] });
+    });
+
+    it('upsert scopes where, stamps create and strips update', () => {
+      const args = scopeQueryArgs(
+        'ScoreRecord',
+        'upsert',
+        { where: { id: 's1' }, create: { userId: 'u1' }, update: { householdId: 'other', totalScore: 90 } },
+        H
+      );
+      expect(args.where).toEqual({ id: 's1', AND: [{ householdId: H }] });
+      expect(args.create).toEqual({ userId: 'u1', householdId: H });
+      expect(args.update).toEqual({ totalScore: 90 });
+    });
+
+    it('creates of ticket children are not rewritten (they carry no householdId)', () => {
+      const args = scopeQueryArgs('TicketPhoto', 'create', { data: { ticketId: 't1' } }, H);
+      expect(args.data).toEqual({ ticketId: 't1' });
+    });
+  });
+
+  // ─── The query extension ────────────────────────────────────────────────────
+  // What every Prisma query runs through: the household comes from the request's scope
+
+  describe('scopeOperation', () => {
+    it('scopes reads and stamps creates with the household in scope, across awaits', async () => {
+      const { read, created } = await runWithHousehold(H, async () => {
+        await Promise.resolve();
+        return {
+          read: scopeOperation('Ticket', 'findMany', { where: { status: 'open' } }),
+          created: scopeOperation('Ticket', 'create', { data: { title: 'x', householdId: 'other' } }),
+        };
+      });
+      expect(read.where).toEqual({ status: 'open', AND: [{ householdId: H }] });
+      expect(created.data).toEqual({ title: 'x', householdId: H });
+    });
+
+    it('leaves queries alone inside runUnscoped', () => {
+      const args = { where: { email: 'a@b.c' } };
+      expect(runUnscoped(() => scopeOperation('User', 'findFirst', args))).toEqual(args);
+    });
+
+    it('refuses a tenant query outside any scope', () => {
+      expect(() => scopeOperation('Ticket', 'findMany', {})).toThrow(TenantScopeError);
+    });
+
+    it('lets global models through without a scope', () => {
+      expect(scopeOperation('RevokedToken', 'findUnique', { where: { jti: 'j' } })).toEqual({ where: { jti: 'j' } });
+    });
+  });
+});
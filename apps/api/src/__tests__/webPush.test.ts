@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import webpush from 'web-push';
+import { sendPush, type PushTarget, type VapidConfig } from '../lib/webPush';
+
+// Local stand-in for a browser push service (FCM, Mozilla autopush…):
+// records every request and answers with the status configured per path.
+
+interface ReceivedPush {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const received: ReceivedPush[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+const vapid: VapidConfig = { ...webpush.generateVAPIDKeys(), subject: 'mailto:test@example.com' };
+
+// A real P-256 key pair and auth secret, as a browser would generate for its subscription
+function browserKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  };
+}
+
+function target(path: string): PushTarget {
+  return { endpoint: `${baseUrl}${path}`, ...browserKeys() };
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', headers: req.headers, body: Buffer.concat(chunks) });
+      const status = req.url?.startsWith('/gone') ? 410 : req.url?.startsWith('/broken') ? 500 : 201;
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('webPush', () => {
+  it('delivers an encrypted, VAPID-signed push to the subscription endpoint', async () => {
+    const result = await sendPush(target('/sub/1'), { title: 'URGENT', body: 'Pool pump', urgent: true }, vapid);
+
+    expect(result).toBe('sent');
+    const push = received.find((r) => r.path === '/sub/1')!;
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers['authorization']).toMatch(new RegExp(`^vapid t=.+, k=${vapid.publicKey}$`));
+    expect(push.headers['ttl']).toBe('3600');
+    expect(push.headers['urgency']).toBe('high');
+    // The payload is encrypted for the browser — the push service never sees it in clear
+    expect(push.body.length).toBeGreaterThan(0);
+    expect(push.body.toString('utf8')).not.toContain('Pool pump');
+  });
+
+  it('non-urgent pushes use normal urgency', async () => {
+    await sendPush(target('/sub/2'), { title: 'FYI', body: 'Nothing urgent' }, vapid);
+    expect(received.find((r) => r.path === '/sub/2')!.headers['urgency']).toBe('normal');
+  });
+
+  it('410 Gone → expired, so the caller can delete the subscription', async () => {
+    expect(await sendPush(target('/gone/1'), { title: 'x', body: 'y' }, vapid)).toBe('expired');
+  });
+
+  it('other push service errors → failed, without throwing', async () => {
+    expect(await sendPush(target('/broken/1'), { title: 'x', body: 'y' }, vapid)).toBe('failed');
+  });
+});
@@ -9,8 +9,37 @@ const envSchema = z.object({
   CLOUDINARY_CLOUD_NAME: z.string().default(''),
   CLOUDINARY_API_KEY: z.string().default(''),
   CLOUDINARY_API_SECRET: z.string().default(''),
+  // Where uploaded photos go; unset keeps the old behaviour (Cloudinary when configured, else local disk)
+  PHOTO_STORAGE: z.enum(['local', 's3', 'cloudinary']).optional(),
+  PHOTO_LOCAL_DIR: z.string().default('./uploads'),
+  // S3-compatible storage — set S3_ENDPOINT for MinIO (http://localhost:9000 in docker-compose)
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
   ANTHROPIC_API_KEY: z.string().optional(),
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
+  // Email: smtp in production; file (writes .eml to MAIL_OUTBOX_DIR) or console need no network
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  SMTP_URL: z.string().url().optional(),
+  MAIL_FROM: z.string().default('Household Tickets <no-reply@localhost>'),
+  MAIL_OUTBOX_DIR: z.string().default('./outbox'),
+  // Base URL of the web app, used for links in emails and push notifications
+  APP_URL: z.string().url().default('http://localhost:5173'),
+  // Web Push (VAPID) — generate with `npx web-push generate-vapid-keys`; push is off while unset
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default('mailto:admin@localhost'),
+  // How many days back the recurring generator fills in occurrences missed while the API was down
+  RECURRING_LOOKBACK_DAYS: z.coerce.number().int().min(0).max(366).default(7),
+}).refine((e) => e.MAIL_TRANSPORT !== 'smtp' || !!e.SMTP_URL, {
+  message: 'SMTP_URL is required when MAIL_TRANSPORT=smtp',
+  path: ['SMTP_URL'],
+}).refine((e) => e.PHOTO_STORAGE !== 's3' || !!e.S3_BUCKET, {
+  message: 'S3_BUCKET is required when PHOTO_STORAGE=s3',
+  path: ['S3_BUCKET'],
 });
 
 export type Env = z.infer<typeof envSchema>;
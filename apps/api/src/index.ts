@@ -8,13 +8,31 @@ import { env } from './config/env';
 // Routes
 import authRouter from './routes/auth';
 import ticketsRouter from './routes/tickets';
+import commentsRouter from './routes/comments';
+import checklistRouter from './routes/checklist';
 import photosRouter from './routes/photos';
 import recurringRouter from './routes/recurring';
 import scoresRouter from './routes/scores';
 import reportsRouter from './routes/reports';
 import chatRouter from './routes/chat';
+import eventsRouter from './routes/events';
+import workflowRouter from './routes/workflow';
+import escalationRulesRouter from './routes/escalationRules';
+import evidencePoliciesRouter from './routes/evidencePolicies';
+import notificationsRouter from './routes/notifications';
+import pushRouter from './routes/push';
+import calendarRouter from './routes/calendar';
+import handoffsRouter from './routes/handoffs';
+import scoringPolicyRouter from './routes/scoringPolicy';
+import scoreDisputesRouter from './routes/scoreDisputes';
 import { startRecurringCron } from './jobs/recurringCron';
 import { startTokenCleanupCron } from './jobs/tokenCleanupCron';
+import { startEscalationCron } from './jobs/escalationCron';
+import { startDigestCron } from './jobs/digestCron';
+import { startScoreCron } from './jobs/scoreCron';
+import { startNotificationListener } from './services/notificationService';
+import { startPushListener } from './services/pushService';
+import { startScoreListener } from './services/scoringService';
 
 const app = express();
 
@@ -31,12 +49,24 @@ app.use(cookieParser());
 // ─── Routes ───────────────────────────────────────────────────────────────────
 
 app.use('/api/auth', authRouter);
+app.use('/api/tickets/:id/comments', commentsRouter);
+app.use('/api/tickets/:id/checklist', checklistRouter);
 app.use('/api/tickets', ticketsRouter);
 app.use('/api/photos', photosRouter);
 app.use('/api/recurring', recurringRouter);
 app.use('/api/scores', scoresRouter);
 app.use('/api/reports', reportsRouter);
 app.use('/api/chat', chatRouter);
+app.use('/api/events', eventsRouter);
+app.use('/api/workflow', workflowRouter);
+app.use('/api/escalation-rules', escalationRulesRouter);
+app.use('/api/evidence-policies', evidencePoliciesRouter);
+app.use('/api/notifications', notificationsRouter);
+app.use('/api/push', pushRouter);
+app.use('/api/calendar', calendarRouter);
+app.use('/api/handoffs', handoffsRouter);
+app.use('/api/scoring-policy', scoringPolicyRouter);
+app.use('/api/score-disputes', scoreDisputesRouter);
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -55,6 +85,16 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 // Start cron jobs
 startRecurringCron();
 startTokenCleanupCron();
+startEscalationCron();
+startDigestCron();
+startScoreCron();
+
+// Email and push notifications follow the same ticket events as the SSE stream
+startNotificationListener();
+startPushListener();
+
+// Provisional scores follow ticket changes as they happen
+startScoreListener();
 
 app.listen(env.PORT, () => {
   console.log(`🚀 API server running on port ${env.PORT}`);
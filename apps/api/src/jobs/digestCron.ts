@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { sendDailyDigests } from '../services/notificationService';
+import { forEachHousehold } from './households';
+
+/**
+ * Nightly cron: runs at 9:00 PM every day
+ * Emails each household's authorities a digest of the week so far.
+ */
+export function startDigestCron(): void {
+  cron.schedule('0 21 * * *', async () => {
+    console.log('[DigestCron] Sending daily digests...');
+    try {
+      let total = 0;
+      await forEachHousehold('DigestCron', async () => {
+        total += await sendDailyDigests();
+      });
+      console.log(`[DigestCron] Sent ${total} digest(s)`);
+    } catch (err) {
+      console.error('[DigestCron] Error:', err);
+    }
+  });
+
+  console.log('[DigestCron] Scheduled daily at 21:00');
+}
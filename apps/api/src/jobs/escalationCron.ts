@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { runEscalations } from '../services/escalationService';
+import { forEachHousehold } from './households';
+
+/**
+ * Cron: runs every 15 minutes
+ * Applies each household's escalation rules to its overdue tickets.
+ */
+export function startEscalationCron(): void {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      let total = 0;
+      await forEachHousehold('EscalationCron', async () => {
+        total += await runEscalations();
+      });
+      if (total > 0) {
+        console.log(`[EscalationCron] Applied ${total} escalation(s)`);
+      }
+    } catch (err) {
+      console.error('[EscalationCron] Error:', err);
+    }
+  });
+
+  console.log('[EscalationCron] Scheduled every 15 minutes');
+}
@@ -0,0 +1,21 @@
+import { prisma } from '../lib/prisma';
+import { runUnscoped, runWithHousehold } from '../lib/tenantContext';
+
+/**
+ * Runs fn once per household, each inside its own tenant scope.
+ * An error in one household is logged and does not stop the others.
+ */
+export async function forEachHousehold(
+  label: string,
+  fn: (householdId: string) => Promise<void>
+): Promise<void> {
+  const households = await runUnscoped(() => prisma.household.findMany({ select: { id: true } }));
+
+  for (const { id } of households) {
+    try {
+      await runWithHousehold(id, () => fn(id));
+    } catch (err) {
+      console.error(`[${label}] Error in household ${id}:`, err);
+    }
+  }
+}
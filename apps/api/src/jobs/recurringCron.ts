@@ -1,20 +1,28 @@
 import cron from 'node-cron';
 import { generateDueInstances } from '../services/recurringService';
+import { forEachHousehold } from './households';
+
+async function runGeneration(reason: string): Promise<void> {
+  console.log(`[RecurringCron] Running instance generation (${reason})...`);
+  try {
+    let total = 0;
+    await forEachHousehold('RecurringCron', async () => {
+      total += await generateDueInstances();
+    });
+    console.log(`[RecurringCron] Generated ${total} ticket instance(s)`);
+  } catch (err) {
+    console.error('[RecurringCron] Error:', err);
+  }
+}
 
 /**
- * Daily cron: runs at 6:00 AM every day
- * Generates ticket instances for active recurring templates.
+ * Daily cron: runs at 6:00 AM every day, and once on startup.
+ * Generates ticket instances for active recurring templates, including any
+ * occurrences missed while the API was down (see RECURRING_LOOKBACK_DAYS).
  */
 export function startRecurringCron(): void {
-  cron.schedule('0 6 * * *', async () => {
-    console.log('[RecurringCron] Running daily instance generation...');
-    try {
-      const count = await generateDueInstances();
-      console.log(`[RecurringCron] Generated ${count} ticket instance(s)`);
-    } catch (err) {
-      console.error('[RecurringCron] Error:', err);
-    }
-  });
-
+  cron.schedule('0 6 * * *', () => runGeneration('daily'));
   console.log('[RecurringCron] Scheduled daily at 06:00');
+
+  void runGeneration('startup catch-up');
 }
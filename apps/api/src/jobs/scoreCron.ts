@@ -0,0 +1,25 @@
+import cron from 'node-cron';
+import { updateScheduledScores } from '../services/scoringService';
+import { forEachHousehold } from './households';
+
+/**
+ * Daily cron: runs at 00:15 every day
+ * Finalizes the week and month that just closed for every employee and refreshes the running ones.
+ * Finalizing is idempotent, so a missed night is caught up by the next run.
+ */
+export function startScoreCron(): void {
+  cron.schedule('15 0 * * *', async () => {
+    console.log('[ScoreCron] Updating scores...');
+    try {
+      let total = 0;
+      await forEachHousehold('ScoreCron', async () => {
+        total += await updateScheduledScores();
+      });
+      console.log(`[ScoreCron] Scored ${total} employee(s)`);
+    } catch (err) {
+      console.error('[ScoreCron] Error:', err);
+    }
+  });
+
+  console.log('[ScoreCron] Scheduled daily at 00:15');
+}
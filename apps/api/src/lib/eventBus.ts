@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+
+// In-process pub/sub for ticket changes, fanned out to SSE clients by routes/events.ts.
+// Single-instance only — see LEARNING.md "What Would Change at Larger Scale".
+
+export type TicketEventType =
+  | 'ticket.created'
+  | 'ticket.transitioned'
+  | 'ticket.deleted'
+  | 'ticket.escalated'
+  | 'ticket.reassigned'
+  | 'ticket.handoff_requested'
+  | 'photo.uploaded';
+
+export interface TicketEventTicket {
+  id: string;
+  householdId: string;
+  title: string;
+  description: string;
+  status: string;
+  severity: string;
+  area: string;
+  category: string;
+  assignedUserId: string | null;
+  createdAt?: Date;
+}
+
+export interface TicketEscalationDetail {
+  action: 'raise_severity' | 'notify_authorities';
+  fromSeverity: string;
+  toSeverity?: string | null;
+  overdueHours: number;
+}
+
+export interface TicketEvent {
+  type: TicketEventType;
+  ticket: TicketEventTicket;
+  actorId: string;
+  fromStatus?: string;
+  note?: string;
+  reason?: string; // rejection reason code
+  fromUserId?: string | null; // previous assignee on ticket.reassigned
+  photoId?: string;
+  escalation?: TicketEscalationDetail;
+  at: string;
+}
+
+// actorId for events raised by scheduled jobs rather than a signed-in user
+export const SYSTEM_ACTOR_ID = 'system';
+
+export interface EventSubscriber {
+  userId: string;
+  role: string;
+  householdId: string;
+}
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection — lift the default cap of 10
+emitter.setMaxListeners(0);
+
+/**
+ * Same visibility rule as getTickets: nothing crosses households; authorities see
+ * everything in theirs, employees only tickets assigned to them. The previous assignee
+ * also hears about a reassignment so the ticket leaves their list.
+ */
+export function canReceive(event: TicketEvent, subscriber: EventSubscriber): boolean {
+  if (event.ticket.householdId !== subscriber.householdId) return false;
+  if (subscriber.role === 'mother' || subscriber.role === 'father') return true;
+  if (event.type === 'ticket.reassigned' && event.fromUserId === subscriber.userId) return true;
+  return event.ticket.assignedUserId === subscriber.userId;
+}
+
+export function publishTicketEvent(
+  type: TicketEventType,
+  ticket: TicketEventTicket,
+  actorId: string,
+  extra: {
+    fromStatus?: string;
+    note?: string;
+    reason?: string;
+    fromUserId?: string | null;
+    photoId?: string;
+    escalation?: TicketEscalationDetail;
+  } = {}
+): void {
+  const event: TicketEvent = {
+    type,
+    ticket: {
+      id: ticket.id,
+      householdId: ticket.householdId,
+      title: ticket.title,
+      description: ticket.description,
+      status: ticket.status,
+      severity: ticket.severity,
+      area: ticket.area,
+      category: ticket.category,
+      assignedUserId: ticket.assignedUserId,
+      createdAt: ticket.createdAt,
+    },
+    actorId,
+    ...extra,
+    at: new Date().toISOString(),
+  };
+  emitter.emit('ticket', event);
+}
+
+/**
+ * Registers a listener for ticket events. Returns an unsubscribe function.
+ */
+export function subscribeTicketEvents(listener: (event: TicketEvent) => void): () => void {
+  emitter.on('ticket', listener);
+  return () => {
+    emitter.off('ticket', listener);
+  };
+}
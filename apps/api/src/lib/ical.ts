@@ -0,0 +1,103 @@
+// Minimal RFC 5545 writer for the calendar feed.
+// Pure — no DB or env access, so the output is unit-tested directly.
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  allDay?: boolean;         // start's local date, no time
+  durationMinutes?: number; // timed events only; defaults to 30
+  url?: string;
+  categories?: string[];
+}
+
+const PRODID = '-//Household Ticket System//Calendar Feed//EN';
+
+// Calendar apps poll a subscribed feed; ask for roughly hourly refreshes
+const REFRESH = 'PT1H';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/**
+ * Lines longer than 75 octets continue on the next line after a single space.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts toward their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    const next = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1);
+    lines.push(`DTSTART;VALUE=DATE:${formatLocalDate(event.start)}`, `DTEND;VALUE=DATE:${formatLocalDate(next)}`);
+  } else {
+    const end = new Date(event.start.getTime() + (event.durationMinutes ?? 30) * 60 * 1000);
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serializes a whole VCALENDAR. Lines end in CRLF as the spec requires.
+ */
+export function formatCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH}`,
+    `X-PUBLISHED-TTL:${REFRESH}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+
+// Normalizes uploaded photos: auto-orient from EXIF, drop all metadata (GPS included),
+// recompress as JPEG and cut the smaller variants the UI shows in lists. The capture time
+// and a perceptual hash are read first so evidence checks survive the metadata strip.
+
+export type PhotoSize = 'original' | 'medium' | 'thumb';
+
+export interface ImageVariant {
+  body: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  mimeType: 'image/jpeg';
+  original: ImageVariant;
+  medium: ImageVariant;
+  thumb: ImageVariant;
+  capturedAt: Date | null;
+  phash: string;
+}
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+// Longest edge for the stored original and the medium variant; thumbnails are square crops
+const ORIGINAL_MAX = 2560;
+const MEDIUM_MAX = 1280;
+const THUMB_SIZE = 320;
+
+/**
+ * When the camera says the photo was taken. EXIF stores wall-clock time, which exif-reader
+ * returns as if it were UTC; the offset tag corrects it when present, otherwise the server's
+ * time zone is assumed (the household and its server share one).
+ */
+function captureTime(exif: Buffer | undefined): Date | null {
+  if (!exif) return null;
+
+  let tags: exifReader.Exif;
+  try {
+    tags = exifReader(exif);
+  } catch {
+    return null; // Unreadable EXIF is treated like none
+  }
+
+  const wallClock = tags.Photo?.DateTimeOriginal;
+  if (!(wallClock instanceof Date) || Number.isNaN(wallClock.getTime())) return null;
+
+  const offset = /^([+-])(\d{2}):(\d{2})$/.exec(tags.Photo?.OffsetTimeOriginal ?? '');
+  if (offset) {
+    const minutes = (Number(offset[2]) * 60 + Number(offset[3])) * (offset[1] === '-' ? -1 : 1);
+    return new Date(wallClock.getTime() - minutes * 60_000);
+  }
+
+  return new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds()
+  );
+}
+
+/**
+ * 64-bit difference hash: shrink to 9×8 greys and record whether each pixel is brighter than
+ * its right neighbour. Recompression, resizing and small exposure changes barely move it.
+ */
+async function perceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image).greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+async function render(image: sharp.Sharp, quality: number): Promise<ImageVariant> {
+  const { data, info } = await image.jpeg({ quality, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+  return { body: data, width: info.width, height: info.height };
+}
+
+/**
+ * Produces the three stored variants of an upload, plus its capture time and perceptual hash.
+ * sharp writes no metadata unless asked, so EXIF and GPS are gone from all of the variants.
+ * Throws ImageProcessingError for unreadable files.
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  let oriented: Buffer;
+  let capturedAt: Date | null;
+  try {
+    capturedAt = captureTime((await sharp(input).metadata()).exif);
+    // Bake the EXIF orientation into the pixels once; transparency goes onto white for JPEG
+    oriented = await sharp(input, { failOn: 'error' }).rotate().flatten({ background: '#ffffff' }).toBuffer();
+  } catch (err) {
+    throw new ImageProcessingError(`Could not read the image: ${(err as Error).message}`);
+  }
+
+  const fit = (max: number) => sharp(oriented).resize(max, max, { fit: 'inside', withoutEnlargement: true });
+
+  const [original, medium, thumb, phash] = await Promise.all([
+    render(fit(ORIGINAL_MAX), 85),
+    render(fit(MEDIUM_MAX), 80),
+    render(sharp(oriented).resize(THUMB_SIZE, THUMB_SIZE, { fit: 'cover', position: 'attention' }), 75),
+    perceptualHash(oriented),
+  ]);
+
+  return { mimeType: 'image/jpeg', original, medium, thumb, capturedAt, phash };
+}
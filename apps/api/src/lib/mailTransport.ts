@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+// Outbound email transports. SMTP for production; file and console need no network,
+// so development and tests can see exactly what would have been sent.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: 'smtp' | 'file' | 'console';
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createSmtpTransport(url: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<recipient>.eml` — open them in any mail client.
+ */
+export function createFileTransport(dir: string, from: string): MailTransport {
+  let sequence = 0;
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const file = path.join(dir, `${stamp}-${sequence++}-${recipient}.eml`);
+      await fs.writeFile(file, formatMessage(from, message), 'utf8');
+    },
+  };
+}
+
+export function createConsoleTransport(from: string): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Mail] ──────────────\n${formatMessage(from, message)}`);
+    },
+  };
+}
+
+export function formatMessage(from: string, message: MailMessage): string {
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    '',
+  ].join('\n');
+}
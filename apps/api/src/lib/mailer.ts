@@ -0,0 +1,35 @@
+import { env } from '../config/env';
+import {
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+  type MailMessage,
+  type MailTransport,
+} from './mailTransport';
+
+function createTransport(): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return createSmtpTransport(env.SMTP_URL!, env.MAIL_FROM);
+    case 'file':
+      return createFileTransport(env.MAIL_OUTBOX_DIR, env.MAIL_FROM);
+    default:
+      return createConsoleTransport(env.MAIL_FROM);
+  }
+}
+
+const transport = createTransport();
+
+/**
+ * Sends one email through the configured transport.
+ * Never throws — a mail outage must not fail the request or job that triggered it.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await transport.send(message);
+    return true;
+  } catch (err) {
+    console.error(`[Mail] Failed to send "${message.subject}" to ${message.to} via ${transport.name}:`, err);
+    return false;
+  }
+}
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v2 as cloudinary } from 'cloudinary';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } from '@aws-sdk/client-s3';
+
+// Photo storage drivers. Each stores opaque bytes under a key; the database keeps the key,
+// the driver name and the content type, and /api/photos/:id serves the bytes back.
+
+export type PhotoStorageName = 'local' | 's3' | 'cloudinary';
+
+export interface PhotoStorage {
+  name: PhotoStorageName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when nothing is stored under the key
+  remove(key: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+export interface CloudinaryStorageConfig {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Writes each photo to `<dir>/<key>`. Keys are generated by the API, but anything that would
+ * escape the directory is refused anyway.
+ */
+export function createLocalStorage(dir: string): PhotoStorage {
+  const root = path.resolve(dir);
+  function file(key: string): string {
+    const target = path.resolve(root, key);
+    if (!target.startsWith(root + path.sep)) throw new Error(`Invalid photo key "${key}"`);
+    return target;
+  }
+
+  return {
+    name: 'local',
+    async put(key, body) {
+      const target = file(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, body);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(file(key));
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+    async remove(key) {
+      try {
+        await fs.unlink(file(key));
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+      }
+    },
+  };
+}
+
+export function createS3Storage(config: S3StorageConfig): PhotoStorage {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+  const Bucket = config.bucket;
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async get(key) {
+      try {
+        const result = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+        return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+      } catch (err) {
+        if (err instanceof NoSuchKey) return null;
+        throw err;
+      }
+    },
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: key }));
+    },
+  };
+}
+
+/**
+ * Cloudinary keeps the key as the image's public_id. Reads go through its CDN so the API
+ * can still apply ticket visibility before handing the bytes out.
+ */
+export function createCloudinaryStorage(config: CloudinaryStorageConfig): PhotoStorage {
+  cloudinary.config({
+    cloud_name: config.cloudName,
+    api_key: config.apiKey,
+    api_secret: config.apiSecret,
+  });
+
+  return {
+    name: 'cloudinary',
+    async put(key, body) {
+      await new Promise<void>((resolve, reject) => {
+        cloudinary.uploader
+          .upload_stream({ public_id: key, resource_type: 'image' }, (error, result) => {
+            if (error || !result) return reject(error ?? new Error('Upload failed'));
+            resolve();
+          })
+          .end(body);
+      });
+    },
+    async get(key) {
+      const res = await fetch(cloudinary.url(key, { secure: true, resource_type: 'image' }));
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`Cloudinary returned ${res.status} for ${key}`);
+      return Buffer.from(await res.arrayBuffer());
+    },
+    async remove(key) {
+      await cloudinary.uploader.destroy(key, { resource_type: 'image' });
+    },
+  };
+}
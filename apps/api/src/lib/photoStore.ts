@@ -0,0 +1,58 @@
+import { env } from '../config/env';
+import {
+  createLocalStorage,
+  createS3Storage,
+  createCloudinaryStorage,
+  type PhotoStorage,
+  type PhotoStorageName,
+} from './photoStorage';
+
+const cloudinaryConfigured =
+  env.CLOUDINARY_CLOUD_NAME !== '' &&
+  env.CLOUDINARY_API_KEY !== '' &&
+  env.CLOUDINARY_API_SECRET !== '';
+
+// New uploads go here; existing photos are read back from whichever driver stored them
+export const activeStorageName: PhotoStorageName = env.PHOTO_STORAGE ?? (cloudinaryConfigured ? 'cloudinary' : 'local');
+
+function createStorage(name: PhotoStorageName): PhotoStorage {
+  switch (name) {
+    case 's3':
+      if (!env.S3_BUCKET) throw new Error('S3_BUCKET is not set, so photos stored in S3 cannot be reached');
+      return createS3Storage({
+        endpoint: env.S3_ENDPOINT,
+        region: env.S3_REGION,
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      });
+    case 'cloudinary':
+      if (!cloudinaryConfigured) throw new Error('Cloudinary is not configured, so photos stored there cannot be reached');
+      return createCloudinaryStorage({
+        cloudName: env.CLOUDINARY_CLOUD_NAME,
+        apiKey: env.CLOUDINARY_API_KEY,
+        apiSecret: env.CLOUDINARY_API_SECRET,
+      });
+    default:
+      return createLocalStorage(env.PHOTO_LOCAL_DIR);
+  }
+}
+
+const drivers = new Map<PhotoStorageName, PhotoStorage>();
+
+/**
+ * The driver for a storage name, created on first use. Throws when that driver is not configured.
+ */
+export function storageFor(name: PhotoStorageName): PhotoStorage {
+  let driver = drivers.get(name);
+  if (!driver) {
+    driver = createStorage(name);
+    drivers.set(name, driver);
+  }
+  return driver;
+}
+
+export function activeStorage(): PhotoStorage {
+  return storageFor(activeStorageName);
+}
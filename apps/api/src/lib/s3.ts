@@ -1,2 +0,0 @@
-// Photo storage is handled by Cloudinary (see photoService.ts)
-export {};
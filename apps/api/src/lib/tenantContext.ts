@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Request-scoped household id. Set by authenticate() for API calls and by
+// forEachHousehold() (jobs/households.ts) for cron jobs; read by the tenant Prisma extension.
+
+type TenantStore = { householdId: string } | { unscoped: true };
+
+const storage = new AsyncLocalStorage<TenantStore>();
+
+export class TenantScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantScopeError';
+  }
+}
+
+/**
+ * Runs fn with every tenant-scoped query filtered to the given household.
+ */
+export function runWithHousehold<T>(householdId: string, fn: () => T): T {
+  return storage.run({ householdId }, fn);
+}
+
+/**
+ * Runs fn without household filtering. Only for lookups that happen before a household
+ * is known (login by email) or that span households (cron fan-out).
+ */
+export function runUnscoped<T>(fn: () => T): T {
+  return storage.run({ unscoped: true }, fn);
+}
+
+/**
+ * Returns the household id in scope, null when explicitly unscoped.
+ * Throws TenantScopeError when called outside any scope — a tenant query
+ * without a household is a bug, never a default.
+ */
+export function getScopedHouseholdId(): string | null {
+  const store = storage.getStore();
+  if (!store) {
+    throw new TenantScopeError('No household in scope: wrap the call in runWithHousehold() or runUnscoped()');
+  }
+  return 'householdId' in store ? store.householdId : null;
+}
+
+/**
+ * The household in scope, for stamping on new rows. Throws when unscoped.
+ */
+export function requireHouseholdId(): string {
+  const householdId = getScopedHouseholdId();
+  if (!householdId) {
+    throw new TenantScopeError('This operation needs a household in scope');
+  }
+  return householdId;
+}
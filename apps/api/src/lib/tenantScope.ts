@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { getScopedHouseholdId } from './tenantContext';
+
+// Forces every query on a tenant model to filter by the household in scope.
+// Models that carry householdId are filtered directly; child rows are filtered
+// through the relation that leads back to their ticket.
+
+type Where = Record<string, unknown>;
+
+const SCOPE_BY_MODEL: Record<string, (householdId: string) => Where> = {
+  User:                   (householdId) => ({ householdId }),
+  Ticket:                 (householdId) => ({ householdId }),
+  RecurringTemplate:      (householdId) => ({ householdId }),
+  ScoreRecord:            (householdId) => ({ householdId }),
+  EscalationRule:         (householdId) => ({ householdId }),
+  EvidencePolicy:         (householdId) => ({ householdId }),
+  ScoringPolicy:          (householdId) => ({ householdId }),
+  ScoreDispute:           (householdId) => ({ householdId }),
+  TicketPhoto:            (householdId) => ({ ticket: { householdId } }),
+  TicketAuditLog:         (householdId) => ({ ticket: { householdId } }),
+  RecurringInstance:      (householdId) => ({ ticket: { householdId } }),
+  TicketComment:          (householdId) => ({ ticket: { householdId } }),
+  TicketCommentRead:      (householdId) => ({ ticket: { householdId } }),
+  TicketCommentMention:   (householdId) => ({ comment: { ticket: { householdId } } }),
+  TicketEscalation:       (householdId) => ({ ticket: { householdId } }),
+  NotificationPreference: (householdId) => ({ user: { householdId } }),
+  PushSubscription:       (householdId) => ({ user: { householdId } }),
+  CalendarToken:          (householdId) => ({ user: { householdId } }),
+  TicketChecklistItem:    (householdId) => ({ ticket: { householdId } }),
+  TicketAssignment:       (householdId) => ({ ticket: { householdId } }),
+  HandoffRequest:         (householdId) => ({ ticket: { householdId } }),
+  ScoreDisputeEvent:      (householdId) => ({ dispute: { householdId } }),
+};
+
+// Models whose rows store householdId themselves — creates get it stamped in
+const OWNS_HOUSEHOLD_ID = new Set(['User', 'Ticket', 'RecurringTemplate', 'ScoreRecord', 'EscalationRule', 'EvidencePolicy', 'ScoringPolicy', 'ScoreDispute']);
+
+const WHERE_OPERATIONS = new Set([
+  'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow', 'findMany',
+  'count', 'aggregate', 'groupBy',
+  'update', 'updateMany', 'upsert', 'delete', 'deleteMany',
+]);
+
+export function isTenantModel(model: string): boolean {
+  return model in SCOPE_BY_MODEL;
+}
+
+function withScope(where: Where | undefined, scope: Where): Where {
+  const existing = where ?? {};
+  const and = existing.AND === undefined ? [] : Array.isArray(existing.AND) ? existing.AND : [existing.AND];
+  // AND keeps the caller's unique keys (id, compound uniques) at top level for findUnique/update/delete
+  return { ...existing, AND: [...and, scope] };
+}
+
+function stampHousehold(data: unknown, householdId: string): unknown {
+  if (Array.isArray(data)) return data.map((d) => stampHousehold(d, householdId));
+  if (!data || typeof data !== 'object') return data;
+  const record = data as Where;
+  // Relation-style create (household: { connect }) is rewritten to the scalar
+  const { household: _ignored, ...rest } = record;
+  return { ...rest, householdId };
+}
+
+function stripHousehold(data: unknown): unknown {
+  if (!data || typeof data !== 'object') return data;
+  const { householdId: _id, household: _rel, ...rest } = data as Where;
+  return rest;
+}
+
+/**
+ * Returns the query args rewritten so they can only touch rows of the given household.
+ * Pure — exported for unit tests.
+ */
+export function scopeQueryArgs(
+  model: string,
+  operation: string,
+  args: Record<string, unknown> | undefined,
+  householdId: string
+): Record<string, unknown> {
+  const scopeFor = SCOPE_BY_MODEL[model];
+  const next: Record<string, unknown> = { ...(args ?? {}) };
+  if (!scopeFor) return next;
+
+  const scope = scopeFor(householdId);
+
+  if (WHERE_OPERATIONS.has(operation)) {
+    next.where = withScope(next.where as Where | undefined, scope);
+  }
+
+  if (OWNS_HOUSEHOLD_ID.has(model)) {
+    if (operation === 'create' || operation === 'createMany' || operation === 'createManyAndReturn') {
+      next.data = stampHousehold(next.data, householdId);
+    }
+    if (operation === 'upsert') {
+      next.create = stampHousehold(next.create, householdId);
+    }
+    // Moving a row to another household is never allowed
+    if (operation === 'update' || operation === 'updateMany' || operation === 'upsert') {
+      const key = operation === 'upsert' ? 'update' : 'data';
+      next[key] = stripHousehold(next[key]);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * The arguments a query actually runs with, for the household in scope: scoped for tenant
+ * models, untouched for global models and inside runUnscoped(). Throws TenantScopeError for a
+ * tenant query outside any scope.
+ */
+export function scopeOperation(model: string, operation: string, args: Record<string, unknown>): Record<string, unknown> {
+  if (!isTenantModel(model)) return args;
+
+  const householdId = getScopedHouseholdId();
+  if (householdId === null) return args;
+
+  return scopeQueryArgs(model, operation, args, householdId);
+}
+
+export const tenantExtension = Prisma.defineExtension({
+  name: 'tenant',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        return query(scopeOperation(model, operation, args as Record<string, unknown>) as typeof args);
+      },
+    },
+  },
+});
@@ -0,0 +1,59 @@
+import webpush from 'web-push';
+
+// Web Push delivery: web-push encrypts the payload and signs the VAPID headers, then we POST it
+// ourselves with fetch. That works against plain-http endpoints too, so tests (and local dev)
+// can point a subscription at a mock push service. No env access.
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+  urgent?: boolean;
+}
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+// expired = the push service says the subscription is gone (404/410) and should be deleted
+export type PushResult = 'sent' | 'expired' | 'failed';
+
+// Urgent tasks are worthless hours later — let the push service drop them
+const TTL_SECONDS = 60 * 60;
+
+export async function sendPush(target: PushTarget, payload: PushPayload, vapid: VapidConfig): Promise<PushResult> {
+  try {
+    const request = webpush.generateRequestDetails(
+      { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+      JSON.stringify(payload),
+      {
+        vapidDetails: vapid,
+        TTL: TTL_SECONDS,
+        urgency: payload.urgent ? 'high' : 'normal',
+      }
+    );
+
+    const response = await fetch(request.endpoint, {
+      method: request.method,
+      headers: request.headers as Record<string, string>,
+      body: request.body ?? undefined,
+    });
+
+    if (response.ok) return 'sent';
+    if (response.status === 404 || response.status === 410) return 'expired';
+    console.error(`[Push] ${new URL(target.endpoint).host} rejected push: HTTP ${response.status}`);
+    return 'failed';
+  } catch (err) {
+    console.error(`[Push] Failed to deliver to ${new URL(target.endpoint).host}:`, err);
+    return 'failed';
+  }
+}
@@ -2,10 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
 import { prisma } from '../lib/prisma';
+import { runWithHousehold } from '../lib/tenantContext';
 
 export interface JwtPayload {
   sub: string;    // userId
   role: 'mother' | 'father' | 'employee';
+  householdId: string;
   jti: string;    // JWT ID for revocation
   iat: number;
   exp: number;
@@ -38,6 +40,12 @@ export async function authenticate(
 
     const payload = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
 
+    // Tokens issued before households existed carry no tenant — force a fresh login
+    if (!payload.householdId) {
+      res.status(401).json({ success: false, error: 'Invalid token' });
+      return;
+    }
+
     // Check token revocation
     const revoked = await prisma.revokedToken.findUnique({
       where: { jti: payload.jti },
@@ -49,7 +57,8 @@ export async function authenticate(
     }
 
     req.user = payload;
-    next();
+    // Every Prisma query for the rest of this request is filtered to the caller's household
+    runWithHousehold(payload.householdId, () => next());
   } catch (err) {
     if (err instanceof jwt.JsonWebTokenError) {
       res.status(401).json({ success: false, error: 'Invalid token' });
@@ -62,3 +71,11 @@ export async function authenticate(
     next(err);
   }
 }
+
+/**
+ * Re-enters the caller's household scope. Middleware that finishes in its own callbacks
+ * (multer parsing an upload) loses the scope authenticate() set, so run this after it.
+ */
+export function restoreHouseholdScope(req: Request, _res: Response, next: NextFunction): void {
+  runWithHousehold(req.user.householdId, () => next());
+}
@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { env } from '../config/env';
 import { prisma } from '../lib/prisma';
 import { authenticate } from '../middleware/auth';
+import { runUnscoped } from '../lib/tenantContext';
 import type { JwtPayload } from '../middleware/auth';
 
 const router = Router();
@@ -25,7 +26,13 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
 
   const { email, password } = parsed.data;
 
-  const user = await prisma.user.findUnique({ where: { email } });
+  // Email is unique across households — this lookup is what tells us the tenant
+  const user = await runUnscoped(() =>
+    prisma.user.findUnique({
+      where: { email },
+      include: { household: { select: { id: true, name: true } } },
+    })
+  );
   if (!user) {
     res.status(401).json({ success: false, error: 'Invalid credentials' });
     return;
@@ -38,7 +45,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   }
 
   const jti = uuidv4();
-  const payload = { sub: user.id, role: user.role, jti };
+  const payload = { sub: user.id, role: user.role, householdId: user.householdId, jti };
 
   const token = jwt.sign(payload, env.JWT_SECRET, {
     expiresIn: env.JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
@@ -62,6 +69,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
         email: user.email,
         role: user.role,
         specialty: user.specialty,
+        household: user.household,
       },
     },
   });
@@ -88,7 +96,15 @@ router.post('/logout', authenticate, async (req: Request, res: Response): Promis
 router.get('/me', authenticate, async (req: Request, res: Response): Promise<void> => {
   const user = await prisma.user.findUnique({
     where: { id: req.user.sub },
-    select: { id: true, name: true, email: true, role: true, specialty: true, createdAt: true },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      specialty: true,
+      createdAt: true,
+      household: { select: { id: true, name: true } },
+    },
   });
 
   if (!user) {
@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { runWithHousehold } from '../lib/tenantContext';
+import {
+  getFeedStatus,
+  createFeedToken,
+  revokeFeedToken,
+  findFeedOwner,
+  buildFeed,
+} from '../services/calendarService';
+
+const router = Router();
+
+// GET /api/calendar/token — whether the caller has an active feed
+router.get('/token', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const status = await getFeedStatus(req.user.sub);
+  res.json({ success: true, data: status });
+});
+
+// POST /api/calendar/token — issue a feed URL, replacing any previous one
+router.post('/token', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const { token, path } = await createFeedToken(req.user.sub);
+  res.status(201).json({ success: true, data: { token, path } });
+});
+
+// DELETE /api/calendar/token — stop the current feed URL from working
+router.delete('/token', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const revoked = await revokeFeedToken(req.user.sub);
+  if (!revoked) {
+    res.status(404).json({ success: false, error: 'No active calendar feed' });
+    return;
+  }
+  res.json({ success: true, data: { message: 'Calendar feed revoked' } });
+});
+
+// GET /api/calendar/feed/:token.ics — public; calendar apps can't send cookies, the token is the credential
+router.get('/feed/:token', async (req: Request, res: Response): Promise<void> => {
+  const token = req.params.token.replace(/\.ics$/, '');
+  const owner = await findFeedOwner(token);
+  if (!owner) {
+    res.status(404).json({ success: false, error: 'Calendar feed not found' });
+    return;
+  }
+
+  const body = await runWithHousehold(owner.householdId, () => buildFeed(owner));
+  res
+    .status(200)
+    .set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="household-tasks.ics"',
+      'Cache-Control': 'private, max-age=300',
+    })
+    .send(body);
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { setItemChecked } from '../services/checklistService';
+import { ChecklistError } from '../services/ticketService';
+
+// Mounted at /api/tickets/:id/checklist
+const router = Router({ mergeParams: true });
+
+const checkSchema = z.object({
+  checked: z.boolean(),
+});
+
+// PATCH /api/tickets/:id/checklist/:itemId
+router.patch('/:itemId', authenticate, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = checkSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const item = await setItemChecked(req.params.id, req.params.itemId, parsed.data.checked, req.user.sub, req.user.role);
+    if (!item) {
+      res.status(404).json({ success: false, error: 'Checklist item not found' });
+      return;
+    }
+    res.json({ success: true, data: { item } });
+  } catch (err) {
+    if (err instanceof ChecklistError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+export default router;
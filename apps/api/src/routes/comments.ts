@@ -0,0 +1,61 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { getComments, addComment, markCommentsRead } from '../services/commentService';
+import { getTicketById } from '../services/ticketService';
+
+// Mounted at /api/tickets/:id/comments
+const router = Router({ mergeParams: true });
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+// GET /api/tickets/:id/comments
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const result = await getComments(req.params.id, req.user.sub, req.user.role);
+
+  if (!result) {
+    res.status(404).json({ success: false, error: 'Ticket not found' });
+    return;
+  }
+
+  res.json({ success: true, data: result });
+});
+
+// POST /api/tickets/:id/comments
+router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const parsed = commentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  const comment = await addComment({
+    ticketId: req.params.id,
+    body: parsed.data.body,
+    authorId: req.user.sub,
+    authorRole: req.user.role,
+  });
+
+  if (!comment) {
+    res.status(404).json({ success: false, error: 'Ticket not found' });
+    return;
+  }
+
+  res.status(201).json({ success: true, data: { comment } });
+});
+
+// POST /api/tickets/:id/comments/read — mark every comment up to now as read
+router.post('/read', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const ticket = await getTicketById(req.params.id, req.user.sub, req.user.role);
+  if (!ticket) {
+    res.status(404).json({ success: false, error: 'Ticket not found' });
+    return;
+  }
+
+  const read = await markCommentsRead(ticket.id, req.user.sub);
+  res.json({ success: true, data: { lastReadAt: read.lastReadAt } });
+});
+
+export default router;
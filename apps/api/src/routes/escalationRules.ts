@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  getEscalationRules,
+  createEscalationRule,
+  updateEscalationRule,
+  deleteEscalationRule,
+  runEscalations,
+  EscalationRuleError,
+} from '../services/escalationService';
+
+const router = Router();
+
+const severity = z.enum(['minor', 'needs_fix_today', 'immediate_interrupt']);
+
+const ruleSchema = z.object({
+  severity,
+  overdueHours: z.number().int().min(0).max(24 * 30),
+  action: z.enum(['raise_severity', 'notify_authorities']),
+  toSeverity: severity.nullable().optional(),
+});
+
+// Everything on this router is authority only
+router.use(authenticate, requireRole('mother', 'father'));
+
+// GET /api/escalation-rules
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  const rules = await getEscalationRules();
+  res.json({ success: true, data: { rules } });
+});
+
+// POST /api/escalation-rules
+router.post('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = ruleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const rule = await createEscalationRule(parsed.data);
+    res.status(201).json({ success: true, data: { rule } });
+  } catch (err) {
+    if (err instanceof EscalationRuleError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+// PATCH /api/escalation-rules/:id
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = ruleSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const rule = await updateEscalationRule(req.params.id, parsed.data);
+    if (!rule) {
+      res.status(404).json({ success: false, error: 'Escalation rule not found' });
+      return;
+    }
+    res.json({ success: true, data: { rule } });
+  } catch (err) {
+    if (err instanceof EscalationRuleError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+// DELETE /api/escalation-rules/:id
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  const deleted = await deleteEscalationRule(req.params.id);
+  if (!deleted) {
+    res.status(404).json({ success: false, error: 'Escalation rule not found' });
+    return;
+  }
+  res.json({ success: true, data: { message: 'Escalation rule deleted' } });
+});
+
+// POST /api/escalation-rules/run — manual trigger
+router.post('/run', async (_req: Request, res: Response): Promise<void> => {
+  const escalated = await runEscalations();
+  res.json({ success: true, data: { escalated } });
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { subscribeTicketEvents, canReceive } from '../lib/eventBus';
+
+const router = Router();
+
+// Proxies (Railway, nginx) drop idle connections — send a comment line well before that
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/events — Server-Sent Events stream of ticket changes visible to the caller
+router.get('/', authenticate, (req: Request, res: Response): void => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Reconnect quickly if the connection drops
+  res.write('retry: 3000\n\n');
+
+  const subscriber = { userId: req.user.sub, role: req.user.role, householdId: req.user.householdId };
+
+  const unsubscribe = subscribeTicketEvents((event) => {
+    if (!canReceive(event, subscriber)) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
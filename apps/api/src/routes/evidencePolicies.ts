@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  getEvidencePolicies,
+  createEvidencePolicy,
+  updateEvidencePolicy,
+  deleteEvidencePolicy,
+  EvidencePolicyError,
+} from '../services/evidenceService';
+
+const router = Router();
+
+const photoRequirementsSchema = z
+  .array(
+    z.object({
+      photoType: z.enum(['before', 'after', 'completion', 'receipt', 'any']),
+      min: z.number().int(),
+    })
+  )
+  .max(5);
+
+const policySchema = z.object({
+  area: z.string().min(1).nullable().optional(),
+  category: z.string().min(1).nullable().optional(),
+  severity: z.enum(['minor', 'needs_fix_today', 'immediate_interrupt']).nullable().optional(),
+  photos: photoRequirementsSchema,
+});
+
+// Everything on this router is authority only
+router.use(authenticate, requireRole('mother', 'father'));
+
+// GET /api/evidence-policies
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  const policies = await getEvidencePolicies();
+  res.json({ success: true, data: { policies } });
+});
+
+// POST /api/evidence-policies
+router.post('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = policySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const policy = await createEvidencePolicy(parsed.data);
+    res.status(201).json({ success: true, data: { policy } });
+  } catch (err) {
+    if (err instanceof EvidencePolicyError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+// PATCH /api/evidence-policies/:id
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = policySchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const policy = await updateEvidencePolicy(req.params.id, parsed.data);
+    if (!policy) {
+      res.status(404).json({ success: false, error: 'Evidence policy not found' });
+      return;
+    }
+    res.json({ success: true, data: { policy } });
+  } catch (err) {
+    if (err instanceof EvidencePolicyError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+// DELETE /api/evidence-policies/:id
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  const deleted = await deleteEvidencePolicy(req.params.id);
+  if (!deleted) {
+    res.status(404).json({ success: false, error: 'Evidence policy not found' });
+    return;
+  }
+  res.json({ success: true, data: { message: 'Evidence policy deleted' } });
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  requestHandoff,
+  getPendingHandoffs,
+  resolveHandoff,
+  ReassignmentError,
+} from '../services/assignmentService';
+import { MAX_HANDOFF_REASON } from '@household/domain';
+
+const router = Router();
+
+const requestSchema = z.object({
+  ticketId: z.string().min(1),
+  reason: z.string().min(1).max(MAX_HANDOFF_REASON),
+});
+
+const approveSchema = z.object({
+  assignedUserId: z.string().min(1).nullable().default(null), // who takes it over; null = unassigned for now
+});
+
+// GET /api/handoffs — authority only; requests waiting for an answer
+router.get(
+  '/',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (_req: Request, res: Response): Promise<void> => {
+    const requests = await getPendingHandoffs();
+    res.json({ success: true, data: { requests } });
+  }
+);
+
+// POST /api/handoffs — the assignee asks for their ticket to go to someone else
+router.post('/', authenticate, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = requestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const request = await requestHandoff(parsed.data.ticketId, req.user.sub, req.user.role, parsed.data.reason);
+    if (!request) {
+      res.status(404).json({ success: false, error: 'Ticket not found' });
+      return;
+    }
+    res.status(201).json({ success: true, data: { request } });
+  } catch (err) {
+    if (err instanceof ReassignmentError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+async function resolve(req: Request, res: Response, next: NextFunction, approve: boolean, toUserId: string | null): Promise<void> {
+  try {
+    const request = await resolveHandoff(req.params.id, approve, req.user.sub, toUserId);
+    if (!request) {
+      res.status(404).json({ success: false, error: 'Handoff request not found' });
+      return;
+    }
+    res.json({ success: true, data: { request } });
+  } catch (err) {
+    if (err instanceof ReassignmentError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+}
+
+// POST /api/handoffs/:id/approve — authority only; reassigns the ticket
+router.post(
+  '/:id/approve',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = approveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+    await resolve(req, res, next, true, parsed.data.assignedUserId);
+  }
+);
+
+// POST /api/handoffs/:id/decline — authority only; the ticket stays where it is
+router.post(
+  '/:id/decline',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await resolve(req, res, next, false, null);
+  }
+);
+
+export default router;
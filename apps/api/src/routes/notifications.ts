@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { getPreferences, updatePreferences } from '../services/notificationService';
+
+const router = Router();
+
+const preferencesSchema = z
+  .object({
+    emailEnabled: z.boolean(),
+    ticketAssigned: z.boolean(),
+    ticketRejected: z.boolean(),
+    immediateInterrupt: z.boolean(),
+    escalations: z.boolean(),
+    dailyDigest: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+// GET /api/notifications/preferences — the caller's own preferences
+router.get('/preferences', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const preferences = await getPreferences(req.user.sub);
+  res.json({ success: true, data: { preferences } });
+});
+
+// PUT /api/notifications/preferences — partial update of the caller's own preferences
+router.put('/preferences', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const parsed = preferencesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  const preferences = await updatePreferences(req.user.sub, parsed.data);
+  res.json({ success: true, data: { preferences } });
+});
+
+export default router;
@@ -1,13 +1,13 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { z } from 'zod';
-import { authenticate } from '../middleware/auth';
-import { uploadPhoto } from '../services/photoService';
+import { authenticate, restoreHouseholdScope } from '../middleware/auth';
+import { uploadPhoto, readPhoto, ImageProcessingError } from '../services/photoService';
 import type { PhotoType } from '@prisma/client';
 
 const router = Router();
 
-// Store files in memory for S3 upload
+// Keep uploads in memory; they are processed and handed to the storage driver
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
@@ -23,7 +23,12 @@ const upload = multer({
 
 const uploadSchema = z.object({
   ticketId: z.string().min(1),
-  photoType: z.enum(['before', 'after', 'completion']),
+  photoType: z.enum(['before', 'after', 'completion', 'receipt']),
+  checklistItemId: z.string().min(1).optional(),
+});
+
+const readSchema = z.object({
+  size: z.enum(['original', 'medium', 'thumb']).default('original'),
 });
 
 // POST /api/photos/upload
@@ -31,6 +36,7 @@ router.post(
   '/upload',
   authenticate,
   upload.single('photo'),
+  restoreHouseholdScope,
   async (req: Request, res: Response): Promise<void> => {
     const parsed = uploadSchema.safeParse(req.body);
     if (!parsed.success) {
@@ -48,6 +54,7 @@ router.post(
         ticketId: parsed.data.ticketId,
         uploaderId: req.user.sub,
         photoType: parsed.data.photoType as PhotoType,
+        checklistItemId: parsed.data.checklistItemId,
         fileBuffer: req.file.buffer,
         mimeType: req.file.mimetype,
         originalName: req.file.originalname,
@@ -55,10 +62,44 @@ router.post(
 
       res.status(201).json({ success: true, data: { photo } });
     } catch (err) {
+      if (err instanceof ImageProcessingError) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Upload failed';
       res.status(400).json({ success: false, error: message });
     }
   }
 );
 
+// GET /api/photos/:id?size=thumb|medium|original — the image itself, for anyone who can see its ticket
+router.get('/:id', authenticate, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = readSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    // Bytes missing from storage come back as null; anything else the driver throws is a 500
+    const photo = await readPhoto(req.params.id, parsed.data.size, req.user.sub, req.user.role);
+    if (!photo) {
+      res.status(404).json({ success: false, error: 'Photo not found' });
+      return;
+    }
+
+    res
+      .set({
+        'Content-Type': photo.mimeType,
+        // Stored photos never change; private keeps shared caches out of it
+        'Cache-Control': 'private, max-age=86400, immutable',
+        // The web app may live on another origin (see CORS_ORIGIN)
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+      })
+      .send(photo.body);
+  } catch (err) {
+    next(err);
+  }
+});
+
 export default router;
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { getVapidPublicKey, saveSubscription, removeSubscription } from '../services/pushService';
+
+const router = Router();
+
+// Shape of PushSubscription.toJSON() in the browser
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+});
+
+// GET /api/push/vapid-public-key
+router.get('/vapid-public-key', authenticate, (_req: Request, res: Response): void => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    res.status(503).json({ success: false, error: 'Push notifications are not configured on this server' });
+    return;
+  }
+  res.json({ success: true, data: { publicKey } });
+});
+
+// POST /api/push/subscriptions — register this browser for the caller
+router.post('/subscriptions', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const parsed = subscriptionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  const subscription = await saveSubscription(req.user.sub, parsed.data, req.get('user-agent'));
+  res.status(201).json({ success: true, data: { subscription: { id: subscription.id, endpoint: subscription.endpoint } } });
+});
+
+// DELETE /api/push/subscriptions — unregister this browser
+router.delete('/subscriptions', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const parsed = unsubscribeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  await removeSubscription(req.user.sub, parsed.data.endpoint);
+  res.json({ success: true, data: { message: 'Unsubscribed' } });
+});
+
+export default router;
@@ -1,26 +1,61 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
+import { env } from '../config/env';
 import {
   getTemplates,
   createTemplate,
   updateTemplate,
   generateDueInstances,
+  planDueInstances,
+  formatDay,
+  RecurrenceRuleError,
+  AssignmentStrategyError,
+  ChecklistError,
+  EvidencePolicyError,
 } from '../services/recurringService';
 
 const router = Router();
 
-const createTemplateSchema = z.object({
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+const templateSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().min(1),
-  frequency: z.enum(['daily', 'weekly', 'monthly', 'custom']),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'custom']).optional(),
+  rrule: z.string().min(1).max(500).optional(), // e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR
+  startsOn: day.optional(),
+  endsOn: day.nullable().optional(),
+  exceptionDates: z.array(day).max(366).optional(),
   assignedRoles: z.array(z.enum(['mother', 'father', 'employee'])).default([]),
+  assignmentStrategy: z.enum(['none', 'fixed_user', 'round_robin', 'least_loaded']).optional(),
+  assigneeId: z.string().min(1).nullable().optional(),
+  assigneeSpecialty: z.string().min(1).max(100).nullable().optional(),
+  stalePolicy: z.enum(['keep', 'auto_skip', 'carry_over', 'merge']).optional(),
+  checklist: z
+    .array(z.object({ label: z.string(), required: z.boolean().optional(), photoRequired: z.boolean().optional() }))
+    .optional(),
+  evidencePolicy: z
+    .object({
+      photos: z
+        .array(z.object({ photoType: z.enum(['before', 'after', 'completion', 'receipt', 'any']), min: z.number().int() }))
+        .max(5),
+    })
+    .nullable()
+    .optional(),
   severityDefault: z.enum(['minor', 'needs_fix_today', 'immediate_interrupt']).default('minor'),
   area: z.string().min(1),
   category: z.string().min(1),
 });
 
+const createTemplateSchema = templateSchema.refine((t) => t.frequency || t.rrule, {
+  message: 'Either frequency or rrule is required',
+  path: ['rrule'],
+});
+
+const updateTemplateSchema = templateSchema.partial().extend({ isActive: z.boolean().optional() });
+
 // GET /api/recurring/templates
 router.get('/templates', authenticate, async (_req: Request, res: Response): Promise<void> => {
   const templates = await getTemplates();
@@ -32,19 +67,31 @@ router.post(
   '/templates',
   authenticate,
   requireRole('mother', 'father'),
-  async (req: Request, res: Response): Promise<void> => {
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const parsed = createTemplateSchema.safeParse(req.body);
     if (!parsed.success) {
       res.status(400).json({ success: false, error: parsed.error.flatten() });
       return;
     }
 
-    const template = await createTemplate({
-      ...parsed.data,
-      createdById: req.user.sub,
-    });
-
-    res.status(201).json({ success: true, data: { template } });
+    try {
+      const template = await createTemplate({
+        ...parsed.data,
+        createdById: req.user.sub,
+      });
+      res.status(201).json({ success: true, data: { template } });
+    } catch (err) {
+      if (
+        err instanceof RecurrenceRuleError ||
+        err instanceof AssignmentStrategyError ||
+        err instanceof ChecklistError ||
+        err instanceof EvidencePolicyError
+      ) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
+      next(err);
+    }
   }
 );
 
@@ -53,9 +100,48 @@ router.patch(
   '/templates/:id',
   authenticate,
   requireRole('mother', 'father'),
-  async (req: Request, res: Response): Promise<void> => {
-    const template = await updateTemplate(req.params.id, req.body);
-    res.json({ success: true, data: { template } });
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = updateTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const template = await updateTemplate(req.params.id, parsed.data);
+      res.json({ success: true, data: { template } });
+    } catch (err) {
+      if (
+        err instanceof RecurrenceRuleError ||
+        err instanceof AssignmentStrategyError ||
+        err instanceof ChecklistError ||
+        err instanceof EvidencePolicyError
+      ) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
+      next(err);
+    }
+  }
+);
+
+// GET /api/recurring/instances/preview — authority only, what generate would create right now
+router.get(
+  '/instances/preview',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (_req: Request, res: Response): Promise<void> => {
+    const plan = await planDueInstances();
+    const instances = plan.map((p) => ({
+      templateId: p.template.id,
+      templateName: p.template.name,
+      scheduledFor: formatDay(p.scheduledFor),
+      catchUp: p.catchUp,
+      action: p.carryOver ? 'carry_over' : 'create',
+      stalePolicy: p.template.stalePolicy,
+      assignedUserId: p.assignedUserId,
+    }));
+    res.json({ success: true, data: { instances, lookbackDays: env.RECURRING_LOOKBACK_DAYS } });
   }
 );
 
@@ -0,0 +1,114 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { openDispute, getDisputes, resolveDispute, ScoreDisputeError } from '../services/scoreDisputeService';
+import { DISPUTABLE_RULES, MAX_DISPUTE_REASON } from '@household/domain';
+
+const router = Router();
+
+const listSchema = z.object({
+  status: z.enum(['pending', 'accepted', 'declined']).optional(),
+});
+
+const openSchema = z.object({
+  scoreId: z.string().min(1),
+  ticketId: z.string().min(1),
+  rule: z.enum(DISPUTABLE_RULES),
+  reason: z.string().min(1).max(MAX_DISPUTE_REASON),
+});
+
+const acceptSchema = z.object({
+  adjustment: z.number().positive().optional(), // points given back; all of the deduction when left out
+  note: z.string().max(MAX_DISPUTE_REASON).optional(),
+});
+
+const declineSchema = z.object({
+  note: z.string().min(1).max(MAX_DISPUTE_REASON),
+});
+
+// GET /api/score-disputes?status= — authorities see every dispute, employees their own
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  const userId = req.user.role === 'employee' ? req.user.sub : undefined;
+  const disputes = await getDisputes({ userId, status: parsed.data.status });
+  res.json({ success: true, data: { disputes } });
+});
+
+// POST /api/score-disputes — an employee disputes one deduction on their own score
+router.post('/', authenticate, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const parsed = openSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const dispute = await openDispute(req.user.sub, parsed.data);
+    if (!dispute) {
+      res.status(404).json({ success: false, error: 'Score not found' });
+      return;
+    }
+    res.status(201).json({ success: true, data: { dispute } });
+  } catch (err) {
+    if (err instanceof ScoreDisputeError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+async function resolve(req: Request, res: Response, next: NextFunction, input: { accept: boolean; adjustment?: number; note?: string }): Promise<void> {
+  try {
+    const dispute = await resolveDispute(req.params.id, req.user.sub, input);
+    if (!dispute) {
+      res.status(404).json({ success: false, error: 'Dispute not found' });
+      return;
+    }
+    res.json({ success: true, data: { dispute } });
+  } catch (err) {
+    if (err instanceof ScoreDisputeError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+}
+
+// POST /api/score-disputes/:id/accept — authority only; gives the points back
+router.post(
+  '/:id/accept',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = acceptSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+    await resolve(req, res, next, { accept: true, ...parsed.data });
+  }
+);
+
+// POST /api/score-disputes/:id/decline — authority only; the deduction stands, with a reason
+router.post(
+  '/:id/decline',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = declineSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+    await resolve(req, res, next, { accept: false, note: parsed.data.note });
+  }
+);
+
+export default router;
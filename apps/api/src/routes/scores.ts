@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
-import { computeAndSaveScore, getLatestScore, getScoreHistory } from '../services/scoringService';
+import { computeAndSaveScore, getLatestScore, getScoreHistory, getScoreBreakdown } from '../services/scoringService';
 import { prisma } from '../lib/prisma';
 import { z } from 'zod';
 
@@ -23,6 +23,31 @@ router.get('/:userId', authenticate, async (req: Request, res: Response): Promis
   res.json({ success: true, data: { latest, history } });
 });
 
+// GET /api/scores/:userId/breakdown?scoreId= — the score's ledger, line by line (latest score by default)
+router.get('/:userId/breakdown', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const { userId } = req.params;
+
+  // Employees can only see their own scores
+  if (req.user.role === 'employee' && req.user.sub !== userId) {
+    res.status(403).json({ success: false, error: 'You can only view your own scores' });
+    return;
+  }
+
+  const parsed = z.object({ scoreId: z.string().optional() }).safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.flatten() });
+    return;
+  }
+
+  const breakdown = await getScoreBreakdown(userId, parsed.data.scoreId);
+  if (!breakdown) {
+    res.status(404).json({ success: false, error: 'Score not found' });
+    return;
+  }
+
+  res.json({ success: true, data: breakdown });
+});
+
 // GET /api/scores — summary of all users (authority only)
 router.get(
   '/',
@@ -63,6 +88,12 @@ router.post(
       return;
     }
 
+    const user = await prisma.user.findUnique({ where: { id: parsed.data.userId } });
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' });
+      return;
+    }
+
     const record = await computeAndSaveScore(parsed.data.userId, {
       start: new Date(parsed.data.periodStart),
       end: new Date(parsed.data.periodEnd),
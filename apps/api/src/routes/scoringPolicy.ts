@@ -0,0 +1,66 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  getScoringPolicy,
+  getScoringPolicyHistory,
+  updateScoringPolicy,
+  ScoringPolicyError,
+  ScoringPolicyConflictError,
+} from '../services/scoringPolicyService';
+
+const router = Router();
+
+// Values are checked by the domain validator; fields left out take the default
+const updatePolicySchema = z.object({
+  policy: z.record(z.unknown()),
+});
+
+// GET /api/scoring-policy — the rules scores are computed with (everyone may see what they are scored on)
+router.get('/', authenticate, async (_req: Request, res: Response): Promise<void> => {
+  const policy = await getScoringPolicy();
+  res.json({ success: true, data: policy });
+});
+
+// GET /api/scoring-policy/versions — authority only; every saved version, newest first
+router.get(
+  '/versions',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (_req: Request, res: Response): Promise<void> => {
+    const versions = await getScoringPolicyHistory();
+    res.json({ success: true, data: { versions } });
+  }
+);
+
+// PUT /api/scoring-policy — authority only; saves a new version, applied from the next computation
+router.put(
+  '/',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = updatePolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const policy = await updateScoringPolicy(parsed.data.policy, req.user.sub);
+      res.json({ success: true, data: policy });
+    } catch (err) {
+      if (err instanceof ScoringPolicyError) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
+      if (err instanceof ScoringPolicyConflictError) {
+        res.status(409).json({ success: false, error: err.message });
+        return;
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -1,4 +1,4 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
@@ -7,13 +7,26 @@ import {
   transitionTicket,
   getTickets,
   getTicketById,
+  deleteTicket,
   TicketTransitionError,
+  ChecklistError,
+  IncompleteChecklistError,
+  MissingEvidenceError,
+  RejectionReasonError,
 } from '../services/ticketService';
+import { ticketEvidence } from '../services/evidenceService';
+import { ticketPhotoFlags } from '../services/photoService';
+import { getAssignmentHistory, reassignTicket, ReassignmentError } from '../services/assignmentService';
 import { prisma } from '../lib/prisma';
-import type { TicketStatus, Severity } from '@prisma/client';
+import { REJECTION_REASONS } from '@household/domain';
 
 const router = Router();
 
+const reassignSchema = z.object({
+  assignedUserId: z.string().min(1).nullable(), // null = unassign
+  note: z.string().max(500).optional(),
+});
+
 const createTicketSchema = z.object({
   title: z.string().min(1).max(255),
   description: z.string().min(1),
@@ -23,11 +36,16 @@ const createTicketSchema = z.object({
   isInspection: z.boolean().default(false),
   assignedUserId: z.string().optional(),
   dueAt: z.string().datetime().optional(),
+  checklist: z
+    .array(z.object({ label: z.string(), required: z.boolean().optional(), photoRequired: z.boolean().optional() }))
+    .optional(),
 });
 
 const transitionSchema = z.object({
-  status: z.enum(['open', 'in_progress', 'needs_review', 'closed', 'skipped']),
+  // Any key from the household workflow — validated against it by the state machine
+  status: z.string().min(1).max(40),
   note: z.string().optional(),
+  reason: z.enum(REJECTION_REASONS).optional(), // required when sending work back
 });
 
 // GET /api/tickets
@@ -35,7 +53,7 @@ router.get('/', authenticate, async (req: Request, res: Response): Promise<void>
   const { status, assignedUserId, area } = req.query;
 
   const tickets = await getTickets({
-    status: status as TicketStatus | undefined,
+    status: status as string | undefined,
     assignedUserId: assignedUserId as string | undefined,
     area: area as string | undefined,
     requestorId: req.user.sub,
@@ -57,6 +75,37 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
   res.json({ success: true, data: { ticket } });
 });
 
+// GET /api/tickets/:id/evidence — the evidence policy the ticket is held to and what is still missing
+router.get('/:id/evidence', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const ticket = await getTicketById(req.params.id, req.user.sub, req.user.role);
+
+  if (!ticket) {
+    res.status(404).json({ success: false, error: 'Ticket not found' });
+    return;
+  }
+
+  const evidence = await ticketEvidence(ticket);
+  res.json({ success: true, data: evidence });
+});
+
+// GET /api/tickets/:id/photo-flags — authority only; photos worth a second look before closing
+router.get(
+  '/:id/photo-flags',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response): Promise<void> => {
+    const ticket = await getTicketById(req.params.id, req.user.sub, req.user.role);
+
+    if (!ticket) {
+      res.status(404).json({ success: false, error: 'Ticket not found' });
+      return;
+    }
+
+    const flags = await ticketPhotoFlags(ticket);
+    res.json({ success: true, data: flags });
+  }
+);
+
 // GET /api/tickets/:id/audit — authority only
 router.get(
   '/:id/audit',
@@ -73,6 +122,54 @@ router.get(
   }
 );
 
+// GET /api/tickets/:id/assignments — who has held the ticket, and its handoff requests
+router.get('/:id/assignments', authenticate, async (req: Request, res: Response): Promise<void> => {
+  const history = await getAssignmentHistory(req.params.id, req.user.sub, req.user.role);
+
+  if (!history) {
+    res.status(404).json({ success: false, error: 'Ticket not found' });
+    return;
+  }
+
+  res.json({ success: true, data: history });
+});
+
+// POST /api/tickets/:id/assignments — authority only; give the ticket to someone else
+router.post(
+  '/:id/assignments',
+  authenticate,
+  requireRole('mother', 'father'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = reassignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const ticket = await reassignTicket({
+        ticketId: req.params.id,
+        toUserId: parsed.data.assignedUserId,
+        actorId: req.user.sub,
+        note: parsed.data.note,
+      });
+
+      if (!ticket) {
+        res.status(404).json({ success: false, error: 'Ticket not found' });
+        return;
+      }
+
+      res.json({ success: true, data: { ticket } });
+    } catch (err) {
+      if (err instanceof ReassignmentError) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
+      next(err);
+    }
+  }
+);
+
 // POST /api/tickets
 router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
   const parsed = createTicketSchema.safeParse(req.body);
@@ -91,6 +188,10 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
 
     res.status(201).json({ success: true, data: { ticket } });
   } catch (err) {
+    if (err instanceof ChecklistError) {
+      res.status(422).json({ success: false, error: err.message });
+      return;
+    }
     const message = err instanceof Error ? err.message : 'Failed to create ticket';
     res.status(400).json({ success: false, error: message });
   }
@@ -108,11 +209,7 @@ router.delete(
       res.status(404).json({ success: false, error: 'Ticket not found' });
       return;
     }
-    // Delete dependents first (no cascade on audit log by design)
-    await prisma.ticketPhoto.deleteMany({ where: { ticketId: id } });
-    await prisma.ticketAuditLog.deleteMany({ where: { ticketId: id } });
-    await prisma.recurringInstance.deleteMany({ where: { ticketId: id } });
-    await prisma.ticket.delete({ where: { id } });
+    await deleteTicket(id, req.user.sub);
     res.json({ success: true, data: { message: 'Ticket deleted' } });
   }
 );
@@ -132,14 +229,23 @@ router.patch('/:id/status', authenticate, async (req: Request, res: Response): P
       actorId: req.user.sub,
       actorRole: req.user.role,
       note: parsed.data.note,
+      reason: parsed.data.reason,
     });
 
     res.json({ success: true, data: { ticket } });
   } catch (err) {
-    if (err instanceof TicketTransitionError) {
+    if (err instanceof TicketTransitionError || err instanceof RejectionReasonError) {
       res.status(422).json({ success: false, error: err.message });
       return;
     }
+    if (err instanceof MissingEvidenceError) {
+      res.status(422).json({ success: false, error: err.message, missing: err.missing });
+      return;
+    }
+    if (err instanceof IncompleteChecklistError) {
+      res.status(422).json({ success: false, error: err.message, unchecked: err.unchecked });
+      return;
+    }
     const message = err instanceof Error ? err.message : 'Transition failed';
     res.status(400).json({ success: false, error: message });
   }
@@ -0,0 +1,45 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { getWorkflow, updateWorkflow, WorkflowDefinitionError } from '../services/workflowService';
+
+const router = Router();
+
+// Structure is checked by the domain validator; null resets to the default workflow
+const updateWorkflowSchema = z.object({
+  workflow: z.record(z.unknown()).nullable(),
+});
+
+// GET /api/workflow — the household's states and transitions (everyone needs it to render tickets)
+router.get('/', authenticate, async (_req: Request, res: Response): Promise<void> => {
+  const workflow = await getWorkflow();
+  res.json({ success: true, data: { workflow } });
+});
+
+// PUT /api/workflow — mother only
+router.put(
+  '/',
+  authenticate,
+  requireRole('mother'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const parsed = updateWorkflowSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const workflow = await updateWorkflow(parsed.data.workflow);
+      res.json({ success: true, data: { workflow } });
+    } catch (err) {
+      if (err instanceof WorkflowDefinitionError) {
+        res.status(422).json({ success: false, error: err.message });
+        return;
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
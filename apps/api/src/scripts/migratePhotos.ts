@@ -0,0 +1,24 @@
+// Moves photos stored as data URLs in TicketPhoto.url into the configured storage driver.
+// Run once after switching PHOTO_STORAGE on: pnpm --filter api photos:migrate
+
+import { prisma } from '../lib/prisma';
+import { activeStorageName } from '../lib/photoStore';
+import { forEachHousehold } from '../jobs/households';
+import { migrateDataUrlPhotos } from '../services/photoService';
+
+async function main(): Promise<void> {
+  let moved = 0;
+  await forEachHousehold('photos:migrate', async (householdId) => {
+    const count = await migrateDataUrlPhotos();
+    if (count > 0) console.log(`  ✓ Household ${householdId}: ${count} photo(s) moved`);
+    moved += count;
+  });
+  console.log(`[Photos] Moved ${moved} photo(s) into ${activeStorageName} storage`);
+}
+
+main()
+  .catch((err) => {
+    console.error('[Photos] Migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,156 @@
+import { prisma } from '../lib/prisma';
+import { publishTicketEvent } from '../lib/eventBus';
+import { validateReassignment, validateHandoffRequest, ReassignmentError } from '@household/domain';
+import { getTicketById } from './ticketService';
+import { getWorkflow } from './workflowService';
+import type { Ticket } from '@prisma/client';
+
+export { ReassignmentError };
+
+const userSummary = { select: { id: true, name: true, role: true } } as const;
+
+async function isTerminal(status: string): Promise<boolean> {
+  const workflow = await getWorkflow();
+  return workflow.states.some((s) => s.terminal && s.key === status);
+}
+
+/**
+ * Who a ticket has been assigned to over time, plus every handoff request on it.
+ * Returns null when the ticket does not exist or the requestor may not see it.
+ */
+export async function getAssignmentHistory(ticketId: string, requestorId: string, requestorRole: string) {
+  const ticket = await getTicketById(ticketId, requestorId, requestorRole);
+  if (!ticket) return null;
+
+  const [assignments, handoffRequests] = await Promise.all([
+    prisma.ticketAssignment.findMany({
+      where: { ticketId },
+      include: { fromUser: userSummary, toUser: userSummary, changedBy: userSummary },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.handoffRequest.findMany({
+      where: { ticketId },
+      include: { requestedBy: userSummary, resolvedBy: userSummary },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return { assignments, handoffRequests };
+}
+
+export interface ReassignInput {
+  ticketId: string;
+  toUserId: string | null; // null = unassign
+  actorId: string;
+  note?: string;
+}
+
+/**
+ * Gives a ticket to another employee (or nobody) and records the change.
+ * Any handoff request still waiting on the ticket is answered by this: approved.
+ * Returns null when the ticket does not exist; throws ReassignmentError for invalid moves.
+ */
+export async function reassignTicket(input: ReassignInput): Promise<Ticket | null> {
+  const { ticketId, toUserId, actorId, note } = input;
+
+  const ticket = await prisma.ticket.findUnique({ where: { id: ticketId } });
+  if (!ticket) return null;
+
+  validateReassignment({ assignedUserId: ticket.assignedUserId, isTerminal: await isTerminal(ticket.status) }, toUserId);
+
+  // Tenant-scoped lookup: only employees of this household can take tickets
+  if (toUserId) {
+    const assignee = await prisma.user.findFirst({ where: { id: toUserId, role: 'employee' } });
+    if (!assignee) {
+      throw new ReassignmentError('Tickets can only be assigned to employees of this household');
+    }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.ticketAssignment.create({
+      data: { ticketId, fromUserId: ticket.assignedUserId, toUserId, changedById: actorId, note },
+    });
+    await tx.handoffRequest.updateMany({
+      where: { ticketId, status: 'pending' },
+      data: { status: 'approved', resolvedById: actorId, resolvedAt: new Date() },
+    });
+    return tx.ticket.update({ where: { id: ticketId }, data: { assignedUserId: toUserId } });
+  });
+
+  publishTicketEvent('ticket.reassigned', updated, actorId, { fromUserId: ticket.assignedUserId, note });
+
+  return updated;
+}
+
+/**
+ * An assignee asks for their ticket to go to someone else. An authority approves
+ * (reassigning it) or declines. Returns null when the ticket is not visible to them.
+ */
+export async function requestHandoff(ticketId: string, requesterId: string, requesterRole: string, reason: string) {
+  const ticket = await getTicketById(ticketId, requesterId, requesterRole);
+  if (!ticket) return null;
+
+  const pending = await prisma.handoffRequest.count({ where: { ticketId, status: 'pending' } });
+  const trimmed = validateHandoffRequest(
+    { assignedUserId: ticket.assignedUserId, isTerminal: await isTerminal(ticket.status) },
+    requesterId,
+    reason,
+    pending > 0
+  );
+
+  const request = await prisma.handoffRequest.create({
+    data: { ticketId, requestedById: requesterId, reason: trimmed },
+    include: { requestedBy: userSummary },
+  });
+
+  publishTicketEvent('ticket.handoff_requested', ticket, requesterId, { note: trimmed });
+
+  return request;
+}
+
+/**
+ * Handoff requests waiting for an authority, oldest first.
+ */
+export async function getPendingHandoffs() {
+  return prisma.handoffRequest.findMany({
+    where: { status: 'pending' },
+    include: {
+      requestedBy: userSummary,
+      ticket: { select: { id: true, title: true, area: true, category: true, severity: true, dueAt: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Answers a pending handoff request. Approving reassigns the ticket to `toUserId`
+ * (null leaves it unassigned for now); declining leaves it with the requester.
+ * Returns null when the request does not exist.
+ */
+export async function resolveHandoff(
+  requestId: string,
+  approve: boolean,
+  actorId: string,
+  toUserId: string | null = null
+) {
+  const request = await prisma.handoffRequest.findUnique({ where: { id: requestId } });
+  if (!request) return null;
+  if (request.status !== 'pending') {
+    throw new ReassignmentError(`This handoff request was already ${request.status}`);
+  }
+
+  if (approve) {
+    // Reassigning answers the request too
+    await reassignTicket({ ticketId: request.ticketId, toUserId, actorId, note: `Handoff: ${request.reason}` });
+  } else {
+    await prisma.handoffRequest.update({
+      where: { id: requestId },
+      data: { status: 'declined', resolvedById: actorId, resolvedAt: new Date() },
+    });
+  }
+
+  return prisma.handoffRequest.findUniqueOrThrow({
+    where: { id: requestId },
+    include: { requestedBy: userSummary, resolvedBy: userSummary },
+  });
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { runUnscoped } from '../lib/tenantContext';
+import { formatCalendar, type CalendarEvent } from '../lib/ical';
+import { getWorkflow } from './workflowService';
+import { templateSchedule } from './recurringService';
+import { upcomingOccurrences } from '@household/domain';
+
+// How far ahead recurring templates are projected into the feed
+const PROJECTION_DAYS = 42;
+
+export interface FeedOwner {
+  id: string;
+  name: string;
+  role: 'mother' | 'father' | 'employee';
+  householdId: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function feedPath(token: string): string {
+  return `/calendar/feed/${token}.ics`;
+}
+
+export async function getFeedStatus(userId: string) {
+  const active = await prisma.calendarToken.findFirst({
+    where: { userId, revokedAt: null },
+    select: { createdAt: true, lastUsedAt: true },
+  });
+  return { active: !!active, createdAt: active?.createdAt ?? null, lastUsedAt: active?.lastUsedAt ?? null };
+}
+
+/**
+ * Issues a new feed token for the user, revoking any previous one. The token itself is
+ * returned only here — calendar apps keep the URL, we keep its hash.
+ */
+export async function createFeedToken(userId: string): Promise<{ token: string; path: string }> {
+  const token = crypto.randomBytes(24).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.calendarToken.updateMany({ where: { userId, revokedAt: null }, data: { revokedAt: new Date() } }),
+    prisma.calendarToken.create({ data: { userId, tokenHash: hashToken(token) } }),
+  ]);
+
+  return { token, path: feedPath(token) };
+}
+
+export async function revokeFeedToken(userId: string): Promise<boolean> {
+  const result = await prisma.calendarToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Resolves a feed token to its user. The request carries no session, so the household
+ * is not known yet — the lookup runs unscoped. Null when unknown or revoked.
+ */
+export async function findFeedOwner(token: string): Promise<FeedOwner | null> {
+  return runUnscoped(async () => {
+    const record = await prisma.calendarToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        revokedAt: true,
+        user: { select: { id: true, name: true, role: true, householdId: true } },
+      },
+    });
+    if (!record || record.revokedAt) return null;
+
+    await prisma.calendarToken.update({ where: { id: record.id }, data: { lastUsedAt: new Date() } });
+    return record.user;
+  });
+}
+
+/**
+ * Builds the user's .ics feed: open tickets with a due date, plus upcoming occurrences of
+ * active recurring templates. Employees only get tickets assigned to them and templates
+ * meant for employees. Must run inside the owner's household scope.
+ */
+export async function buildFeed(owner: FeedOwner, now: Date = new Date()): Promise<string> {
+  const isEmployee = owner.role === 'employee';
+  const workflow = await getWorkflow();
+  const terminal = workflow.states.filter((s) => s.terminal).map((s) => s.key);
+
+  const [tickets, templates] = await Promise.all([
+    prisma.ticket.findMany({
+      where: {
+        dueAt: { not: null },
+        status: { notIn: terminal },
+        ...(isEmployee ? { assignedUserId: owner.id } : {}),
+      },
+      include: { assignedUser: { select: { name: true } } },
+      orderBy: { dueAt: 'asc' },
+    }),
+    prisma.recurringTemplate.findMany({
+      where: {
+        isActive: true,
+        ...(isEmployee ? { assignedRoles: { has: 'employee' } } : {}),
+      },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const ticketEvents: CalendarEvent[] = tickets.map((ticket) => ({
+    uid: `ticket-${ticket.id}@household-tickets`,
+    summary: ticket.severity === 'immediate_interrupt' ? `🚨 ${ticket.title}` : ticket.title,
+    description: [
+      ticket.description,
+      `${ticket.area} › ${ticket.category}`,
+      ...(ticket.assignedUser && !isEmployee ? [`Assigned to ${ticket.assignedUser.name}`] : []),
+    ].join('\n'),
+    start: ticket.dueAt!,
+    categories: [ticket.area, ticket.category],
+    url: env.APP_URL,
+  }));
+
+  const occurrenceEvents: CalendarEvent[] = templates.flatMap((template) => {
+    const schedule = templateSchedule(template);
+    if (!schedule) return [];
+
+    return upcomingOccurrences(schedule, now, PROJECTION_DAYS).map((day) => ({
+      uid: `recurring-${template.id}-${day.getFullYear()}-${day.getMonth() + 1}-${day.getDate()}@household-tickets`,
+      summary: `↻ ${template.name}`,
+      description: `${template.description}\n${template.area} › ${template.category}`,
+      start: day,
+      allDay: true,
+      categories: [template.area, template.category],
+    }));
+  });
+
+  return formatCalendar(`Household tasks — ${owner.name}`, [...ticketEvents, ...occurrenceEvents], now);
+}
@@ -1,8 +1,11 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
 import { env } from '../config/env';
-import { transitionTicket } from './ticketService';
-import type { Role, TicketStatus } from '@prisma/client';
+import { transitionTicket, deleteTicket } from './ticketService';
+import { publishTicketEvent } from '../lib/eventBus';
+import { REJECTION_REASONS, type RejectionReason } from '@household/domain';
+import type { Role } from '@prisma/client';
 
 // Tool definitions for Claude
 const TOOLS: Anthropic.Tool[] = [
@@ -63,10 +66,14 @@ const TOOLS: Anthropic.Tool[] = [
         ticketId: { type: 'string', description: 'The ticket ID to update' },
         newStatus: {
           type: 'string',
-          enum: ['in_progress', 'needs_review', 'closed', 'skipped'],
-          description: 'The new status. Employees can only use in_progress or needs_review.',
+          description: 'The new status: a state key from the household workflow (e.g. in_progress, needs_review, closed, skipped). Closing and skipping are authority-only.',
+        },
+        note: { type: 'string', description: 'Optional note about the status change; required when reason is "other"' },
+        reason: {
+          type: 'string',
+          enum: [...REJECTION_REASONS],
+          description: 'Why the work is being sent back. Required when moving a ticket from needs_review to in_progress.',
         },
-        note: { type: 'string', description: 'Optional note about the status change' },
       },
       required: ['ticketId', 'newStatus'],
     },
@@ -141,6 +148,10 @@ async function executeTool(
         if (toolInput.severity === 'immediate_interrupt' && actorRole === 'employee') {
           return `Error: Only mother or father can create immediate_interrupt tickets.`;
         }
+        if (toolInput.assignedUserId) {
+          const assignee = await prisma.user.findUnique({ where: { id: toolInput.assignedUserId as string } });
+          if (!assignee) return `Error: User ${toolInput.assignedUserId} not found.`;
+        }
         const ticket = await prisma.ticket.create({
           data: {
             title: toolInput.title as string,
@@ -151,6 +162,7 @@ async function executeTool(
             isInspection: (toolInput.isInspection as boolean) ?? false,
             assignedUserId: toolInput.assignedUserId as string | undefined,
             createdById: actorId,
+            householdId: requireHouseholdId(),
             status: 'open',
           },
         });
@@ -163,6 +175,7 @@ async function executeTool(
             note: 'Created via chat',
           },
         });
+        publishTicketEvent('ticket.created', ticket, actorId);
         return `Ticket created: "${ticket.title}" (ID: ${ticket.id}, Severity: ${ticket.severity}, Area: ${ticket.area})`;
       }
 
@@ -216,20 +229,16 @@ async function executeTool(
       }
 
       case 'update_ticket_status': {
-        const newStatus = toolInput.newStatus as TicketStatus;
-
-        // Employees can only transition to in_progress or needs_review
-        if (actorRole === 'employee' && !['in_progress', 'needs_review'].includes(newStatus)) {
-          return `Error: Employees can only set status to in_progress or needs_review.`;
-        }
+        const newStatus = toolInput.newStatus as string;
 
-        // Use the service which applies state machine, penalty logic, and audit log
+        // Use the service which applies the workflow's role rules, penalty logic, and audit log
         const ticket = await transitionTicket({
           ticketId: toolInput.ticketId as string,
           toStatus: newStatus,
           actorId,
           actorRole,
           note: (toolInput.note as string) ?? 'Updated via chat',
+          reason: toolInput.reason as RejectionReason | undefined,
         });
 
         return `Ticket "${ticket.title}" updated to ${ticket.status}.`;
@@ -242,10 +251,7 @@ async function executeTool(
         const ticket = await prisma.ticket.findUnique({ where: { id: toolInput.ticketId as string } });
         if (!ticket) return `Error: Ticket ${toolInput.ticketId} not found.`;
 
-        await prisma.ticketPhoto.deleteMany({ where: { ticketId: ticket.id } });
-        await prisma.ticketAuditLog.deleteMany({ where: { ticketId: ticket.id } });
-        await prisma.recurringInstance.deleteMany({ where: { ticketId: ticket.id } });
-        await prisma.ticket.delete({ where: { id: ticket.id } });
+        await deleteTicket(ticket.id, actorId);
 
         return `Ticket "${ticket.title}" has been permanently deleted.`;
       }
@@ -0,0 +1,35 @@
+import { prisma } from '../lib/prisma';
+import { ChecklistError } from '@household/domain';
+import { getTicketById } from './ticketService';
+import { getWorkflow } from './workflowService';
+
+/**
+ * Checks or unchecks one checklist item on a ticket.
+ * Anyone who can see the ticket may tick it — for employees that is only their own tickets.
+ * The list is frozen once the ticket is submitted for review or finished.
+ * Returns null when the ticket or item does not exist or the requestor may not see it.
+ */
+export async function setItemChecked(
+  ticketId: string,
+  itemId: string,
+  checked: boolean,
+  actorId: string,
+  actorRole: string
+) {
+  const ticket = await getTicketById(ticketId, actorId, actorRole);
+  if (!ticket) return null;
+
+  const item = ticket.checklistItems.find((i) => i.id === itemId);
+  if (!item) return null;
+
+  const workflow = await getWorkflow();
+  const terminal = workflow.states.some((s) => s.terminal && s.key === ticket.status);
+  if (terminal || ticket.status === 'needs_review') {
+    throw new ChecklistError('The checklist cannot be changed once the ticket is submitted for review or finished.');
+  }
+
+  return prisma.ticketChecklistItem.update({
+    where: { id: itemId },
+    data: checked ? { checkedAt: new Date(), checkedById: actorId } : { checkedAt: null, checkedById: null },
+  });
+}
@@ -0,0 +1,132 @@
+import { prisma } from '../lib/prisma';
+import { extractMentions } from '@household/domain';
+import { getTicketById } from './ticketService';
+
+export interface AddCommentInput {
+  ticketId: string;
+  body: string;
+  authorId: string;
+  authorRole: string;
+}
+
+const userSelect = { id: true, name: true, role: true } as const;
+
+/**
+ * Users who can see a ticket: every authority plus the assigned employee.
+ * Mentions only resolve against this set so nobody is pinged about a ticket they cannot open.
+ */
+async function getTicketParticipants(assignedUserId: string | null) {
+  return prisma.user.findMany({
+    where: {
+      OR: [
+        { role: { in: ['mother', 'father'] } },
+        ...(assignedUserId ? [{ id: assignedUserId }] : []),
+      ],
+    },
+    select: userSelect,
+  });
+}
+
+/**
+ * Lists the comments on a ticket, oldest first, with mentions and read receipts.
+ * Returns null when the ticket does not exist or the requestor may not see it.
+ */
+export async function getComments(ticketId: string, requestorId: string, requestorRole: string) {
+  const ticket = await getTicketById(ticketId, requestorId, requestorRole);
+  if (!ticket) return null;
+
+  const [comments, reads] = await Promise.all([
+    prisma.ticketComment.findMany({
+      where: { ticketId },
+      include: {
+        author: { select: userSelect },
+        mentions: { include: { user: { select: userSelect } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.ticketCommentRead.findMany({
+      where: { ticketId },
+      include: { user: { select: userSelect } },
+    }),
+  ]);
+
+  const ownRead = reads.find((r) => r.userId === requestorId);
+
+  const withReceipts = comments.map((comment) => ({
+    id: comment.id,
+    ticketId: comment.ticketId,
+    body: comment.body,
+    createdAt: comment.createdAt,
+    author: comment.author,
+    mentions: comment.mentions.map((m) => m.user),
+    // Authors have implicitly read their own comment
+    readBy: reads
+      .filter((r) => r.userId !== comment.authorId && r.lastReadAt >= comment.createdAt)
+      .map((r) => r.user),
+  }));
+
+  const unreadCount = comments.filter(
+    (c) => c.authorId !== requestorId && (!ownRead || c.createdAt > ownRead.lastReadAt)
+  ).length;
+
+  return { comments: withReceipts, unreadCount };
+}
+
+/**
+ * Adds a comment to a ticket. @name mentions are resolved to users who can see the ticket.
+ * Returns null when the ticket does not exist or the author may not see it.
+ */
+export async function addComment(input: AddCommentInput) {
+  const { ticketId, body, authorId, authorRole } = input;
+
+  const ticket = await getTicketById(ticketId, authorId, authorRole);
+  if (!ticket) return null;
+
+  const participants = await getTicketParticipants(ticket.assignedUserId);
+  const mentioned = extractMentions(body, participants);
+
+  const comment = await prisma.ticketComment.create({
+    data: {
+      ticketId,
+      authorId,
+      body,
+      mentions: {
+        create: mentioned.map((u) => ({ userId: u.id })),
+      },
+    },
+    include: {
+      author: { select: userSelect },
+      mentions: { include: { user: { select: userSelect } } },
+    },
+  });
+
+  // Posting a comment means the author has caught up on the thread
+  await markCommentsRead(ticketId, authorId, comment.createdAt);
+
+  return {
+    id: comment.id,
+    ticketId: comment.ticketId,
+    body: comment.body,
+    createdAt: comment.createdAt,
+    author: comment.author,
+    mentions: comment.mentions.map((m) => m.user),
+    readBy: [],
+  };
+}
+
+/**
+ * Moves the user's read watermark for a ticket forward. Never moves it backwards.
+ */
+export async function markCommentsRead(ticketId: string, userId: string, readAt: Date = new Date()) {
+  const existing = await prisma.ticketCommentRead.findUnique({
+    where: { ticketId_userId: { ticketId, userId } },
+  });
+
+  if (existing && existing.lastReadAt >= readAt) return existing;
+
+  return prisma.ticketCommentRead.upsert({
+    where: { ticketId_userId: { ticketId, userId } },
+    update: { lastReadAt: readAt },
+    create: { ticketId, userId, lastReadAt: readAt },
+  });
+}
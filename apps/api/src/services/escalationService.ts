@@ -0,0 +1,181 @@
+import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
+import { publishTicketEvent, SYSTEM_ACTOR_ID } from '../lib/eventBus';
+import { getWorkflow } from './workflowService';
+import { selectEscalations, validateEscalationRule, EscalationRuleError } from '@household/domain';
+import { Prisma } from '@prisma/client';
+import type { EscalationRule, EscalationAction, Severity, Ticket } from '@prisma/client';
+
+export { EscalationRuleError };
+
+export interface EscalationRuleInput {
+  severity: Severity;
+  overdueHours: number;
+  action: EscalationAction;
+  toSeverity?: Severity | null;
+}
+
+export async function getEscalationRules() {
+  return prisma.escalationRule.findMany({
+    orderBy: [{ severity: 'asc' }, { overdueHours: 'asc' }],
+  });
+}
+
+export async function createEscalationRule(input: EscalationRuleInput) {
+  validateEscalationRule(input);
+
+  return prisma.escalationRule.create({
+    data: {
+      severity: input.severity,
+      overdueHours: input.overdueHours,
+      action: input.action,
+      toSeverity: input.toSeverity ?? null,
+      householdId: requireHouseholdId(),
+    },
+  });
+}
+
+/**
+ * Applies a partial update, validating the rule as it will look afterwards.
+ * Returns null when the rule does not exist in this household.
+ */
+export async function updateEscalationRule(id: string, input: Partial<EscalationRuleInput>) {
+  const existing = await prisma.escalationRule.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const merged: EscalationRuleInput = {
+    severity: input.severity ?? existing.severity,
+    overdueHours: input.overdueHours ?? existing.overdueHours,
+    action: input.action ?? existing.action,
+    toSeverity: input.toSeverity !== undefined ? input.toSeverity : existing.toSeverity,
+  };
+  validateEscalationRule(merged);
+
+  return prisma.escalationRule.update({
+    where: { id },
+    data: { ...merged, toSeverity: merged.toSeverity ?? null },
+  });
+}
+
+/**
+ * Deletes a rule and its per-ticket firing records. The audit log keeps the history.
+ * Returns false when the rule does not exist in this household.
+ */
+export async function deleteEscalationRule(id: string): Promise<boolean> {
+  const existing = await prisma.escalationRule.findUnique({ where: { id } });
+  if (!existing) return false;
+
+  await prisma.escalationRule.delete({ where: { id } });
+  return true;
+}
+
+/**
+ * Escalates overdue tickets in the current household according to its rules.
+ * Overdue = dueAt has passed and the ticket is not in a terminal workflow state.
+ * Each rule fires at most once per ticket. Returns the number of escalations applied.
+ */
+export async function runEscalations(now: Date = new Date()): Promise<number> {
+  const rules = await prisma.escalationRule.findMany();
+  if (rules.length === 0) return 0;
+
+  const workflow = await getWorkflow();
+  const terminal = workflow.states.filter((s) => s.terminal).map((s) => s.key);
+
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      dueAt: { lt: now },
+      status: { notIn: terminal },
+    },
+    include: {
+      escalations: { select: { ruleId: true, action: true, createdAt: true } },
+    },
+  });
+
+  let applied = 0;
+
+  for (const ticket of tickets) {
+    const raises = ticket.escalations.filter((e) => e.action === 'raise_severity');
+    const lastSeverityChangeAt = raises.length
+      ? new Date(Math.max(...raises.map((e) => e.createdAt.getTime())))
+      : null;
+
+    const firing = selectEscalations(
+      {
+        id: ticket.id,
+        severity: ticket.severity,
+        dueAt: ticket.dueAt!,
+        lastSeverityChangeAt,
+        appliedRuleIds: ticket.escalations.map((e) => e.ruleId),
+      },
+      rules,
+      now
+    );
+
+    let current: Ticket = ticket;
+    for (const rule of firing) {
+      const updated = await applyEscalation(current, rule);
+      // Another run got there first and is applying the same rules to this ticket
+      if (!updated) break;
+      current = updated;
+      applied++;
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Records one rule firing on a ticket: the escalation, the severity raise and the audit row
+ * are written together. Returns null when a concurrent run already applied the rule; the
+ * (ticketId, ruleId) unique key makes that run's write the only one.
+ */
+async function applyEscalation(ticket: Ticket, rule: EscalationRule): Promise<Ticket | null> {
+  const raise = rule.action === 'raise_severity' ? rule.toSeverity : null;
+
+  let updated: Ticket;
+  try {
+    updated = await prisma.$transaction(async (tx) => {
+      await tx.ticketEscalation.create({
+        data: {
+          ticketId: ticket.id,
+          ruleId: rule.id,
+          action: rule.action,
+          fromSeverity: ticket.severity,
+          toSeverity: raise,
+        },
+      });
+
+      const raised = raise
+        ? await tx.ticket.update({ where: { id: ticket.id }, data: { severity: raise } })
+        : ticket;
+
+      await tx.ticketAuditLog.create({
+        data: {
+          ticketId: ticket.id,
+          changedById: null, // system actor
+          fromStatus: ticket.status,
+          toStatus: ticket.status,
+          note: raise
+            ? `Escalated: ${ticket.severity} → ${raise} (overdue ${rule.overdueHours}h)`
+            : `Escalated: authorities notified (${ticket.severity} overdue ${rule.overdueHours}h)`,
+        },
+      });
+
+      return raised;
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
+  }
+
+  publishTicketEvent('ticket.escalated', updated, SYSTEM_ACTOR_ID, {
+    escalation: {
+      action: rule.action,
+      fromSeverity: ticket.severity,
+      toSeverity: raise,
+      overdueHours: rule.overdueHours,
+    },
+  });
+
+  return updated;
+}
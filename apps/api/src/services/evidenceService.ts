@@ -0,0 +1,113 @@
+import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
+import { resolveEvidencePolicy, missingEvidence, validateEvidencePolicy, EvidencePolicyError } from '@household/domain';
+import type { EvidencePolicy as Policy, EvidencePolicyRule, PhotoRequirement } from '@household/domain';
+import type { Prisma, Severity, Ticket, TicketPhoto, TicketChecklistItem } from '@prisma/client';
+
+export { EvidencePolicyError };
+
+export interface EvidencePolicyInput {
+  area?: string | null;
+  category?: string | null;
+  severity?: Severity | null;
+  photos: PhotoRequirement[];
+}
+
+type TicketWithEvidence = Ticket & {
+  photos: Array<Pick<TicketPhoto, 'photoType' | 'checklistItemId'>>;
+  checklistItems: TicketChecklistItem[];
+};
+
+// JSON columns were validated on write; this only guards against rows written by hand
+function storedPolicy(value: Prisma.JsonValue | null): Policy | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const photos = (value as { photos?: unknown }).photos;
+  return Array.isArray(photos) ? { photos: photos as PhotoRequirement[] } : null;
+}
+
+export async function getEvidencePolicies(): Promise<EvidencePolicyRule[]> {
+  const rows = await prisma.evidencePolicy.findMany({ orderBy: { createdAt: 'asc' } });
+  return rows.map((r) => ({
+    id: r.id,
+    area: r.area,
+    category: r.category,
+    severity: r.severity,
+    photos: Array.isArray(r.photos) ? (r.photos as unknown as PhotoRequirement[]) : [],
+  }));
+}
+
+export async function createEvidencePolicy(input: EvidencePolicyInput) {
+  validateEvidencePolicy(input);
+
+  return prisma.evidencePolicy.create({
+    data: {
+      area: input.area ?? null,
+      category: input.category ?? null,
+      severity: input.severity ?? null,
+      photos: input.photos as unknown as Prisma.InputJsonValue,
+      householdId: requireHouseholdId(),
+    },
+  });
+}
+
+/**
+ * Applies a partial update, validating the policy as it will look afterwards.
+ * Returns null when the policy does not exist in this household.
+ */
+export async function updateEvidencePolicy(id: string, input: Partial<EvidencePolicyInput>) {
+  const existing = await prisma.evidencePolicy.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  if (input.photos) validateEvidencePolicy({ photos: input.photos });
+
+  return prisma.evidencePolicy.update({
+    where: { id },
+    data: {
+      area: input.area,
+      category: input.category,
+      severity: input.severity,
+      photos: input.photos as unknown as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+/**
+ * Returns false when the policy does not exist in this household.
+ */
+export async function deleteEvidencePolicy(id: string): Promise<boolean> {
+  const existing = await prisma.evidencePolicy.findUnique({ where: { id } });
+  if (!existing) return false;
+
+  await prisma.evidencePolicy.delete({ where: { id } });
+  return true;
+}
+
+/**
+ * The policy a ticket is held to and what it still lacks before it can go to needs_review.
+ */
+export async function ticketEvidence(ticket: TicketWithEvidence): Promise<{ policy: Policy; missing: string[] }> {
+  const [rules, template] = await Promise.all([
+    getEvidencePolicies(),
+    ticket.recurringTemplateId
+      ? prisma.recurringTemplate.findUnique({
+          where: { id: ticket.recurringTemplateId },
+          select: { evidencePolicy: true },
+        })
+      : null,
+  ]);
+
+  const policy = resolveEvidencePolicy(ticket, rules, storedPolicy(template?.evidencePolicy ?? null));
+  const missing = missingEvidence(
+    policy,
+    ticket.photos,
+    ticket.checklistItems.map((i) => ({
+      id: i.id,
+      label: i.label,
+      required: i.required,
+      checked: !!i.checkedAt,
+      photoRequired: i.photoRequired,
+    }))
+  );
+
+  return { policy, missing };
+}
@@ -0,0 +1,162 @@
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { sendMail } from '../lib/mailer';
+import { runWithHousehold, requireHouseholdId } from '../lib/tenantContext';
+import { subscribeTicketEvents, type TicketEvent } from '../lib/eventBus';
+import { buildWeeklyReport } from './reportService';
+import {
+  ticketAssignedEmail,
+  ticketRejectedEmail,
+  immediateInterruptEmail,
+  escalationEmail,
+  dailyDigestEmail,
+  type EmailContent,
+  type NotificationKind,
+} from './notificationTemplates';
+
+export type NotificationPreferences = Record<NotificationKind | 'emailEnabled', boolean>;
+
+// Everything is on until the user says otherwise
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  emailEnabled: true,
+  ticketAssigned: true,
+  ticketRejected: true,
+  immediateInterrupt: true,
+  escalations: true,
+  dailyDigest: true,
+};
+
+const preferenceSelect = {
+  emailEnabled: true,
+  ticketAssigned: true,
+  ticketRejected: true,
+  immediateInterrupt: true,
+  escalations: true,
+  dailyDigest: true,
+} as const;
+
+export async function getPreferences(userId: string): Promise<NotificationPreferences> {
+  const stored = await prisma.notificationPreference.findUnique({
+    where: { userId },
+    select: preferenceSelect,
+  });
+  return stored ?? DEFAULT_PREFERENCES;
+}
+
+export async function updatePreferences(
+  userId: string,
+  input: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  return prisma.notificationPreference.upsert({
+    where: { userId },
+    update: input,
+    create: { ...DEFAULT_PREFERENCES, ...input, userId },
+    select: preferenceSelect,
+  });
+}
+
+/**
+ * Emails the given users, skipping anyone who turned off email or this kind of notification.
+ * Returns how many emails were sent.
+ */
+async function notifyUsers(kind: NotificationKind, userIds: string[], content: EmailContent): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, email: true, notificationPreference: { select: preferenceSelect } },
+  });
+
+  let sent = 0;
+  for (const user of users) {
+    const prefs = user.notificationPreference ?? DEFAULT_PREFERENCES;
+    if (!prefs.emailEnabled || !prefs[kind]) continue;
+    if (await sendMail({ to: user.email, ...content })) sent++;
+  }
+  return sent;
+}
+
+async function authorityIds(excludeId?: string): Promise<string[]> {
+  const authorities = await prisma.user.findMany({
+    where: { role: { in: ['mother', 'father'] } },
+    select: { id: true },
+  });
+  return authorities.map((a) => a.id).filter((id) => id !== excludeId);
+}
+
+/**
+ * Decides who hears about a ticket event and sends the matching email.
+ * Must run inside the event's household scope.
+ */
+export async function handleTicketEvent(event: TicketEvent): Promise<void> {
+  const { ticket, actorId } = event;
+  const appUrl = env.APP_URL;
+  const assignee = ticket.assignedUserId && ticket.assignedUserId !== actorId ? ticket.assignedUserId : null;
+
+  switch (event.type) {
+    case 'ticket.created': {
+      if (ticket.severity === 'immediate_interrupt') {
+        // The urgent email replaces the plain assignment email
+        const recipients = [...(assignee ? [assignee] : []), ...(await authorityIds(actorId))];
+        await notifyUsers('immediateInterrupt', recipients, immediateInterruptEmail(ticket, appUrl));
+      } else if (assignee) {
+        await notifyUsers('ticketAssigned', [assignee], ticketAssignedEmail(ticket, appUrl));
+      }
+      break;
+    }
+
+    case 'ticket.transitioned': {
+      const isRejection = event.fromStatus === 'needs_review' && ticket.status === 'in_progress';
+      if (isRejection && assignee) {
+        await notifyUsers('ticketRejected', [assignee], ticketRejectedEmail(ticket, event.note, appUrl, event.reason));
+      }
+      break;
+    }
+
+    case 'ticket.reassigned': {
+      if (assignee) {
+        await notifyUsers('ticketAssigned', [assignee], ticketAssignedEmail(ticket, appUrl));
+      }
+      break;
+    }
+
+    case 'ticket.escalated': {
+      if (event.escalation?.action === 'notify_authorities') {
+        await notifyUsers('escalations', await authorityIds(), escalationEmail(ticket, event.escalation.overdueHours, appUrl));
+      }
+      break;
+    }
+
+    default:
+      break;
+  }
+}
+
+/**
+ * Subscribes the email notifier to the ticket event bus. Returns an unsubscribe function.
+ * Each event is handled in its own household scope; failures are logged, never thrown.
+ */
+export function startNotificationListener(): () => void {
+  return subscribeTicketEvents((event) => {
+    runWithHousehold(event.ticket.householdId, () => handleTicketEvent(event)).catch((err) => {
+      console.error(`[Notifications] Failed to handle ${event.type} for ticket ${event.ticket.id}:`, err);
+    });
+  });
+}
+
+/**
+ * Emails the current household's authorities a digest built from the weekly report.
+ * Returns how many digests were sent.
+ */
+export async function sendDailyDigests(now: Date = new Date()): Promise<number> {
+  const recipients = await authorityIds();
+  if (recipients.length === 0) return 0;
+
+  const [report, household] = await Promise.all([
+    buildWeeklyReport(0, now),
+    prisma.household.findUniqueOrThrow({ where: { id: requireHouseholdId() }, select: { name: true } }),
+  ]);
+
+  const content = dailyDigestEmail({ ...report, householdName: household.name }, now, env.APP_URL);
+  return notifyUsers('dailyDigest', recipients, content);
+}
@@ -0,0 +1,138 @@
+// Plain-text email bodies for each notification kind.
+// Pure — no DB or env access, so the wording is unit-tested directly.
+
+export type NotificationKind =
+  | 'ticketAssigned'
+  | 'ticketRejected'
+  | 'immediateInterrupt'
+  | 'escalations'
+  | 'dailyDigest';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+}
+
+export interface TicketSummary {
+  title: string;
+  area: string;
+  category: string;
+  severity: string;
+  description?: string;
+}
+
+export interface DigestInput {
+  householdName: string;
+  summary: { open: number; inProgress: number; closed: number; skipped: number; reopened: number };
+  employeeStats: Array<{ user: { name: string }; closed: number; open: number; rejected: number; scoreImpact: number }>;
+  trends: {
+    overdueCount: number;
+    hotSpots: Array<{ area: string; issueScore: number }>;
+    noCompletions: string[];
+  };
+}
+
+const SEVERITY_LABEL: Record<string, string> = {
+  minor: 'Minor',
+  needs_fix_today: 'Fix Today',
+  immediate_interrupt: 'URGENT',
+};
+
+const REJECTION_REASON_LABEL: Record<string, string> = {
+  incomplete: 'Not finished',
+  poor_quality: 'Not up to standard',
+  wrong_area: 'Wrong area',
+  missing_evidence: 'Photos missing or unclear',
+  damage: 'Something was damaged',
+  other: 'Other',
+};
+
+function ticketLines(ticket: TicketSummary): string[] {
+  return [
+    `  ${ticket.title}`,
+    `  ${ticket.area} › ${ticket.category} · ${SEVERITY_LABEL[ticket.severity] ?? ticket.severity}`,
+  ];
+}
+
+function footer(appUrl: string): string[] {
+  return ['', `Open the app: ${appUrl}`, 'You can change which emails you get under Notification settings.'];
+}
+
+export function ticketAssignedEmail(ticket: TicketSummary, appUrl: string): EmailContent {
+  return {
+    subject: `New task: ${ticket.title}`,
+    text: ['You have been assigned a task:', '', ...ticketLines(ticket), ...footer(appUrl)].join('\n'),
+  };
+}
+
+export function ticketRejectedEmail(
+  ticket: TicketSummary,
+  note: string | undefined,
+  appUrl: string,
+  reason?: string
+): EmailContent {
+  const reasonLabel = reason ? REJECTION_REASON_LABEL[reason] ?? reason : undefined;
+  return {
+    subject: `Sent back: ${ticket.title}`,
+    text: [
+      'Your submission was sent back for more work:',
+      '',
+      ...ticketLines(ticket),
+      ...(reasonLabel ? ['', `Reason: ${reasonLabel}`] : []),
+      ...(note ? [reasonLabel ? `Note: ${note}` : `Reason: ${note}`] : []),
+      ...footer(appUrl),
+    ].join('\n'),
+  };
+}
+
+export function immediateInterruptEmail(ticket: TicketSummary, appUrl: string): EmailContent {
+  return {
+    subject: `URGENT: ${ticket.title}`,
+    text: [
+      'An urgent task needs attention right now:',
+      '',
+      ...ticketLines(ticket),
+      ...(ticket.description ? ['', ticket.description] : []),
+      ...footer(appUrl),
+    ].join('\n'),
+  };
+}
+
+export function escalationEmail(ticket: TicketSummary, overdueHours: number, appUrl: string): EmailContent {
+  return {
+    subject: `Overdue: ${ticket.title}`,
+    text: [
+      `This task is more than ${overdueHours}h overdue:`,
+      '',
+      ...ticketLines(ticket),
+      ...footer(appUrl),
+    ].join('\n'),
+  };
+}
+
+export function dailyDigestEmail(report: DigestInput, date: Date, appUrl: string): EmailContent {
+  const { summary, trends } = report;
+  const day = date.toISOString().slice(0, 10);
+
+  const team = report.employeeStats.map((s) => {
+    const impact = s.scoreImpact > 0 ? `+${s.scoreImpact}` : `${s.scoreImpact}`;
+    return `  ${s.user.name}: ${s.closed} done, ${s.open} open, ${s.rejected} sent back (${impact} pts)`;
+  });
+
+  return {
+    subject: `${report.householdName} — daily digest ${day}`,
+    text: [
+      'This week so far:',
+      `  Open ${summary.open} · In progress ${summary.inProgress} · Closed ${summary.closed} · Skipped ${summary.skipped} · Sent back ${summary.reopened}`,
+      `  Overdue right now: ${trends.overdueCount}`,
+      '',
+      'Team:',
+      ...(team.length > 0 ? team : ['  No employees']),
+      ...(trends.hotSpots.length > 0
+        ? ['', 'Hot spots:', ...trends.hotSpots.map((h) => `  ${h.area} (${h.issueScore} issues)`)]
+        : []),
+      ...(trends.noCompletions.length > 0 ? ['', `No completions yet: ${trends.noCompletions.join(', ')}`] : []),
+      ...footer(appUrl),
+    ].join('\n'),
+  };
+}
@@ -1,25 +1,20 @@
-import { v2 as cloudinary } from 'cloudinary';
-import { env } from '../config/env';
+import { randomUUID } from 'crypto';
 import { prisma } from '../lib/prisma';
-import type { PhotoType } from '@prisma/client';
-
-const cloudinaryConfigured =
-  env.CLOUDINARY_CLOUD_NAME !== '' &&
-  env.CLOUDINARY_API_KEY !== '' &&
-  env.CLOUDINARY_API_SECRET !== '';
-
-if (cloudinaryConfigured) {
-  cloudinary.config({
-    cloud_name: env.CLOUDINARY_CLOUD_NAME,
-    api_key: env.CLOUDINARY_API_KEY,
-    api_secret: env.CLOUDINARY_API_SECRET,
-  });
-}
+import { publishTicketEvent } from '../lib/eventBus';
+import { activeStorage, storageFor } from '../lib/photoStore';
+import type { PhotoStorageName } from '../lib/photoStorage';
+import { processImage, ImageProcessingError, type PhotoSize } from '../lib/imageProcessing';
+import { photoIntegrityFlags, type PhotoFlag } from '@household/domain';
+import type { PhotoType, Prisma } from '@prisma/client';
+
+export { ImageProcessingError };
+export type { PhotoSize, PhotoFlag };
 
 export interface UploadPhotoInput {
   ticketId: string;
   uploaderId: string;
   photoType: PhotoType;
+  checklistItemId?: string; // attaches the photo to one checklist step
   fileBuffer: Buffer;
   mimeType: string;
   originalName: string;
@@ -29,58 +24,273 @@ export interface PhotoRecord {
   id: string;
   ticketId: string;
   uploaderId: string;
-  url: string;
-  s3Key: string;
   photoType: PhotoType;
+  checklistItemId: string | null;
+  width: number | null;
+  height: number | null;
+  capturedAt: Date | null;
   createdAt: Date;
+  url: string;
+  mediumUrl: string;
+  thumbUrl: string;
+}
+
+export interface PhotoContent {
+  body: Buffer;
+  mimeType: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+};
+
+// What API responses include about a photo — never its storage keys
+export const photoSelect = {
+  id: true,
+  ticketId: true,
+  uploaderId: true,
+  photoType: true,
+  checklistItemId: true,
+  width: true,
+  height: true,
+  capturedAt: true,
+  createdAt: true,
+} satisfies Prisma.TicketPhotoSelect;
+
+// Photos are always served by the API so ticket visibility applies to them too
+export function photoPath(photoId: string, size: PhotoSize = 'original'): string {
+  return size === 'original' ? `/api/photos/${photoId}` : `/api/photos/${photoId}?size=${size}`;
 }
 
 /**
- * Uploads a photo. Uses Cloudinary when configured; otherwise stores
- * the image as a base64 data URL directly in the database.
+ * Adds the full, medium and thumbnail URLs. Lists should show thumbUrl and load the rest on demand.
+ */
+export function withPhotoUrls<P extends { id: string }>(
+  photo: P
+): P & { url: string; mediumUrl: string; thumbUrl: string } {
+  return {
+    ...photo,
+    url: photoPath(photo.id),
+    mediumUrl: photoPath(photo.id, 'medium'),
+    thumbUrl: photoPath(photo.id, 'thumb'),
+  };
+}
+
+// Photos from before content types were recorded; the upload filter only allowed these four
+function sniffImageType(body: Buffer): string {
+  if (body[0] === 0xff && body[1] === 0xd8) return 'image/jpeg';
+  if (body.subarray(0, 4).toString('hex') === '89504e47') return 'image/png';
+  if (body.subarray(0, 3).toString('ascii') === 'GIF') return 'image/gif';
+  if (body.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+  return 'application/octet-stream';
+}
+
+function parseDataUrl(url: string): PhotoContent | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { mimeType: match[1], body: Buffer.from(match[2], 'base64') } : null;
+}
+
+function storageKey(ticketId: string, mimeType?: string): string {
+  return `tickets/${ticketId}/${randomUUID()}${(mimeType && EXTENSIONS[mimeType]) ?? ''}`;
+}
+
+/**
+ * Normalizes an image and writes its variants with the configured driver.
+ * Returns the TicketPhoto columns that describe where they went.
+ */
+async function storeImage(ticketId: string, input: Buffer) {
+  const image = await processImage(input);
+  const storage = activeStorage();
+  const base = storageKey(ticketId);
+
+  const keys = { s3Key: `${base}.jpg`, mediumKey: `${base}-medium.jpg`, thumbKey: `${base}-thumb.jpg` };
+  await storage.put(keys.s3Key, image.original.body, image.mimeType);
+  await storage.put(keys.mediumKey, image.medium.body, image.mimeType);
+  await storage.put(keys.thumbKey, image.thumb.body, image.mimeType);
+
+  return {
+    ...keys,
+    storage: storage.name,
+    mimeType: image.mimeType,
+    width: image.original.width,
+    height: image.original.height,
+    capturedAt: image.capturedAt,
+    phash: image.phash,
+  };
+}
+
+/**
+ * Normalizes a photo (orientation, no EXIF/GPS, recompressed, resized variants), stores it with
+ * the configured driver and records it against the ticket. Throws ImageProcessingError for files
+ * that are not readable images.
  */
 export async function uploadPhoto(input: UploadPhotoInput): Promise<PhotoRecord> {
-  const { ticketId, uploaderId, photoType, fileBuffer, mimeType } = input;
+  const { ticketId, uploaderId, photoType, checklistItemId, fileBuffer } = input;
 
   const ticket = await prisma.ticket.findUnique({ where: { id: ticketId } });
   if (!ticket) {
     throw new Error(`Ticket ${ticketId} not found`);
   }
 
-  let url: string;
-  let s3Key: string;
-
-  if (cloudinaryConfigured) {
-    const result = await new Promise<{ secure_url: string; public_id: string }>((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
-        { folder: `tickets/${ticketId}/${photoType}`, resource_type: 'image' },
-        (error, result) => {
-          if (error || !result) return reject(error ?? new Error('Upload failed'));
-          resolve({ secure_url: result.secure_url, public_id: result.public_id });
-        }
-      ).end(fileBuffer);
-    });
-    url = result.secure_url;
-    s3Key = result.public_id;
-  } else {
-    // Fallback: store as base64 data URL
-    const b64 = fileBuffer.toString('base64');
-    url = `data:${mimeType};base64,${b64}`;
-    s3Key = '';
+  if (checklistItemId) {
+    const item = await prisma.ticketChecklistItem.findFirst({ where: { id: checklistItemId, ticketId } });
+    if (!item) {
+      throw new Error(`Checklist item ${checklistItemId} is not on ticket ${ticketId}`);
+    }
   }
 
-  const photo = await prisma.ticketPhoto.create({
-    data: { ticketId, uploaderId, url, s3Key, photoType },
+  const stored = await storeImage(ticketId, fileBuffer);
+
+  const created = await prisma.ticketPhoto.create({
+    data: { ticketId, uploaderId, url: '', ...stored, photoType, checklistItemId },
+  });
+  const photo = await prisma.ticketPhoto.update({
+    where: { id: created.id },
+    data: { url: photoPath(created.id) },
+    select: photoSelect,
+  });
+
+  publishTicketEvent('photo.uploaded', ticket, uploaderId, { photoId: photo.id });
+
+  return withPhotoUrls(photo);
+}
+
+/**
+ * Loads a photo's bytes for someone allowed to see its ticket — employees only their own tickets.
+ * Photos from before variants existed are served at their stored size whatever size is asked for.
+ * Returns null when the photo does not exist, is not visible to the requestor, or its bytes are gone.
+ */
+export async function readPhoto(
+  photoId: string,
+  size: PhotoSize,
+  requestorId: string,
+  requestorRole: string
+): Promise<PhotoContent | null> {
+  const photo = await prisma.ticketPhoto.findUnique({
+    where: { id: photoId },
+    include: { ticket: { select: { assignedUserId: true } } },
   });
+  if (!photo) return null;
+
+  if (requestorRole === 'employee' && photo.ticket.assignedUserId !== requestorId) {
+    return null;
+  }
+
+  // Not moved out of the database yet
+  if (!photo.storage) return parseDataUrl(photo.url);
 
-  return photo;
+  const key = (size === 'thumb' && photo.thumbKey) || (size === 'medium' && photo.mediumKey) || photo.s3Key;
+  const body = await storageFor(photo.storage).get(key);
+  if (!body) return null;
+  return { body, mimeType: photo.mimeType ?? sniffImageType(body) };
 }
 
 /**
- * Returns the URL for a photo. For Cloudinary-hosted photos, reconstructs
- * the URL from the public_id; for base64 photos, returns the stored data URL.
+ * Integrity flags for a ticket's photos: shot before the ticket was created, or a near-copy of
+ * a photo already uploaded on another ticket in the same area and category. Photos from before
+ * capture times and hashes were recorded are never flagged.
  */
-export async function getPhotoSignedUrl(publicId: string): Promise<string> {
-  if (!publicId || !cloudinaryConfigured) return publicId;
-  return cloudinary.url(publicId, { secure: true });
+export async function ticketPhotoFlags(ticket: {
+  id: string;
+  area: string;
+  category: string;
+  createdAt: Date;
+}): Promise<PhotoFlag[]> {
+  const integritySelect = { id: true, ticketId: true, capturedAt: true, phash: true, createdAt: true } as const;
+
+  const photos = await prisma.ticketPhoto.findMany({ where: { ticketId: ticket.id }, select: integritySelect });
+  const hashed = photos.filter((p) => p.phash);
+  const others = hashed.length
+    ? await prisma.ticketPhoto.findMany({
+        where: {
+          ticketId: { not: ticket.id },
+          phash: { not: null },
+          createdAt: { lt: new Date(Math.max(...hashed.map((p) => p.createdAt.getTime()))) },
+          ticket: { area: ticket.area, category: ticket.category },
+        },
+        select: integritySelect,
+      })
+    : [];
+
+  return photoIntegrityFlags(ticket, photos, others);
+}
+
+export interface StoredPhoto {
+  id: string;
+  storage: PhotoStorageName | null;
+  s3Key: string;
+  mediumKey: string | null;
+  thumbKey: string | null;
+}
+
+// The columns removeStoredPhotos needs
+export const storedPhotoSelect = { id: true, storage: true, s3Key: true, mediumKey: true, thumbKey: true } as const;
+
+/**
+ * Removes photos' bytes, every variant, from the driver that stored them. Call it once their
+ * rows are gone for good. A failure is logged and the rest are still removed: the rows are
+ * already deleted, so nothing would ever retry it.
+ */
+export async function removeStoredPhotos(photos: StoredPhoto[]): Promise<void> {
+  for (const photo of photos) {
+    // Data URL photos live in the row itself
+    if (!photo.storage) continue;
+    for (const key of [photo.s3Key, photo.mediumKey, photo.thumbKey]) {
+      if (!key) continue;
+      try {
+        await storageFor(photo.storage).remove(key);
+      } catch (err) {
+        console.error(`[Photos] Could not remove ${key} of photo ${photo.id} from ${photo.storage}:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Moves photos still stored as data URLs into the configured storage driver, a batch at a time
+ * so memory stays flat, processing them like new uploads. Images that cannot be processed are
+ * moved as they are. Safe to re-run: moved rows no longer match. Returns how many were moved.
+ */
+export async function migrateDataUrlPhotos(batchSize = 20): Promise<number> {
+  const storage = activeStorage();
+  let moved = 0;
+  let after = '';
+
+  for (;;) {
+    const batch = await prisma.ticketPhoto.findMany({
+      where: { storage: null, url: { startsWith: 'data:' }, id: { gt: after } },
+      select: { id: true, ticketId: true, url: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+    if (batch.length === 0) return moved;
+    after = batch[batch.length - 1].id;
+
+    for (const photo of batch) {
+      const content = parseDataUrl(photo.url);
+      if (!content) {
+        console.error(`[Photos] ${photo.id} has an unreadable data URL; leaving it in place`);
+        continue;
+      }
+
+      let stored;
+      try {
+        stored = await storeImage(photo.ticketId, content.body);
+      } catch (err) {
+        if (!(err instanceof ImageProcessingError)) throw err;
+        const key = storageKey(photo.ticketId, content.mimeType);
+        await storage.put(key, content.body, content.mimeType);
+        stored = { s3Key: key, storage: storage.name, mimeType: content.mimeType };
+      }
+
+      await prisma.ticketPhoto.update({
+        where: { id: photo.id },
+        data: { url: photoPath(photo.id), ...stored },
+      });
+      moved++;
+    }
+  }
 }
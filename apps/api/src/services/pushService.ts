@@ -0,0 +1,105 @@
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { runUnscoped, runWithHousehold } from '../lib/tenantContext';
+import { subscribeTicketEvents, type TicketEvent } from '../lib/eventBus';
+import { sendPush, type PushPayload, type VapidConfig } from '../lib/webPush';
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+function vapidConfig(): VapidConfig | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+  return { publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT };
+}
+
+/**
+ * Public key browsers need to subscribe. Null when push is not configured on this server.
+ */
+export function getVapidPublicKey(): string | null {
+  return vapidConfig()?.publicKey ?? null;
+}
+
+/**
+ * Stores a browser subscription for the user. An endpoint belongs to one browser profile,
+ * so whoever subscribed last on that device owns it.
+ */
+export async function saveSubscription(userId: string, input: PushSubscriptionInput, userAgent?: string) {
+  // The previous owner may be in another household — clear it outside the tenant scope
+  await runUnscoped(() =>
+    prisma.pushSubscription.deleteMany({ where: { endpoint: input.endpoint, userId: { not: userId } } })
+  );
+
+  return prisma.pushSubscription.upsert({
+    where: { endpoint: input.endpoint },
+    update: { p256dh: input.keys.p256dh, auth: input.keys.auth, userAgent },
+    create: {
+      userId,
+      endpoint: input.endpoint,
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent,
+    },
+  });
+}
+
+export async function removeSubscription(userId: string, endpoint: string): Promise<boolean> {
+  const result = await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } });
+  return result.count > 0;
+}
+
+/**
+ * Pushes a notification to every device the user subscribed. Subscriptions the push
+ * service reports as gone are deleted. Returns how many devices accepted it.
+ */
+export async function pushToUser(userId: string, payload: PushPayload): Promise<number> {
+  const vapid = vapidConfig();
+  if (!vapid) return 0;
+
+  const subscriptions = await prisma.pushSubscription.findMany({ where: { userId } });
+
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    const result = await sendPush(subscription, payload, vapid);
+    if (result === 'sent') delivered++;
+    if (result === 'expired') {
+      await prisma.pushSubscription.delete({ where: { id: subscription.id } });
+    }
+  }
+  return delivered;
+}
+
+/**
+ * A new immediate_interrupt ticket is pushed to its assignee, so it reaches them with the tab closed.
+ * So is one reassigned to someone new. Must run inside the event's household scope.
+ */
+export async function handleTicketEventPush(event: TicketEvent): Promise<void> {
+  const { ticket } = event;
+  if (event.type !== 'ticket.created' && event.type !== 'ticket.reassigned') return;
+  if (ticket.severity !== 'immediate_interrupt' || !ticket.assignedUserId) return;
+
+  await pushToUser(ticket.assignedUserId, {
+    title: `🚨 ${ticket.title}`,
+    body: ticket.description || `${ticket.area} › ${ticket.category}`,
+    url: env.APP_URL,
+    tag: `ticket-${ticket.id}`,
+    urgent: true,
+  });
+}
+
+/**
+ * Subscribes push delivery to the ticket event bus. Returns an unsubscribe function.
+ */
+export function startPushListener(): () => void {
+  if (!vapidConfig()) {
+    console.log('[Push] VAPID keys not set — Web Push disabled');
+    return () => {};
+  }
+
+  return subscribeTicketEvents((event) => {
+    runWithHousehold(event.ticket.householdId, () => handleTicketEventPush(event)).catch((err) => {
+      console.error(`[Push] Failed to handle ${event.type} for ticket ${event.ticket.id}:`, err);
+    });
+  });
+}
@@ -1,149 +1,534 @@
 import { prisma } from '../lib/prisma';
-import type { RecurringTemplate, Frequency } from '@prisma/client';
+import { env } from '../config/env';
+import { requireHouseholdId } from '../lib/tenantContext';
+import { publishTicketEvent, SYSTEM_ACTOR_ID } from '../lib/eventBus';
+import { getWorkflow } from './workflowService';
+import {
+  parseRRule,
+  formatRRule,
+  ruleForFrequency,
+  occurrencesBetween,
+  resolveAssignee,
+  validateAssignmentConfig,
+  normalizeChecklist,
+  validateEvidencePolicy,
+  RecurrenceRuleError,
+  AssignmentStrategyError,
+  ChecklistError,
+  EvidencePolicyError,
+} from '@household/domain';
+import type {
+  RecurrenceSchedule,
+  ChecklistItemInput,
+  ChecklistItemDefinition,
+  EvidencePolicy,
+} from '@household/domain';
+import { Prisma } from '@prisma/client';
+import type { RecurringTemplate, Ticket, Frequency, AssignmentStrategy, StalePolicy, Role } from '@prisma/client';
+
+export { RecurrenceRuleError, AssignmentStrategyError, ChecklistError, EvidencePolicyError };
+
+export interface ScheduleInput {
+  frequency?: Frequency;
+  rrule?: string;
+  startsOn?: string;         // YYYY-MM-DD
+  endsOn?: string | null;    // YYYY-MM-DD
+  exceptionDates?: string[]; // YYYY-MM-DD
+}
+
+export interface AssignmentInput {
+  assignmentStrategy?: AssignmentStrategy;
+  assigneeId?: string | null;
+  assigneeSpecialty?: string | null;
+}
+
+interface PoolUser {
+  id: string;
+  role: Role;
+  specialty: string | null;
+  openTickets: number;
+}
+
+// Date columns hold a calendar day as UTC midnight; the schedule works in local days like the cron
+function fromDbDate(date: Date): Date {
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function toDbDate(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+/** A local calendar day as YYYY-MM-DD, the format the API accepts and returns. */
+export function formatDay(day: Date): string {
+  return toDbDay(day).toISOString().slice(0, 10);
+}
+
+function toDbDay(day: Date): Date {
+  return new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate()));
+}
 
 /**
- * Generate ticket instances for all active recurring templates
- * based on their frequency. Called by the daily cron job.
+ * The template's recurrence in the form the domain evaluates. Null (and logged) when the
+ * stored rule no longer parses, so one bad template can't stop the others from generating.
  */
-export async function generateDueInstances(): Promise<number> {
-  const templates = await prisma.recurringTemplate.findMany({
-    where: { isActive: true },
-  });
+export function templateSchedule(
+  template: Pick<RecurringTemplate, 'id' | 'rrule' | 'startsOn' | 'endsOn' | 'exceptionDates'>
+): RecurrenceSchedule | null {
+  try {
+    return {
+      rule: parseRRule(template.rrule),
+      start: fromDbDate(template.startsOn),
+      end: template.endsOn ? fromDbDate(template.endsOn) : null,
+      exceptions: template.exceptionDates.map(fromDbDate),
+    };
+  } catch (err) {
+    console.error(`[recurring] Template ${template.id} has an invalid rule "${template.rrule}":`, err);
+    return null;
+  }
+}
 
-  let generated = 0;
+/**
+ * The checklist copied onto each generated ticket. It was normalized when saved, so this
+ * only guards against rows written by hand.
+ */
+function templateChecklist(template: Pick<RecurringTemplate, 'checklist'>): ChecklistItemDefinition[] {
+  return Array.isArray(template.checklist) ? (template.checklist as unknown as ChecklistItemDefinition[]) : [];
+}
 
-  for (const template of templates) {
-    const isDue = await isTemplateDueToday(template);
-    if (!isDue) continue;
-
-    // Create a ticket instance for this template
-    const ticket = await prisma.ticket.create({
-      data: {
-        title: template.name,
-        description: template.description,
-        area: template.area,
-        category: template.category,
-        severity: template.severityDefault,
-        isInspection: false,
-        status: 'open',
-        createdById: template.createdById,
-        recurringTemplateId: template.id,
-      },
-    });
+/**
+ * Column value for a template's own evidence policy; null clears it so household policies apply.
+ * Throws EvidencePolicyError.
+ */
+function evidencePolicyData(policy: EvidencePolicy | null | undefined) {
+  if (!policy) return Prisma.DbNull;
+  validateEvidencePolicy(policy);
+  return policy as unknown as Prisma.InputJsonValue;
+}
 
-    // Initial audit log
-    await prisma.ticketAuditLog.create({
-      data: {
-        ticketId: ticket.id,
-        changedById: template.createdById,
-        fromStatus: null,
-        toStatus: 'open',
-        note: `Auto-generated from recurring template: ${template.name}`,
-      },
-    });
+/**
+ * Turns schedule input into column values. Without an explicit rrule, a fixed frequency
+ * keeps its old meaning (weekly = Mondays, monthly = the 1st). Throws RecurrenceRuleError.
+ */
+function scheduleData(input: ScheduleInput, current?: Pick<RecurringTemplate, 'startsOn' | 'endsOn'>) {
+  const data: Partial<Pick<RecurringTemplate, 'frequency' | 'rrule' | 'startsOn' | 'endsOn' | 'exceptionDates'>> = {};
 
-    // Record the instance
-    await prisma.recurringInstance.create({
-      data: {
-        templateId: template.id,
-        ticketId: ticket.id,
-        scheduledFor: new Date(),
-      },
-    });
+  if (input.rrule !== undefined) {
+    data.rrule = formatRRule(parseRRule(input.rrule));
+    data.frequency = input.frequency ?? 'custom';
+  } else if (input.frequency !== undefined) {
+    data.frequency = input.frequency;
+    if (input.frequency !== 'custom' || !current) data.rrule = ruleForFrequency(input.frequency);
+  }
+
+  if (input.startsOn !== undefined) data.startsOn = toDbDate(input.startsOn);
+  if (input.endsOn !== undefined) data.endsOn = input.endsOn ? toDbDate(input.endsOn) : null;
+  if (input.exceptionDates !== undefined) data.exceptionDates = input.exceptionDates.map(toDbDate);
 
-    generated++;
+  const startsOn = data.startsOn ?? current?.startsOn;
+  const endsOn = data.endsOn !== undefined ? data.endsOn : current?.endsOn;
+  if (startsOn && endsOn && endsOn < startsOn) {
+    throw new RecurrenceRuleError('endsOn must not be before startsOn');
   }
 
-  return generated;
+  return data;
+}
+
+/**
+ * Validates assignment input against the template's current settings and returns the columns to write.
+ * Switching away from fixed_user drops the fixed assignee. Throws AssignmentStrategyError.
+ */
+async function assignmentData(
+  input: AssignmentInput,
+  current?: Pick<RecurringTemplate, 'assignmentStrategy' | 'assigneeId'>
+): Promise<AssignmentInput> {
+  const strategy = input.assignmentStrategy ?? current?.assignmentStrategy ?? 'none';
+  const assigneeId =
+    input.assigneeId !== undefined ? input.assigneeId : strategy === 'fixed_user' ? current?.assigneeId ?? null : null;
+
+  validateAssignmentConfig({ strategy, fixedUserId: assigneeId });
+
+  // Tenant-scoped, so a user from another household is simply not found
+  if (assigneeId && !(await prisma.user.findUnique({ where: { id: assigneeId }, select: { id: true } }))) {
+    throw new AssignmentStrategyError(`Assignee ${assigneeId} not found`);
+  }
+
+  return {
+    assignmentStrategy: strategy,
+    assigneeId,
+    ...(input.assigneeSpecialty !== undefined ? { assigneeSpecialty: input.assigneeSpecialty } : {}),
+  };
 }
 
-async function isTemplateDueToday(template: RecurringTemplate): Promise<boolean> {
-  const now = new Date();
-  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+/**
+ * Everyone who could take a recurring ticket, in a stable order, with how many open tickets they hold.
+ */
+async function loadAssigneePool(): Promise<PoolUser[]> {
+  const workflow = await getWorkflow();
+  const terminal = workflow.states.filter((st) => st.terminal).map((st) => st.key);
+
+  const [users, open] = await Promise.all([
+    prisma.user.findMany({ select: { id: true, role: true, specialty: true }, orderBy: { id: 'asc' } }),
+    prisma.ticket.groupBy({
+      by: ['assignedUserId'],
+      where: { assignedUserId: { not: null }, status: { notIn: terminal } },
+      _count: { _all: true },
+    }),
+  ]);
 
-  // Check if an instance was already generated today
-  const existingToday = await prisma.recurringInstance.findFirst({
-    where: {
-      templateId: template.id,
-      generatedAt: { gte: todayStart },
+  const openByUser = new Map(open.map((o) => [o.assignedUserId, o._count._all]));
+  return users.map((u) => ({ ...u, openTickets: openByUser.get(u.id) ?? 0 }));
+}
+
+/**
+ * The template's pool is users with one of its assignedRoles (employees when none are set),
+ * narrowed to assigneeSpecialty when given.
+ */
+function pickAssignee(template: RecurringTemplate, pool: PoolUser[]): string | null {
+  const roles: Role[] = template.assignedRoles.length > 0 ? template.assignedRoles : ['employee'];
+  const candidates = pool.filter(
+    (u) => roles.includes(u.role) && (!template.assigneeSpecialty || u.specialty === template.assigneeSpecialty)
+  );
+
+  return resolveAssignee(
+    {
+      strategy: template.assignmentStrategy,
+      fixedUserId: template.assigneeId,
+      lastAssignedUserId: template.lastAssignedUserId,
     },
+    candidates
+  );
+}
+
+export interface PlannedInstance {
+  template: RecurringTemplate;
+  scheduledFor: Date; // local midnight of the occurrence
+  assignedUserId: string | null;
+  catchUp: boolean;   // the occurrence was before today
+  carryOver: boolean; // carry_over: an untouched earlier instance will cover this occurrence
+}
+
+// Outcome of one planned occurrence, for event publishing
+interface InstanceResult {
+  created: Ticket | null;
+  staleClosed: Array<{ ticket: Ticket; note: string }>;
+}
+
+/**
+ * Works out which scheduled occurrences still have no instance: every day the template was due
+ * from RECURRING_LOOKBACK_DAYS ago through today, never before the day it was created.
+ * Assignees are resolved in date order, as if each earlier instance had already been created.
+ * Writes nothing — the preview endpoint shows exactly this.
+ */
+export async function planDueInstances(now: Date = new Date()): Promise<PlannedInstance[]> {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const windowStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - env.RECURRING_LOOKBACK_DAYS);
+
+  const templates = await prisma.recurringTemplate.findMany({
+    where: { isActive: true },
+  });
+
+  const existing = await prisma.recurringInstance.findMany({
+    where: { templateId: { in: templates.map((t) => t.id) }, scheduledFor: { gte: toDbDay(windowStart) } },
+    select: { templateId: true, scheduledFor: true },
   });
+  const generated = new Set(existing.map((i) => `${i.templateId}:${i.scheduledFor.getTime()}`));
 
-  if (existingToday) return false;
+  const missing = templates
+    .flatMap((template) => {
+      const schedule = templateSchedule(template);
+      if (!schedule) return [];
 
-  const freq = template.frequency as Frequency;
+      const created = template.createdAt;
+      const createdDay = new Date(created.getFullYear(), created.getMonth(), created.getDate());
+      const from = createdDay > windowStart ? createdDay : windowStart;
 
-  switch (freq) {
-    case 'daily':
-      return true;
+      return occurrencesBetween(schedule, from, today)
+        .filter((day) => !generated.has(`${template.id}:${toDbDay(day).getTime()}`))
+        .map((day) => ({ template, day }));
+    })
+    .sort((a, b) => a.day.getTime() - b.day.getTime());
 
-    case 'weekly': {
-      // Generate on Mondays (day 1)
-      return now.getDay() === 1;
+  // carry_over templates that already have an untouched instance won't create a new ticket
+  const carrying = new Set(
+    (
+      await prisma.ticket.findMany({
+        where: {
+          recurringTemplateId: { in: templates.filter((t) => t.stalePolicy === 'carry_over').map((t) => t.id) },
+          status: 'open',
+        },
+        select: { recurringTemplateId: true },
+      })
+    ).map((t) => t.recurringTemplateId)
+  );
+
+  const pool = await loadAssigneePool();
+  const lastAssigned = new Map(templates.map((t) => [t.id, t.lastAssignedUserId]));
+
+  return missing.map(({ template, day }) => {
+    const catchUp = day < today;
+    if (carrying.has(template.id)) {
+      return { template, scheduledFor: day, assignedUserId: null, catchUp, carryOver: true };
     }
+    if (template.stalePolicy === 'carry_over') carrying.add(template.id);
 
-    case 'monthly': {
-      // Generate on the 1st of the month
-      return now.getDate() === 1;
+    const assignedUserId = pickAssignee({ ...template, lastAssignedUserId: lastAssigned.get(template.id) ?? null }, pool);
+    if (assignedUserId) {
+      // Carry the rotation and load forward to the next planned instance
+      lastAssigned.set(template.id, assignedUserId);
+      const assignee = pool.find((u) => u.id === assignedUserId);
+      if (assignee) assignee.openTickets++;
     }
+    return { template, scheduledFor: day, assignedUserId, catchUp, carryOver: false };
+  });
+}
+
+/**
+ * Applies the template's stale policy and records one planned occurrence, all in a single transaction.
+ *
+ * Earlier instances still `open` (never started) are stale once the next occurrence comes due:
+ *   keep       — left alone; a new ticket is created
+ *   auto_skip  — skipped by the system, which counts against the assignee's consistency score.
+ *                Tickets created earlier in the same run (catch-up) are not stale — nobody saw them yet.
+ *   carry_over — the newest stale ticket covers this occurrence too; no new ticket
+ *   merge      — folded into the new ticket; skipped but marked mergedIntoId, so no skip penalty
+ *
+ * Returns null when another run already recorded this occurrence — instances are unique per scheduled day.
+ */
+async function recordOccurrence(planned: PlannedInstance, runStartedAt: Date): Promise<InstanceResult | null> {
+  const { template, scheduledFor, assignedUserId, catchUp } = planned;
+  const day = formatDay(scheduledFor);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const stale =
+        template.stalePolicy === 'keep'
+          ? []
+          : await tx.ticket.findMany({
+              where: {
+                recurringTemplateId: template.id,
+                status: 'open',
+                ...(template.stalePolicy === 'auto_skip' ? { createdAt: { lt: runStartedAt } } : {}),
+              },
+              orderBy: { createdAt: 'desc' },
+            });
+
+      if (template.stalePolicy === 'carry_over' && stale.length > 0) {
+        const carrier = stale[0];
+        await tx.recurringInstance.create({
+          data: { templateId: template.id, ticketId: carrier.id, scheduledFor: toDbDay(scheduledFor) },
+        });
+        await tx.ticketAuditLog.create({
+          data: {
+            ticketId: carrier.id,
+            changedById: null, // system actor
+            fromStatus: carrier.status,
+            toStatus: carrier.status,
+            note: `Carried over: also covers the ${day} occurrence`,
+          },
+        });
+        return { created: null, staleClosed: [] };
+      }
 
-    case 'custom':
-      // For custom frequency, always generate (caller controls scheduling)
-      return true;
+      const merging = template.stalePolicy === 'merge' ? stale : [];
+      const note = [
+        `Auto-generated from recurring template: ${template.name}`,
+        ...(catchUp ? [` (catch-up for ${day})`] : []),
+        ...(assignedUserId ? [` (assigned by ${template.assignmentStrategy.replace('_', ' ')})`] : []),
+        ...(merging.length > 0 ? [` — includes ${merging.length} missed occurrence(s)`] : []),
+      ].join('');
 
-    default:
-      return false;
+      const ticket = await tx.ticket.create({
+        data: {
+          title: template.name,
+          description: template.description,
+          area: template.area,
+          category: template.category,
+          severity: template.severityDefault,
+          isInspection: false,
+          status: 'open',
+          assignedUserId,
+          createdById: template.createdById,
+          recurringTemplateId: template.id,
+          householdId: template.householdId,
+          checklistItems: {
+            create: templateChecklist(template).map((item, position) => ({ ...item, position })),
+          },
+        },
+      });
+
+      await tx.ticketAuditLog.create({
+        data: {
+          ticketId: ticket.id,
+          changedById: template.createdById,
+          fromStatus: null,
+          toStatus: 'open',
+          note,
+        },
+      });
+
+      await tx.recurringInstance.create({
+        data: {
+          templateId: template.id,
+          ticketId: ticket.id,
+          scheduledFor: toDbDay(scheduledFor),
+        },
+      });
+
+      if (assignedUserId) {
+        await tx.recurringTemplate.update({
+          where: { id: template.id },
+          data: { lastAssignedUserId: assignedUserId },
+        });
+      }
+
+      const staleClosed: InstanceResult['staleClosed'] = [];
+      if (template.stalePolicy === 'auto_skip' || template.stalePolicy === 'merge') {
+        for (const old of stale) {
+          const merged = template.stalePolicy === 'merge';
+          const staleNote = merged
+            ? `Merged into the ${day} occurrence`
+            : `Auto-skipped: never started before the ${day} occurrence came due`;
+
+          const closed = await tx.ticket.update({
+            where: { id: old.id },
+            data: { status: 'skipped', ...(merged ? { mergedIntoId: ticket.id } : {}) },
+          });
+          await tx.ticketAuditLog.create({
+            data: {
+              ticketId: old.id,
+              changedById: null, // system actor
+              fromStatus: old.status,
+              toStatus: 'skipped',
+              note: staleNote,
+            },
+          });
+          staleClosed.push({ ticket: closed, note: staleNote });
+        }
+      }
+
+      return { created: ticket, staleClosed };
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
+  }
+}
+
+/**
+ * Generates every missing instance from planDueInstances, oldest first.
+ * Called by the recurring cron on startup and every morning. Safe to run repeatedly.
+ * Returns how many tickets were created.
+ */
+export async function generateDueInstances(now: Date = new Date()): Promise<number> {
+  const runStartedAt = new Date();
+  const plan = await planDueInstances(now);
+
+  let generated = 0;
+  for (const planned of plan) {
+    const result = await recordOccurrence(planned, runStartedAt);
+    if (!result) continue;
+
+    for (const { ticket, note } of result.staleClosed) {
+      publishTicketEvent('ticket.transitioned', ticket, SYSTEM_ACTOR_ID, { fromStatus: 'open', note });
+    }
+    if (result.created) {
+      publishTicketEvent('ticket.created', result.created, planned.template.createdById);
+      generated++;
+    }
   }
+
+  return generated;
 }
 
 export async function getTemplates() {
   return prisma.recurringTemplate.findMany({
     include: {
       createdBy: { select: { id: true, name: true, role: true } },
+      assignee: { select: { id: true, name: true, role: true } },
     },
     orderBy: { createdAt: 'desc' },
   });
 }
 
-export async function createTemplate(data: {
+export async function createTemplate(data: ScheduleInput & AssignmentInput & {
   name: string;
   description: string;
-  frequency: Frequency;
   assignedRoles: string[];
   severityDefault: string;
   area: string;
   category: string;
+  stalePolicy?: StalePolicy;
+  checklist?: ChecklistItemInput[];
+  evidencePolicy?: EvidencePolicy | null;
   createdById: string;
 }) {
+  const { frequency, rrule, ...schedule } = scheduleData(data);
+  const assignment = await assignmentData(data);
+
   return prisma.recurringTemplate.create({
     data: {
       name: data.name,
       description: data.description,
-      frequency: data.frequency,
+      frequency: frequency!,
+      rrule: rrule!,
+      ...schedule,
+      ...assignment,
       assignedRoles: data.assignedRoles as any,
       severityDefault: data.severityDefault as any,
       area: data.area,
       category: data.category,
+      stalePolicy: data.stalePolicy,
+      checklist: normalizeChecklist(data.checklist ?? []) as unknown as Prisma.InputJsonValue,
+      evidencePolicy: evidencePolicyData(data.evidencePolicy),
       createdById: data.createdById,
+      householdId: requireHouseholdId(),
     },
   });
 }
 
 export async function updateTemplate(
   id: string,
-  data: Partial<{
-    name: string;
-    description: string;
-    frequency: Frequency;
-    assignedRoles: string[];
-    severityDefault: string;
-    area: string;
-    category: string;
-    isActive: boolean;
-  }>
+  data: ScheduleInput &
+    AssignmentInput &
+    Partial<{
+      name: string;
+      description: string;
+      assignedRoles: string[];
+      severityDefault: string;
+      area: string;
+      category: string;
+      stalePolicy: StalePolicy;
+      checklist: ChecklistItemInput[];
+      evidencePolicy: EvidencePolicy | null;
+      isActive: boolean;
+    }>
 ) {
+  const {
+    frequency,
+    rrule,
+    startsOn,
+    endsOn,
+    exceptionDates,
+    assignmentStrategy,
+    assigneeId,
+    assigneeSpecialty,
+    checklist,
+    evidencePolicy,
+    ...rest
+  } = data;
+  const current = await prisma.recurringTemplate.findUniqueOrThrow({
+    where: { id },
+    select: { startsOn: true, endsOn: true, assignmentStrategy: true, assigneeId: true },
+  });
+
   return prisma.recurringTemplate.update({
     where: { id },
-    data: data as any,
+    data: {
+      ...rest,
+      ...scheduleData({ frequency, rrule, startsOn, endsOn, exceptionDates }, current),
+      ...(await assignmentData({ assignmentStrategy, assigneeId, assigneeSpecialty }, current)),
+      ...(checklist !== undefined ? { checklist: normalizeChecklist(checklist) } : {}),
+      ...(evidencePolicy !== undefined ? { evidencePolicy: evidencePolicyData(evidencePolicy) } : {}),
+    } as any,
   });
 }
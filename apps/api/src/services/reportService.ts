@@ -0,0 +1,196 @@
+import { prisma } from '../lib/prisma';
+import { daysLate, periodContaining } from '@household/domain';
+import type { RejectionReason } from '@prisma/client';
+import { computePeriodScore } from './scoringService';
+import { getScoringPolicy } from './scoringPolicyService';
+import { getWorkflow } from './workflowService';
+
+// Rejections logged before reason codes existed
+const UNCLASSIFIED = 'unclassified';
+
+function countReasons(reasons: Array<RejectionReason | null | undefined>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const reason of reasons) {
+    const key = reason ?? UNCLASSIFIED;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export type WeeklyReport = Awaited<ReturnType<typeof buildWeeklyReport>>;
+
+/**
+ * Builds the authority weekly report for the current household.
+ * weekOffset 0 is the week (Sunday–Saturday) containing `now`, 1 the week before, and so on.
+ * Shared by GET /api/reports/weekly and the nightly email digest.
+ */
+export async function buildWeeklyReport(weekOffset = 0, now: Date = new Date()) {
+  // The same weeks weekly score snapshots are kept for
+  const inWeek = new Date(now);
+  inWeek.setDate(now.getDate() - weekOffset * 7);
+  const { start: weekStart, end: weekEnd } = periodContaining('weekly', inWeek);
+
+  const periodFilter = { createdAt: { gte: weekStart, lt: weekEnd } };
+
+  // --- Summary counts ---
+  const [openCount, inProgressCount, closedCount, skippedCount, rejectionLogs] = await Promise.all([
+    prisma.ticket.count({ where: { ...periodFilter, status: 'open' } }),
+    prisma.ticket.count({ where: { ...periodFilter, status: 'in_progress' } }),
+    prisma.ticket.count({ where: { ...periodFilter, status: 'closed' } }),
+    prisma.ticket.count({ where: { ...periodFilter, status: 'skipped' } }),
+    prisma.ticketAuditLog.count({
+      where: { fromStatus: 'needs_review', toStatus: 'in_progress', createdAt: { gte: weekStart, lt: weekEnd } },
+    }),
+  ]);
+
+  // --- Per-employee stats: the same domain scoring that stored ScoreRecords use ---
+  const employees = await prisma.user.findMany({
+    where: { role: 'employee' },
+    select: { id: true, name: true, specialty: true },
+  });
+
+  const employeeStats = await Promise.all(
+    employees.map(async (emp) => {
+      const empFilter = { ...periodFilter, assignedUserId: emp.id };
+
+      // A finalized week is reported as it was frozen: its numbers come from the snapshot, and the
+      // tickets behind them are read under the policy version it was computed with
+      const finalized = await prisma.scoreRecord.findFirst({
+        where: { userId: emp.id, periodType: 'weekly', periodStart: weekStart, periodEnd: weekEnd, status: 'finalized' },
+      });
+
+      const [empOpen, empClosed, empSkipped, computed] = await Promise.all([
+        prisma.ticket.count({ where: { ...empFilter, status: 'open' } }),
+        prisma.ticket.count({ where: { ...empFilter, status: 'closed' } }),
+        prisma.ticket.count({ where: { ...empFilter, status: 'skipped' } }),
+        computePeriodScore(emp.id, { start: weekStart, end: weekEnd }, now, finalized?.policyVersion),
+      ]);
+      const { history, policy } = computed;
+      const breakdown = finalized
+        ? {
+            quality: finalized.qualityScore,
+            consistency: finalized.consistencyScore,
+            speed: finalized.speedScore,
+            volume: finalized.volumeScore,
+            total: finalized.totalScore,
+          }
+        : computed.breakdown;
+      const adjustment = finalized?.adjustment ?? computed.adjustment;
+
+      // Reasons line up with each ticket's rejection events
+      const reasons = history.flatMap((t) =>
+        t.events.filter((e) => e === 'rejection').map((_, i) => t.rejectionReasons?.[i] ?? null)
+      );
+
+      const qualityPenalty     = -breakdown.quality;      // weighted by reason
+      const consistencyPenalty = -breakdown.consistency;  // per skipped recurring task
+      const latePenalty        = -breakdown.speed;        // per late day
+      const totalPenalty       = qualityPenalty + consistencyPenalty + latePenalty;
+
+      return {
+        user: emp,
+        open: empOpen,
+        closed: empClosed,
+        skipped: empSkipped,
+        rejected: reasons.length,
+        rejectionReasons: countReasons(reasons),
+        daysLate: history.reduce((sum, t) => sum + daysLate(t, policy), 0),
+        qualityPenalty,
+        consistencyPenalty,
+        latePenalty,
+        totalPenalty,
+        bonus: breakdown.volume, // perfect-period bonus
+        // Same total and adjustment a ScoreRecord for this week holds
+        total: breakdown.total,
+        adjustment, // points given back by accepted disputes
+        adjustedTotal: breakdown.total + adjustment,
+        // Net score impact this period, disputes included (positive = gained pts, negative = lost pts)
+        scoreImpact: breakdown.total + adjustment - 100,
+      };
+    })
+  );
+
+  // --- Repeat issues ---
+  const repeatIssues = await prisma.ticket.findMany({
+    where: { ...periodFilter, isRepeatIssue: true },
+    select: {
+      id: true, title: true, area: true, category: true,
+      previousTicketId: true, createdAt: true, severity: true,
+      assignedUser: { select: { name: true } },
+    },
+  });
+
+  // --- Trends & patterns ---
+  const ticketsThisWeek = await prisma.ticket.findMany({
+    where: periodFilter,
+    select: { area: true, category: true, status: true, severity: true, dueAt: true },
+  });
+
+  const areaMap: Record<string, { total: number; skipped: number; rejected: number }> = {};
+  for (const t of ticketsThisWeek) {
+    const key = `${t.area} › ${t.category}`;
+    if (!areaMap[key]) areaMap[key] = { total: 0, skipped: 0, rejected: 0 };
+    areaMap[key].total++;
+    if (t.status === 'skipped') areaMap[key].skipped++;
+  }
+  const areaRejections = await prisma.ticketAuditLog.findMany({
+    where: { fromStatus: 'needs_review', toStatus: 'in_progress', createdAt: { gte: weekStart, lt: weekEnd } },
+    include: { ticket: { select: { area: true, category: true } } },
+  });
+  for (const log of areaRejections) {
+    const key = `${log.ticket.area} › ${log.ticket.category}`;
+    if (areaMap[key]) areaMap[key].rejected++;
+  }
+  // Why work was sent back, per area
+  const rejectionsByArea = Object.entries(
+    areaRejections.reduce<Record<string, typeof areaRejections>>((byArea, log) => {
+      (byArea[log.ticket.area] ??= []).push(log);
+      return byArea;
+    }, {})
+  )
+    .map(([area, logs]) => ({ area, total: logs.length, reasons: countReasons(logs.map((l) => l.reason)) }))
+    .sort((a, b) => b.total - a.total);
+
+  const hotSpots = Object.entries(areaMap)
+    .map(([area, stats]) => ({ area, ...stats, issueScore: stats.skipped + stats.rejected }))
+    .filter((a) => a.issueScore > 0)
+    .sort((a, b) => b.issueScore - a.issueScore)
+    .slice(0, 3);
+
+  // Overdue = past due and not in one of the household workflow's terminal states
+  const workflow = await getWorkflow();
+  const terminal = workflow.states.filter((s) => s.terminal).map((s) => s.key);
+  const overdueCount = await prisma.ticket.count({
+    where: { dueAt: { lt: now }, status: { notIn: terminal } },
+  });
+
+  const noCompletions = employeeStats
+    .filter((s) => s.closed === 0 && (s.open > 0 || s.skipped > 0))
+    .map((s) => s.user.name);
+
+  const mostPenalized = [...employeeStats].sort((a, b) => b.totalPenalty - a.totalPenalty)[0];
+
+  // The numbers behind the per-employee points, for the report's legend
+  const { version, policy } = await getScoringPolicy();
+
+  return {
+    period: { start: weekStart, end: weekEnd },
+    scoringPolicy: { version, policy },
+    summary: {
+      open: openCount,
+      inProgress: inProgressCount,
+      closed: closedCount,
+      skipped: skippedCount,
+      reopened: rejectionLogs,
+    },
+    employeeStats,
+    repeatIssues,
+    rejectionsByArea,
+    trends: {
+      hotSpots,
+      overdueCount,
+      noCompletions,
+      mostPenalized: mostPenalized?.totalPenalty > 0 ? mostPenalized : null,
+    },
+  };
+}
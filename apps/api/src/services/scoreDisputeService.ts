@@ -0,0 +1,175 @@
+import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
+import {
+  validateDispute,
+  validateResolution,
+  adjustmentFor,
+  isDisputableRule,
+  ScoreDisputeError,
+} from '@household/domain';
+import type { AcceptedAdjustment, ScoreLedgerEntry } from '@household/domain';
+import { Prisma } from '@prisma/client';
+import type { ScoreDisputeStatus } from '@prisma/client';
+
+export { ScoreDisputeError };
+
+// The partial unique index on open disputes turned away a second dispute of the same deduction
+function isDuplicateDispute(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+const userSummary = { select: { id: true, name: true } } as const;
+
+const disputeInclude = {
+  user: userSummary,
+  resolvedBy: userSummary,
+  events: { include: { actor: userSummary }, orderBy: { createdAt: 'asc' } },
+} as const;
+
+/**
+ * Points accepted disputes give back to a user, one entry per disputed deduction.
+ */
+export async function getAcceptedAdjustments(userId: string): Promise<AcceptedAdjustment[]> {
+  const accepted = await prisma.scoreDispute.findMany({
+    where: { userId, status: 'accepted' },
+    select: { ticketId: true, rule: true, adjustment: true },
+  });
+  return accepted.flatMap(({ ticketId, rule, adjustment }) =>
+    isDisputableRule(rule) && adjustment ? [{ ticketId, rule, points: adjustment }] : []
+  );
+}
+
+/**
+ * Re-applies a user's accepted disputes to their provisional scores. Only the adjustment is
+ * written. Finalized snapshots are immutable, so they keep the adjustment they were frozen with.
+ */
+async function refreshAdjustments(userId: string): Promise<void> {
+  const adjustments = await getAcceptedAdjustments(userId);
+  const records = await prisma.scoreRecord.findMany({
+    where: { userId, status: 'provisional' },
+    select: { id: true, ledger: true, adjustment: true },
+  });
+
+  for (const record of records) {
+    const adjustment = adjustmentFor(record.ledger as unknown as ScoreLedgerEntry[], adjustments);
+    if (adjustment !== record.adjustment) {
+      await prisma.scoreRecord.update({ where: { id: record.id }, data: { adjustment } });
+    }
+  }
+}
+
+// Ticket titles for a page of disputes; the ticket may have been deleted since
+async function withTickets<T extends { ticketId: string }>(disputes: T[]) {
+  const tickets = await prisma.ticket.findMany({
+    where: { id: { in: [...new Set(disputes.map((d) => d.ticketId))] } },
+    select: { id: true, title: true, area: true },
+  });
+  const byId = new Map(tickets.map((t) => [t.id, t]));
+  return disputes.map((d) => ({ ...d, ticket: byId.get(d.ticketId) ?? null }));
+}
+
+export interface OpenDisputeInput {
+  scoreId: string;
+  ticketId: string;
+  rule: string;
+  reason: string;
+}
+
+/**
+ * An employee disputes one deduction on their own score. Returns null when the score is not
+ * theirs; throws ScoreDisputeError when the deduction cannot be disputed.
+ */
+export async function openDispute(userId: string, input: OpenDisputeInput) {
+  const score = await prisma.scoreRecord.findFirst({ where: { id: input.scoreId, userId } });
+  if (!score) return null;
+
+  const open = await prisma.scoreDispute.count({
+    where: { userId, ticketId: input.ticketId, rule: input.rule, status: { in: ['pending', 'accepted'] } },
+  });
+  const { line, points, reason } = validateDispute(
+    score.ledger as unknown as ScoreLedgerEntry[],
+    { ticketId: input.ticketId, rule: input.rule },
+    input.reason,
+    open > 0
+  );
+
+  let dispute;
+  try {
+    dispute = await prisma.scoreDispute.create({
+      data: {
+        householdId: requireHouseholdId(),
+        userId,
+        ticketId: line.ticketId,
+        rule: line.rule,
+        disputedPoints: points,
+        periodType: score.periodType,
+        periodStart: score.periodStart,
+        periodEnd: score.periodEnd,
+        reason,
+        events: { create: { action: 'opened', actorId: userId, note: reason } },
+      },
+      include: disputeInclude,
+    });
+  } catch (err) {
+    // Another request opened one between the count and the create
+    if (isDuplicateDispute(err)) throw new ScoreDisputeError('This deduction has already been disputed');
+    throw err;
+  }
+  const [withTicket] = await withTickets([dispute]);
+  return withTicket;
+}
+
+/**
+ * Disputes, newest first: every one in the household, or only `userId`'s.
+ * Each comes with its ticket and its audit trail.
+ */
+export async function getDisputes(filters: { userId?: string; status?: ScoreDisputeStatus }) {
+  const disputes = await prisma.scoreDispute.findMany({
+    where: { userId: filters.userId, status: filters.status },
+    include: disputeInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+  return withTickets(disputes);
+}
+
+export interface ResolveDisputeInput {
+  accept: boolean;
+  adjustment?: number; // points to give back when accepting; all of the deduction by default
+  note?: string;       // required when declining
+}
+
+/**
+ * An authority answers a pending dispute. Accepting records the adjustment on every provisional
+ * score of the employee that carries the deduction. Returns null when the dispute does not exist;
+ * throws ScoreDisputeError when it was already answered or the answer is invalid.
+ */
+export async function resolveDispute(disputeId: string, actorId: string, input: ResolveDisputeInput) {
+  const dispute = await prisma.scoreDispute.findUnique({ where: { id: disputeId } });
+  if (!dispute) return null;
+  if (dispute.status !== 'pending') {
+    throw new ScoreDisputeError(`This dispute was already ${dispute.status}`);
+  }
+
+  const { adjustment, note } = validateResolution(dispute.disputedPoints, input.accept, input.adjustment, input.note);
+  const action = input.accept ? 'accepted' : 'declined';
+
+  await prisma.$transaction(async (tx) => {
+    // Only a dispute still pending is answered, so two authorities answering at once get one answer
+    const { count } = await tx.scoreDispute.updateMany({
+      where: { id: disputeId, status: 'pending' },
+      data: { status: action, adjustment, resolutionNote: note, resolvedById: actorId, resolvedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new ScoreDisputeError('This dispute was already resolved');
+    }
+    await tx.scoreDisputeEvent.create({ data: { disputeId, action, actorId, note, adjustment } });
+  });
+
+  if (input.accept) {
+    await refreshAdjustments(dispute.userId);
+  }
+
+  const resolved = await prisma.scoreDispute.findUniqueOrThrow({ where: { id: disputeId }, include: disputeInclude });
+  const [withTicket] = await withTickets([resolved]);
+  return withTicket;
+}
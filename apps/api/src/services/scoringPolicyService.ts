@@ -0,0 +1,113 @@
+import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
+import { validateScoringPolicy, ScoringPolicyError, DEFAULT_SCORING_POLICY } from '@household/domain';
+import type { ScoringPolicy } from '@household/domain';
+import { Prisma } from '@prisma/client';
+
+export { ScoringPolicyError };
+
+// Another save took the version number this one was about to use, every time it retried
+export class ScoringPolicyConflictError extends Error {
+  constructor() {
+    super('The scoring policy was changed at the same time; reload it and try again');
+    this.name = 'ScoringPolicyConflictError';
+  }
+}
+
+const SAVE_ATTEMPTS = 3;
+
+function isVersionConflict(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+export interface VersionedScoringPolicy {
+  version: number; // 0 = the built-in default, in force until the household saves its own
+  policy: ScoringPolicy;
+  createdAt: Date | null;
+  createdBy: { id: string; name: string } | null;
+}
+
+const DEFAULT_VERSION: VersionedScoringPolicy = {
+  version: 0,
+  policy: DEFAULT_SCORING_POLICY,
+  createdAt: null,
+  createdBy: null,
+};
+
+type StoredPolicy = {
+  version: number;
+  policy: Prisma.JsonValue;
+  createdAt: Date;
+  createdBy: { id: string; name: string };
+};
+
+const storedSelect = {
+  version: true,
+  policy: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+// Stored rows were validated when saved; re-validating fills fields added to the policy since
+function toVersioned(row: StoredPolicy): VersionedScoringPolicy {
+  return { ...row, policy: validateScoringPolicy(row.policy) };
+}
+
+/**
+ * The current household's scoring policy in force: its latest version, or the built-in default.
+ */
+export async function getScoringPolicy(): Promise<VersionedScoringPolicy> {
+  const latest = await prisma.scoringPolicy.findFirst({ orderBy: { version: 'desc' }, select: storedSelect });
+  return latest ? toVersioned(latest) : DEFAULT_VERSION;
+}
+
+/**
+ * One version of the current household's policy, as a ScoreRecord's `policyVersion` names it.
+ * Versions are never deleted, so a missing one is an error.
+ */
+export async function getScoringPolicyVersion(version: number): Promise<VersionedScoringPolicy> {
+  if (version === DEFAULT_VERSION.version) return DEFAULT_VERSION;
+  const row = await prisma.scoringPolicy.findFirst({ where: { version }, select: storedSelect });
+  if (!row) throw new Error(`Scoring policy version ${version} not found`);
+  return toVersioned(row);
+}
+
+/**
+ * Every version the household has saved, newest first, ending with the built-in default.
+ */
+export async function getScoringPolicyHistory(): Promise<VersionedScoringPolicy[]> {
+  const rows = await prisma.scoringPolicy.findMany({ orderBy: { version: 'desc' }, select: storedSelect });
+  return [...rows.map(toVersioned), DEFAULT_VERSION];
+}
+
+/**
+ * Saves a new version. Fields left out are taken from the default policy, not from the previous
+ * version, so what is stored is always the whole policy. Throws ScoringPolicyError when invalid.
+ * Concurrent saves each get their own version: a save that loses the race on a version number
+ * retries with the next one, and throws ScoringPolicyConflictError if it keeps losing.
+ */
+export async function updateScoringPolicy(input: unknown, actorId: string): Promise<VersionedScoringPolicy> {
+  const policy = validateScoringPolicy(input);
+  const householdId = requireHouseholdId();
+
+  for (let attempt = 1; attempt <= SAVE_ATTEMPTS; attempt++) {
+    try {
+      const row = await prisma.$transaction(async (tx) => {
+        const latest = await tx.scoringPolicy.findFirst({ orderBy: { version: 'desc' }, select: { version: true } });
+        return tx.scoringPolicy.create({
+          data: {
+            householdId,
+            version: (latest?.version ?? 0) + 1,
+            policy: policy as unknown as Prisma.InputJsonValue,
+            createdById: actorId,
+          },
+          select: storedSelect,
+        });
+      });
+      return toVersioned(row);
+    } catch (err) {
+      if (!isVersionConflict(err)) throw err;
+    }
+  }
+  throw new ScoringPolicyConflictError();
+}
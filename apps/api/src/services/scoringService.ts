@@ -1,139 +1,248 @@
 import { prisma } from '../lib/prisma';
-import { computeScore } from '@household/domain';
-import type { ScoringInput, TicketHistory, TicketEventType } from '@household/domain';
-import type { TicketStatus, Severity } from '@prisma/client';
+import { requireHouseholdId, runWithHousehold } from '../lib/tenantContext';
+import { subscribeTicketEvents, type TicketEvent } from '../lib/eventBus';
+import { getScoringPolicy, getScoringPolicyVersion } from './scoringPolicyService';
+import { getAcceptedAdjustments } from './scoreDisputeService';
+import {
+  computeScore,
+  adjustmentFor,
+  buildTicketHistory,
+  ticketOwner,
+  periodContaining,
+  previousPeriod,
+  isPeriodClosed,
+  SCORE_PERIOD_TYPES,
+} from '@household/domain';
+import type { ScoringInput, TicketHistory, ScoreBreakdown, ScoreLedgerEntry, ScorePeriod } from '@household/domain';
+import { Prisma, type ScorePeriodType, type ScoreStatus, type ScoreDisputeStatus } from '@prisma/client';
 
 export interface Period {
   start: Date;
-  end: Date;
+  end: Date; // exclusive
 }
 
 /**
- * Compute and persist score for a user over a given period.
- * Fetches all tickets assigned to the user in the period, maps to TicketHistory,
- * calls the pure domain computeScore, then upserts a ScoreRecord.
+ * Score a user over a period without saving it: loads every ticket opened in the period that
+ * the user held at some point, builds its history with the domain builder and runs computeScore
+ * under the household's scoring policy in force, or under `atPolicyVersion` when given (to
+ * re-explain a finalized snapshot). `adjustment` is what accepted disputes give back.
+ * Stored ScoreRecords and the weekly report both come from here, so they always agree.
  */
-export async function computeAndSaveScore(userId: string, period: Period) {
-  // Load tickets assigned to this user in the period
+export async function computePeriodScore(userId: string, period: Period, now: Date = new Date(), atPolicyVersion?: number) {
+  // Tickets assigned to this user in the period, now or before a reassignment
   const tickets = await prisma.ticket.findMany({
     where: {
-      assignedUserId: userId,
-      createdAt: { gte: period.start, lte: period.end },
+      OR: [
+        { assignedUserId: userId },
+        { assignments: { some: { OR: [{ fromUserId: userId }, { toUserId: userId }] } } },
+      ],
+      createdAt: { gte: period.start, lt: period.end },
     },
     include: {
       auditLogs: { orderBy: { createdAt: 'asc' } },
-      photos: true,
+      assignments: { orderBy: { createdAt: 'asc' } },
     },
   });
 
-  // Count of completed tickets by all users in same period (for volume normalization)
-  const allUserCounts = await prisma.ticket.groupBy({
-    by: ['assignedUserId'],
-    where: {
-      status: 'closed',
-      closedAt: { gte: period.start, lte: period.end },
-      assignedUserId: { not: null },
+  // Tickets each user completed in the period (for volume normalization), credited to the
+  // ticket's owner like the ledger credits them rather than to whoever holds it now
+  const closedTickets = await prisma.ticket.findMany({
+    where: { status: 'closed', closedAt: { gte: period.start, lt: period.end } },
+    include: {
+      auditLogs: { orderBy: { createdAt: 'asc' } },
+      assignments: { orderBy: { createdAt: 'asc' } },
     },
-    _count: { id: true },
   });
+  const completedBy = new Map<string, number>();
+  for (const ticket of closedTickets) {
+    const owner = ticketOwner(ticket, now);
+    if (owner) completedBy.set(owner, (completedBy.get(owner) ?? 0) + 1);
+  }
 
-  const maxCompleted = Math.max(
-    ...allUserCounts.map((u) => u._count.id),
-    0
-  );
-
-  const userCompleted =
-    allUserCounts.find((u) => u.assignedUserId === userId)?._count.id ?? 0;
-
-  // Map to TicketHistory
-  const history: TicketHistory[] = tickets.map((ticket) => {
-    const events: TicketEventType[] = [];
-
-    // Track rejections: each needs_review → in_progress transition in audit log
-    const logs = ticket.auditLogs;
-    for (const log of logs) {
-      if (log.fromStatus === 'needs_review' && log.toStatus === 'in_progress') {
-        events.push('rejection');
-      }
-    }
-
-    // Submission event
-    if (ticket.status === 'closed' || ticket.status === 'needs_review') {
-      events.push('completed');
-    }
+  const maxCompleted = Math.max(...completedBy.values(), 0);
+  const userCompleted = completedBy.get(userId) ?? 0;
 
-    if (ticket.status === 'skipped') {
-      events.push('skipped');
-    }
-
-    const openedAt = ticket.createdAt;
-    const submittedLog = logs.find(
-      (l) => l.toStatus === 'needs_review'
-    );
-    const submittedAt = submittedLog?.createdAt;
-
-    return {
-      id: ticket.id,
-      severity: ticket.severity as Severity,
-      isRecurring: !!ticket.recurringTemplateId,
-      isInspection: ticket.isInspection,
-      openedAt,
-      submittedAt,
-      events,
-      wasSkipped: ticket.status === 'skipped',
-    };
-  });
+  const history: TicketHistory[] = tickets.flatMap((ticket) => buildTicketHistory(ticket, userId, now) ?? []);
+  const { version: policyVersion, policy } =
+    atPolicyVersion === undefined ? await getScoringPolicy() : await getScoringPolicyVersion(atPolicyVersion);
 
   const input: ScoringInput = {
     tickets: history,
     period,
     completedCount: userCompleted,
     maxCompletedByAnyUser: maxCompleted,
+    policy,
   };
 
   const breakdown = computeScore(input);
+  const adjustment = adjustmentFor(breakdown.ledger, await getAcceptedAdjustments(userId));
 
-  // Upsert ScoreRecord
-  const existing = await prisma.scoreRecord.findFirst({
-    where: {
+  return { history, policy, policyVersion, breakdown, adjustment };
+}
+
+function scoreFields(breakdown: ScoreBreakdown, adjustment: number) {
+  return {
+    qualityScore: breakdown.quality,
+    consistencyScore: breakdown.consistency,
+    speedScore: breakdown.speed,
+    volumeScore: breakdown.volume,
+    totalScore: breakdown.total,
+    ledger: breakdown.ledger as unknown as Prisma.InputJsonValue,
+    adjustment,
+  };
+}
+
+function snapshotKey(userId: string, periodType: ScorePeriodType, period: Period, status: ScoreStatus) {
+  return {
+    userId_periodType_periodStart_periodEnd_status: {
+      userId,
+      periodType,
+      periodStart: period.start,
+      periodEnd: period.end,
+      status,
+    },
+  };
+}
+
+async function upsertProvisional(userId: string, periodType: ScorePeriodType, period: Period, now: Date) {
+  const { breakdown, adjustment, policyVersion } = await computePeriodScore(userId, period, now);
+  return prisma.scoreRecord.upsert({
+    where: snapshotKey(userId, periodType, period, 'provisional'),
+    update: { ...scoreFields(breakdown, adjustment), policyVersion, computedAt: now },
+    create: {
       userId,
+      householdId: requireHouseholdId(),
+      periodType,
+      status: 'provisional',
       periodStart: period.start,
       periodEnd: period.end,
+      ...scoreFields(breakdown, adjustment),
+      policyVersion,
+      computedAt: now,
     },
   });
+}
+
+/**
+ * Compute and persist score for a user over an arbitrary period (see computePeriodScore).
+ * Saved as a custom, provisional record — never touches the automatic weekly/monthly snapshots.
+ */
+export async function computeAndSaveScore(userId: string, period: Period) {
+  return upsertProvisional(userId, 'custom', period, new Date());
+}
+
+/**
+ * Recompute the provisional snapshot of a week or month that is still open to change.
+ * Once the period has been finalized its snapshot is returned as is.
+ */
+export async function refreshProvisionalScore(userId: string, period: ScorePeriod, now: Date = new Date()) {
+  const finalized = await prisma.scoreRecord.findUnique({ where: snapshotKey(userId, period.type, period, 'finalized') });
+  if (finalized) return finalized;
+  return upsertProvisional(userId, period.type, period, now);
+}
 
-  if (existing) {
-    return prisma.scoreRecord.update({
-      where: { id: existing.id },
+/**
+ * Freeze a closed week or month: computes it one last time into a finalized snapshot and drops
+ * the provisional one. Finalized snapshots are immutable — finalizing again returns the stored one.
+ */
+export async function finalizeScore(userId: string, period: ScorePeriod, now: Date = new Date()) {
+  const existing = await prisma.scoreRecord.findUnique({ where: snapshotKey(userId, period.type, period, 'finalized') });
+  if (existing) return existing;
+
+  const { breakdown, adjustment, policyVersion } = await computePeriodScore(userId, period, now);
+  const [finalized] = await prisma.$transaction([
+    prisma.scoreRecord.create({
       data: {
-        qualityScore: breakdown.quality,
-        consistencyScore: breakdown.consistency,
-        speedScore: breakdown.speed,
-        volumeScore: breakdown.volume,
-        totalScore: breakdown.total,
-        computedAt: new Date(),
+        userId,
+        householdId: requireHouseholdId(),
+        periodType: period.type,
+        status: 'finalized',
+        periodStart: period.start,
+        periodEnd: period.end,
+        ...scoreFields(breakdown, adjustment),
+        policyVersion,
+        computedAt: now,
+        finalizedAt: now,
       },
-    });
+    }),
+    prisma.scoreRecord.deleteMany({
+      where: { userId, periodType: period.type, periodStart: period.start, periodEnd: period.end, status: 'provisional' },
+    }),
+  ]);
+  return finalized;
+}
+
+/**
+ * Scheduled pass over the current household: every employee gets the week and month that
+ * just closed finalized, and the running week and month refreshed. Safe to run repeatedly.
+ * Returns how many employees were scored.
+ */
+export async function updateScheduledScores(now: Date = new Date()): Promise<number> {
+  const employees = await prisma.user.findMany({ where: { role: 'employee' }, select: { id: true } });
+
+  for (const { id } of employees) {
+    for (const type of SCORE_PERIOD_TYPES) {
+      const current = periodContaining(type, now);
+      await finalizeScore(id, previousPeriod(current), now);
+      await refreshProvisionalScore(id, current, now);
+    }
   }
+  return employees.length;
+}
 
-  return prisma.scoreRecord.create({
-    data: {
-      userId,
-      periodStart: period.start,
-      periodEnd: period.end,
-      qualityScore: breakdown.quality,
-      consistencyScore: breakdown.consistency,
-      speedScore: breakdown.speed,
-      volumeScore: breakdown.volume,
-      totalScore: breakdown.total,
-    },
+// Events that can change someone's score: anything written to the ticket's audit log, or a new holder
+const SCORING_EVENTS = new Set<TicketEvent['type']>([
+  'ticket.created',
+  'ticket.transitioned',
+  'ticket.escalated',
+  'ticket.reassigned',
+  'ticket.deleted',
+]);
+
+/**
+ * Refresh the provisional week and month a ticket counts in, for the people it affects.
+ * Periods that have already closed are left to the scheduled pass.
+ */
+export async function handleTicketEventScores(event: TicketEvent, now: Date = new Date()): Promise<void> {
+  if (!SCORING_EVENTS.has(event.type)) return;
+
+  const users = [event.ticket.assignedUserId, event.fromUserId].filter((id): id is string => !!id);
+  const openedAt = event.ticket.createdAt ?? now;
+
+  for (const userId of new Set(users)) {
+    for (const type of SCORE_PERIOD_TYPES) {
+      const period = periodContaining(type, openedAt);
+      if (!isPeriodClosed(period, now)) {
+        await refreshProvisionalScore(userId, period, now);
+      }
+    }
+  }
+}
+
+// One refresh at a time, so two quick transitions never race on the same snapshot
+let refreshChain: Promise<void> = Promise.resolve();
+
+export function startScoreListener(): () => void {
+  return subscribeTicketEvents((event) => {
+    refreshChain = refreshChain.then(() =>
+      runWithHousehold(event.ticket.householdId, () => handleTicketEventScores(event)).catch((err) => {
+        console.error(`[Scores] Failed to refresh scores for ${event.type} on ticket ${event.ticket.id}:`, err);
+      })
+    );
   });
 }
 
 /**
- * Get the latest score record for a user.
+ * Get the latest score record for a user: the most recent week (still provisional while it
+ * runs), or the last record of any kind when no weekly snapshot exists yet.
  */
 export async function getLatestScore(userId: string) {
+  const weekly = await prisma.scoreRecord.findFirst({
+    where: { userId, periodType: 'weekly' },
+    orderBy: { periodStart: 'desc' },
+  });
+  if (weekly) return weekly;
+
   return prisma.scoreRecord.findFirst({
     where: { userId },
     orderBy: { computedAt: 'desc' },
@@ -149,3 +258,45 @@ export async function getScoreHistory(userId: string) {
     orderBy: { periodStart: 'desc' },
   });
 }
+
+export interface ScoreBreakdownLine extends ScoreLedgerEntry {
+  ticket: { id: string; title: string; area: string; severity: string } | null; // null for period-wide lines or a deleted ticket
+  dispute: { id: string; status: ScoreDisputeStatus; adjustment: number | null; resolutionNote: string | null } | null; // the latest one of this deduction
+}
+
+/**
+ * A stored score with its ledger, each line joined to the ticket it was charged for and to
+ * any dispute of it. Defaults to the latest score (see getLatestScore). Returns null when
+ * there is no such score.
+ */
+export async function getScoreBreakdown(userId: string, scoreId?: string) {
+  const score = scoreId
+    ? await prisma.scoreRecord.findFirst({ where: { id: scoreId, userId } })
+    : await getLatestScore(userId);
+  if (!score) return null;
+
+  const { ledger, ...record } = score;
+  const entries = ledger as unknown as ScoreLedgerEntry[];
+  const ticketIds = [...new Set(entries.flatMap((e) => e.ticketId ?? []))];
+  const [tickets, disputes] = await Promise.all([
+    prisma.ticket.findMany({
+      where: { id: { in: ticketIds } },
+      select: { id: true, title: true, area: true, severity: true },
+    }),
+    prisma.scoreDispute.findMany({
+      where: { userId, ticketId: { in: ticketIds } },
+      select: { id: true, ticketId: true, rule: true, status: true, adjustment: true, resolutionNote: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  const byId = new Map(tickets.map((t) => [t.id, t]));
+  // Later disputes of the same deduction replace earlier ones
+  const disputeOf = new Map(disputes.map(({ ticketId, rule, ...d }) => [`${ticketId}:${rule}`, d]));
+
+  const lines: ScoreBreakdownLine[] = entries.map((entry) => ({
+    ...entry,
+    ticket: entry.ticketId ? byId.get(entry.ticketId) ?? null : null,
+    dispute: entry.ticketId ? disputeOf.get(`${entry.ticketId}:${entry.rule}`) ?? null : null,
+  }));
+  return { score: record, lines };
+}
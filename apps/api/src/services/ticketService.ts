@@ -1,9 +1,24 @@
 import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
 import { validateTransition, TicketTransitionError } from '@household/domain';
-import { isRepeatIssue } from '@household/domain';
-import type { Ticket, TicketStatus, Severity, Role } from '@prisma/client';
+import {
+  isRepeatIssue,
+  normalizeChecklist,
+  uncheckedRequiredItems,
+  ChecklistError,
+  IncompleteChecklistError,
+  MissingEvidenceError,
+  validateRejection,
+  RejectionReasonError,
+} from '@household/domain';
+import type { ChecklistItemInput, RejectionReason } from '@household/domain';
+import { publishTicketEvent } from '../lib/eventBus';
+import { getWorkflow } from './workflowService';
+import { ticketEvidence } from './evidenceService';
+import { photoSelect, withPhotoUrls, storedPhotoSelect, removeStoredPhotos } from './photoService';
+import type { Ticket, Severity, Role } from '@prisma/client';
 
-export { TicketTransitionError };
+export { TicketTransitionError, ChecklistError, IncompleteChecklistError, MissingEvidenceError, RejectionReasonError };
 
 export interface CreateTicketInput {
   title: string;
@@ -15,16 +30,18 @@ export interface CreateTicketInput {
   assignedUserId?: string;
   recurringTemplateId?: string;
   dueAt?: Date;
+  checklist?: ChecklistItemInput[];
   createdById: string;
   creatorRole: string;
 }
 
 export interface TransitionTicketInput {
   ticketId: string;
-  toStatus: TicketStatus;
+  toStatus: string;
   actorId: string;
   actorRole: string;
   note?: string;
+  reason?: RejectionReason; // required when sending work back
 }
 
 /**
@@ -41,6 +58,7 @@ export async function createTicket(input: CreateTicketInput): Promise<Ticket> {
     assignedUserId,
     recurringTemplateId,
     dueAt,
+    checklist = [],
     createdById,
     creatorRole,
   } = input;
@@ -50,6 +68,16 @@ export async function createTicket(input: CreateTicketInput): Promise<Ticket> {
     throw new Error('Only mother or father may create immediate_interrupt tickets');
   }
 
+  const checklistItems = normalizeChecklist(checklist);
+
+  // The assignee must belong to the caller's household (lookup is tenant-scoped)
+  if (assignedUserId) {
+    const assignee = await prisma.user.findUnique({ where: { id: assignedUserId } });
+    if (!assignee) {
+      throw new Error(`Assigned user ${assignedUserId} not found`);
+    }
+  }
+
   // Repeat issue detection: check for same area+category closed within 7 days
   const recentClosed = await prisma.ticket.findMany({
     where: {
@@ -86,6 +114,8 @@ export async function createTicket(input: CreateTicketInput): Promise<Ticket> {
       createdById,
       recurringTemplateId,
       dueAt,
+      householdId: requireHouseholdId(),
+      checklistItems: { create: checklistItems.map((item, position) => ({ ...item, position })) },
     },
   });
 
@@ -100,21 +130,23 @@ export async function createTicket(input: CreateTicketInput): Promise<Ticket> {
     },
   });
 
+  publishTicketEvent('ticket.created', ticket, createdById);
+
   return ticket;
 }
 
 /**
  * Transitions a ticket to a new status.
- * Validates the transition using the domain state machine.
+ * Validates the transition using the domain state machine against the household's workflow.
  * Applies quality penalty on rejection (needs_review → in_progress).
- * Requires photos before needs_review transition.
+ * Requires the evidence policy's photos and every required checklist item before needs_review transition.
  */
 export async function transitionTicket(input: TransitionTicketInput): Promise<Ticket> {
-  const { ticketId, toStatus, actorId, actorRole, note } = input;
+  const { ticketId, toStatus, actorId, actorRole, note, reason } = input;
 
   const ticket = await prisma.ticket.findUnique({
     where: { id: ticketId },
-    include: { photos: true },
+    include: { photos: true, checklistItems: { orderBy: { position: 'asc' } } },
   });
 
   if (!ticket) {
@@ -122,62 +154,49 @@ export async function transitionTicket(input: TransitionTicketInput): Promise<Ti
   }
 
   // Validate via domain state machine
+  const workflow = await getWorkflow();
   const result = validateTransition(
-    ticket.status as import('@household/domain').TicketStatus,
-    toStatus as import('@household/domain').TicketStatus,
+    ticket.status,
+    toStatus,
     actorRole as import('@household/domain').Role,
     {
       id: ticket.id,
-      status: ticket.status as import('@household/domain').TicketStatus,
+      status: ticket.status,
       isRecurring: !!ticket.recurringTemplateId,
       severity: ticket.severity as import('@household/domain').Severity,
-    }
+    },
+    workflow
   );
 
-  // Photo requirement: needs_review requires at least one photo
+  // The employee has to know what to fix, and the report why work keeps coming back
+  const rejectionReason = result.isRejection ? validateRejection(reason, note) : undefined;
+
+  // Evidence requirement: the photos the household's policy asks for (one of any kind by default)
   if (toStatus === 'needs_review') {
-    const hasPhoto = ticket.photos.length > 0;
-    if (!hasPhoto) {
-      throw new Error(
-        'Cannot transition to needs_review: at least one photo is required before submitting for review'
-      );
+    const { missing } = await ticketEvidence(ticket);
+    if (missing.length > 0) {
+      throw new MissingEvidenceError(missing);
     }
 
-    // Inspection tickets require both before AND after photos
-    if (ticket.isInspection) {
-      const hasBefore = ticket.photos.some((p) => p.photoType === 'before');
-      const hasAfter = ticket.photos.some((p) => p.photoType === 'after');
-      if (!hasBefore || !hasAfter) {
-        throw new Error(
-          'Inspection tickets require both a before photo and an after photo before submission'
-        );
-      }
+    const unchecked = uncheckedRequiredItems(
+      ticket.checklistItems.map((i) => ({ label: i.label, required: i.required, checked: !!i.checkedAt }))
+    );
+    if (unchecked.length > 0) {
+      throw new IncompleteChecklistError(unchecked);
     }
   }
 
-  // Apply rejection penalty if this is a rejection
-  if (result.isRejection && ticket.assignedUserId) {
-    // Note: quality score is recomputed by scoringService on demand — just log it
-    await prisma.ticketAuditLog.create({
-      data: {
-        ticketId: ticket.id,
-        changedById: actorId,
-        fromStatus: ticket.status,
-        toStatus,
-        note: note ?? 'rejected',
-      },
-    });
-  } else {
-    await prisma.ticketAuditLog.create({
-      data: {
-        ticketId: ticket.id,
-        changedById: actorId,
-        fromStatus: ticket.status,
-        toStatus,
-        note,
-      },
-    });
-  }
+  // Rejections carry their reason; quality penalties are recomputed from the log by scoringService
+  await prisma.ticketAuditLog.create({
+    data: {
+      ticketId: ticket.id,
+      changedById: actorId,
+      fromStatus: ticket.status,
+      toStatus,
+      note,
+      reason: rejectionReason,
+    },
+  });
 
   const updated = await prisma.ticket.update({
     where: { id: ticketId },
@@ -187,11 +206,43 @@ export async function transitionTicket(input: TransitionTicketInput): Promise<Ti
     },
   });
 
+  publishTicketEvent('ticket.transitioned', updated, actorId, { fromStatus: ticket.status, note, reason: rejectionReason });
+
   return updated;
 }
 
+/**
+ * Permanently deletes a ticket and its dependent rows, in one transaction.
+ * Dependents go first because nothing cascades (audit log by design). The photos' stored
+ * bytes are removed once the rows are gone, so a rolled-back delete never loses a photo.
+ */
+export async function deleteTicket(ticketId: string, actorId: string): Promise<void> {
+  const ticket = await prisma.ticket.findUnique({ where: { id: ticketId } });
+  if (!ticket) return;
+
+  const photos = await prisma.ticketPhoto.findMany({ where: { ticketId }, select: storedPhotoSelect });
+
+  await prisma.$transaction([
+    prisma.ticketPhoto.deleteMany({ where: { ticketId } }),
+    prisma.ticketCommentMention.deleteMany({ where: { comment: { ticketId } } }),
+    prisma.ticketComment.deleteMany({ where: { ticketId } }),
+    prisma.ticketCommentRead.deleteMany({ where: { ticketId } }),
+    prisma.ticketAuditLog.deleteMany({ where: { ticketId } }),
+    prisma.recurringInstance.deleteMany({ where: { ticketId } }),
+    prisma.ticketEscalation.deleteMany({ where: { ticketId } }),
+    prisma.ticketChecklistItem.deleteMany({ where: { ticketId } }),
+    prisma.ticketAssignment.deleteMany({ where: { ticketId } }),
+    prisma.handoffRequest.deleteMany({ where: { ticketId } }),
+    prisma.ticket.delete({ where: { id: ticketId } }),
+  ]);
+
+  await removeStoredPhotos(photos);
+
+  publishTicketEvent('ticket.deleted', ticket, actorId);
+}
+
 export async function getTickets(filters: {
-  status?: TicketStatus;
+  status?: string;
   assignedUserId?: string;
   area?: string;
   requestorId: string;
@@ -210,12 +261,13 @@ export async function getTickets(filters: {
     where.assignedUserId = assignedUserId;
   }
 
-  return prisma.ticket.findMany({
+  const tickets = await prisma.ticket.findMany({
     where,
     include: {
       assignedUser: { select: { id: true, name: true, role: true, specialty: true } },
       createdBy: { select: { id: true, name: true, role: true } },
-      photos: true,
+      photos: { select: photoSelect, orderBy: { createdAt: 'asc' } },
+      checklistItems: { orderBy: { position: 'asc' } },
       recurringTemplate: { select: { frequency: true } },
     },
     orderBy: [
@@ -223,6 +275,9 @@ export async function getTickets(filters: {
       { createdAt: 'desc' },
     ],
   });
+
+  // Lists carry thumbnail URLs; full-size images are fetched only when opened
+  return tickets.map((t) => ({ ...t, photos: t.photos.map(withPhotoUrls) }));
 }
 
 export async function getTicketById(ticketId: string, requestorId: string, requestorRole: string) {
@@ -231,7 +286,8 @@ export async function getTicketById(ticketId: string, requestorId: string, reque
     include: {
       assignedUser: { select: { id: true, name: true, role: true, specialty: true } },
       createdBy: { select: { id: true, name: true, role: true } },
-      photos: true,
+      photos: { select: photoSelect, orderBy: { createdAt: 'asc' } },
+      checklistItems: { orderBy: { position: 'asc' } },
       auditLogs: {
         include: { changedBy: { select: { id: true, name: true, role: true } } },
         orderBy: { createdAt: 'asc' },
@@ -246,5 +302,5 @@ export async function getTicketById(ticketId: string, requestorId: string, reque
     return null;
   }
 
-  return ticket;
+  return { ...ticket, photos: ticket.photos.map(withPhotoUrls) };
 }
@@ -0,0 +1,60 @@
+import { prisma } from '../lib/prisma';
+import { requireHouseholdId } from '../lib/tenantContext';
+import {
+  validateWorkflowDefinition,
+  WorkflowDefinitionError,
+  DEFAULT_WORKFLOW,
+} from '@household/domain';
+import type { WorkflowDefinition } from '@household/domain';
+import { Prisma } from '@prisma/client';
+
+export { WorkflowDefinitionError };
+
+/**
+ * Returns the current household's workflow, or the built-in default when none is configured.
+ * A stored definition that no longer validates (e.g. hand-edited in the DB) falls back to the default.
+ */
+export async function getWorkflow(): Promise<WorkflowDefinition> {
+  const household = await prisma.household.findUnique({
+    where: { id: requireHouseholdId() },
+    select: { workflow: true },
+  });
+
+  if (!household?.workflow) return DEFAULT_WORKFLOW;
+
+  try {
+    return validateWorkflowDefinition(household.workflow);
+  } catch (err) {
+    console.error('[workflow] Stored workflow is invalid, using default:', err);
+    return DEFAULT_WORKFLOW;
+  }
+}
+
+/**
+ * Replaces the current household's workflow. Pass null to go back to the default.
+ * Refuses to drop a state that tickets are still in, so no ticket is stranded.
+ */
+export async function updateWorkflow(input: unknown | null): Promise<WorkflowDefinition> {
+  const workflow = input === null ? DEFAULT_WORKFLOW : validateWorkflowDefinition(input);
+  const keys = workflow.states.map((s) => s.key);
+
+  const stranded = await prisma.ticket.groupBy({
+    by: ['status'],
+    where: { status: { notIn: keys } },
+    _count: { _all: true },
+  });
+
+  if (stranded.length > 0) {
+    const detail = stranded.map((s) => `${s.status} (${s._count._all})`).join(', ');
+    throw new WorkflowDefinitionError(`Cannot remove states that tickets are still in: ${detail}.`);
+  }
+
+  await prisma.household.update({
+    where: { id: requireHouseholdId() },
+    data: {
+      workflow: input === null ? Prisma.DbNull : (workflow as unknown as Prisma.InputJsonValue),
+    },
+  });
+
+  return workflow;
+}
@@ -0,0 +1,13 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Test against domain sources so the package doesn't need building first
+    alias: { '@household/domain': path.resolve(__dirname, '../../packages/domain/src/index.ts') },
+  },
+  test: {
+    globals: true,
+    environment: 'node',
+  },
+});
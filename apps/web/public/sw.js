@@ -0,0 +1,46 @@
+// Service worker for Web Push. Shows urgent-task notifications even when no tab is open,
+// and focuses (or opens) the app when one is tapped.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { title: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'Household Tickets';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      tag: payload.tag,
+      renotify: Boolean(payload.tag),
+      // Urgent tasks stay on screen and buzz until the employee reacts
+      requireInteraction: Boolean(payload.urgent),
+      vibrate: payload.urgent ? [500, 200, 500, 200, 500] : undefined,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if ('focus' in client) return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
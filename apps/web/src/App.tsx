@@ -7,6 +7,8 @@ import { EmployeeDashboard } from './pages/EmployeeDashboard';
 import { AuthorityDashboard } from './pages/AuthorityDashboard';
 import { WeeklyReport } from './pages/WeeklyReport';
 import { ChatPage } from './pages/ChatPage';
+import { ReviewPage } from './pages/ReviewPage';
+import { ScoreBreakdownPage } from './pages/ScoreBreakdownPage';
 
 const queryClient = new QueryClient({
   defaultOptions: { queries: { retry: 1, staleTime: 30000 } },
@@ -30,6 +32,8 @@ function AppRoutes() {
       <Route path="/" element={<ProtectedRoute><DashboardRouter /></ProtectedRoute>} />
       <Route path="/report" element={<ProtectedRoute><WeeklyReport /></ProtectedRoute>} />
       <Route path="/chat" element={<ProtectedRoute><ChatPage /></ProtectedRoute>} />
+      <Route path="/review/:ticketId" element={<ProtectedRoute><ReviewPage /></ProtectedRoute>} />
+      <Route path="/scores/:userId" element={<ProtectedRoute><ScoreBreakdownPage /></ProtectedRoute>} />
     </Routes>
   );
 }
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import { useAllScores } from '../hooks/useScore';
+import { useWorkflow, isTerminalStatus } from '../hooks/useWorkflow';
+import { useAssignmentHistory, useReassignTicket, useRequestHandoff } from '../hooks/useAssignments';
+import type { Ticket } from '../hooks/useTickets';
+
+type Employee = { id: string; name: string };
+
+export function EmployeeSelect({ value, onChange, id }: { value: string; onChange: (v: string) => void; id?: string }) {
+  const { t } = useTranslation();
+  const { data: summaries = [] } = useAllScores();
+  const employees = summaries as Employee[];
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className="w-full border rounded-lg px-3 py-2 text-sm">
+      <option value="">{t('assignment.unassigned')}</option>
+      {employees.map((e) => (
+        <option key={e.id} value={e.id}>{e.name}</option>
+      ))}
+    </select>
+  );
+}
+
+function ReassignForm({ ticket }: { ticket: Ticket }) {
+  const { t } = useTranslation();
+  const reassign = useReassignTicket(ticket.id);
+  const [to, setTo] = useState(ticket.assignedUserId ?? '');
+  const [note, setNote] = useState('');
+  const unchanged = to === (ticket.assignedUserId ?? '');
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (unchanged) return;
+    reassign.mutate({ assignedUserId: to || null, note: note.trim() || undefined }, { onSuccess: () => setNote('') });
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <label className="block text-xs font-medium text-gray-600" htmlFor={`reassign-${ticket.id}`}>
+        {t('assignment.reassign')}
+      </label>
+      <EmployeeSelect id={`reassign-${ticket.id}`} value={to} onChange={setTo} />
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('assignment.noteOptional')}
+        className="w-full border rounded-lg px-3 py-2 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={unchanged || reassign.isPending}
+        className="w-full bg-blue-600 text-white text-sm font-medium py-2 rounded-lg disabled:opacity-50"
+      >
+        {t('assignment.save')}
+      </button>
+      {reassign.isError && <p className="text-xs text-red-600">{t('assignment.failed')}</p>}
+    </form>
+  );
+}
+
+function HandoffForm({ ticketId }: { ticketId: string }) {
+  const { t } = useTranslation();
+  const request = useRequestHandoff(ticketId);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="text-sm text-blue-600 font-medium">
+        {t('assignment.requestHandoff')}
+      </button>
+    );
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    request.mutate(reason.trim(), { onSuccess: () => { setOpen(false); setReason(''); } });
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+        maxLength={500}
+        autoFocus
+        placeholder={t('assignment.handoffReason')}
+        className="w-full border rounded-lg px-3 py-2 text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!reason.trim() || request.isPending}
+          className="flex-1 bg-blue-600 text-white text-sm font-medium py-2 rounded-lg disabled:opacity-50"
+        >
+          {t('assignment.sendRequest')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="flex-1 border border-gray-300 text-gray-700 text-sm font-medium py-2 rounded-lg"
+        >
+          {t('review.cancel')}
+        </button>
+      </div>
+      {request.isError && <p className="text-xs text-red-600">{t('assignment.failed')}</p>}
+    </form>
+  );
+}
+
+// Who has held the ticket, plus reassigning (authorities) or asking to hand it off (the assignee)
+export function AssignmentPanel({ ticket }: { ticket: Ticket }) {
+  const { t } = useTranslation();
+  const { user, isAuthority } = useAuth();
+  const workflow = useWorkflow();
+  const { data } = useAssignmentHistory(ticket.id);
+  const finished = isTerminalStatus(workflow, ticket.status);
+  const pending = data?.handoffRequests.find((r) => r.status === 'pending');
+  const isAssignee = !!user && ticket.assignedUserId === user.id;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-700">{t('assignment.title')}</h3>
+
+      {data && data.assignments.length > 0 && (
+        <ol className="space-y-1">
+          {data.assignments.map((a) => (
+            <li key={a.id} className="text-xs border-l-2 border-gray-200 pl-3">
+              <div className="text-gray-700">
+                {a.fromUser?.name ?? t('assignment.unassigned')} → {a.toUser?.name ?? t('assignment.unassigned')}
+              </div>
+              <div className="text-gray-400">{a.changedBy.name} · {new Date(a.createdAt).toLocaleString()}</div>
+              {a.note && <div className="text-gray-600 italic">“{a.note}”</div>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pending && (
+        <p className="text-xs rounded-lg bg-yellow-50 border border-yellow-200 px-3 py-2 text-yellow-800">
+          {t('assignment.pending', { name: pending.requestedBy.name, reason: pending.reason })}
+        </p>
+      )}
+
+      {!finished && isAuthority && <ReassignForm key={ticket.assignedUserId ?? ''} ticket={ticket} />}
+      {!finished && !isAuthority && isAssignee && !pending && <HandoffForm ticketId={ticket.id} />}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import { useToggleChecklistItem, uncheckedRequiredCount } from '../hooks/useTickets';
+import type { Ticket } from '../hooks/useTickets';
+import { useWorkflow, isTerminalStatus } from '../hooks/useWorkflow';
+import { PhotoUpload } from './PhotoUpload';
+
+interface Props {
+  ticket: Ticket;
+}
+
+export function Checklist({ ticket }: Props) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const workflow = useWorkflow();
+  const toggle = useToggleChecklistItem(ticket.id);
+
+  const items = ticket.checklistItems;
+  if (items.length === 0) return null;
+
+  const isAuthority = user?.role === 'mother' || user?.role === 'father';
+  // Frozen once submitted, the same rule the API enforces
+  const editable =
+    (isAuthority || ticket.assignedUserId === user?.id) &&
+    ticket.status !== 'needs_review' &&
+    !isTerminalStatus(workflow, ticket.status);
+  const done = items.filter((i) => i.checkedAt).length;
+  const remaining = uncheckedRequiredCount(ticket);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">{t('checklist.title')}</h3>
+        <span className="text-xs text-gray-400">{t('checklist.progress', { done, total: items.length })}</span>
+      </div>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id}>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!item.checkedAt}
+                disabled={!editable || toggle.isPending}
+                onChange={(e) => toggle.mutate({ itemId: item.id, checked: e.target.checked })}
+              />
+              <span className={item.checkedAt ? 'text-gray-400 line-through' : 'text-gray-800'}>{item.label}</span>
+              {!item.required && <span className="text-xs text-gray-400">{t('checklist.optional')}</span>}
+              {item.photoRequired && ticket.photos.some((p) => p.checklistItemId === item.id) && (
+                <span className="text-xs text-green-600">📷 ✓</span>
+              )}
+            </label>
+            {item.photoRequired && editable && !ticket.photos.some((p) => p.checklistItemId === item.id) && (
+              <div className="pl-6">
+                <PhotoUpload ticketId={ticket.id} photoType="completion" checklistItemId={item.id} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {editable && remaining > 0 && (
+        <p className="text-xs text-orange-600 mt-2">{t('checklist.remaining', { count: remaining })}</p>
+      )}
+    </div>
+  );
+}
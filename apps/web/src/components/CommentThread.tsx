@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import { useComments, useAddComment, useMarkCommentsRead } from '../hooks/useComments';
+import type { TicketComment } from '../hooks/useComments';
+import { formatDateTime } from '../lib/time';
+
+interface Props {
+  ticketId: string;
+}
+
+// Highlights @mentions that resolved to a user; unresolved tokens stay plain text
+function CommentBody({ comment }: { comment: TicketComment }) {
+  const names = comment.mentions.map((m) => m.name.split(/\s+/)[0].toLowerCase());
+  const parts = comment.body.split(/(@[\p{L}\p{N}._-]+)/u);
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {parts.map((part, i) =>
+        part.startsWith('@') && names.includes(part.slice(1).replace(/[._-]+$/, '').toLowerCase()) ? (
+          <span key={i} className="text-blue-600 font-medium">{part}</span>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
+
+export function CommentThread({ ticketId }: Props) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { data, isLoading } = useComments(ticketId);
+  const addComment = useAddComment(ticketId);
+  const markRead = useMarkCommentsRead(ticketId);
+  const [body, setBody] = useState('');
+
+  const unreadCount = data?.unreadCount ?? 0;
+
+  // Opening the thread marks everything in it as read
+  useEffect(() => {
+    if (unreadCount > 0) markRead.mutate();
+  }, [unreadCount]);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!body.trim()) return;
+    addComment.mutate(body, { onSuccess: () => setBody('') });
+  }
+
+  const comments = data?.comments ?? [];
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('comments.title')}</h3>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-400">{t('app.loading')}</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-gray-400">{t('comments.empty')}</p>
+      ) : (
+        <ul className="space-y-3 mb-3">
+          {comments.map((c) => (
+            <li key={c.id} className={`rounded-lg px-3 py-2 ${c.author.id === user?.id ? 'bg-blue-50' : 'bg-gray-50'}`}>
+              <div className="flex items-center justify-between mb-0.5">
+                <span className="text-xs font-semibold text-gray-700">{c.author.name}</span>
+                <span className="text-xs text-gray-400">{formatDateTime(c.createdAt)}</span>
+              </div>
+              <CommentBody comment={c} />
+              {c.author.id === user?.id && c.readBy.length > 0 && (
+                <p className="text-xs text-gray-400 mt-1">
+                  ✓ {t('comments.readBy', { names: c.readBy.map((r) => r.name).join(', ') })}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={t('comments.placeholder')}
+          maxLength={2000}
+          className="flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={addComment.isPending || !body.trim()}
+          className="bg-blue-600 text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('comments.send')}
+        </button>
+      </form>
+    </div>
+  );
+}
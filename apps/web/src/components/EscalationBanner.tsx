@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { subscribeTicketEvents, type TicketEvent } from '../lib/eventStream';
+
+// Authority-side notice for overdue tickets the escalation job has acted on.
+// Lives only in memory — the audit log is the durable record.
+export function EscalationBanner() {
+  const { t } = useTranslation();
+  const [escalations, setEscalations] = useState<TicketEvent[]>([]);
+
+  useEffect(
+    () =>
+      subscribeTicketEvents((event) => {
+        if (event.type !== 'ticket.escalated') return;
+        setEscalations((prev) => [event, ...prev.filter((e) => e.ticket.id !== event.ticket.id)]);
+      }),
+    []
+  );
+
+  if (escalations.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border-b border-red-200 px-6 py-2 space-y-1">
+      {escalations.map((event) => (
+        <div key={event.ticket.id} className="flex items-center justify-between text-sm text-red-700">
+          <span>
+            ⏰{' '}
+            {event.escalation?.action === 'raise_severity'
+              ? t('escalation.raised', {
+                  title: event.ticket.title,
+                  severity: t(`ticket.severity_label.${event.escalation.toSeverity}`),
+                })
+              : t('escalation.notified', {
+                  title: event.ticket.title,
+                  hours: event.escalation?.overdueHours ?? 0,
+                })}
+          </span>
+          <button
+            onClick={() => setEscalations((prev) => prev.filter((e) => e.ticket.id !== event.ticket.id))}
+            className="text-xs text-red-500 hover:text-red-700"
+          >
+            {t('escalation.dismiss')}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
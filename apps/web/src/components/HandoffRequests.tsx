@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { usePendingHandoffs, useResolveHandoff } from '../hooks/useAssignments';
+import type { HandoffRequest } from '../hooks/useAssignments';
+import { EmployeeSelect } from './AssignmentPanel';
+import { formatDate } from '../lib/time';
+
+function HandoffRow({ request }: { request: HandoffRequest }) {
+  const { t } = useTranslation();
+  const resolve = useResolveHandoff();
+  const [to, setTo] = useState('');
+
+  return (
+    <li className="py-3 flex items-start justify-between gap-4 flex-wrap">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900">{request.ticket?.title}</p>
+        <p className="text-xs text-gray-500">
+          {request.requestedBy.name} · {formatDate(request.createdAt)}
+        </p>
+        <p className="text-xs text-gray-600 italic mt-1">“{request.reason}”</p>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="w-44">
+          <EmployeeSelect value={to} onChange={setTo} />
+        </div>
+        <button
+          onClick={() => resolve.mutate({ id: request.id, approve: true, assignedUserId: to || null })}
+          disabled={resolve.isPending || to === request.requestedBy.id}
+          className="text-xs bg-green-600 text-white px-2 py-1 rounded disabled:opacity-50"
+        >
+          {t('assignment.approve')}
+        </button>
+        <button
+          onClick={() => resolve.mutate({ id: request.id, approve: false })}
+          disabled={resolve.isPending}
+          className="text-xs bg-gray-500 text-white px-2 py-1 rounded disabled:opacity-50"
+        >
+          {t('assignment.decline')}
+        </button>
+      </div>
+      {resolve.isError && <p className="text-xs text-red-600 w-full">{t('assignment.failed')}</p>}
+    </li>
+  );
+}
+
+// Authority dashboard panel; renders nothing when no one is waiting
+export function HandoffRequests() {
+  const { t } = useTranslation();
+  const { data: requests = [] } = usePendingHandoffs();
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm px-5 py-3 mb-4 border border-yellow-200">
+      <h2 className="text-sm font-semibold text-gray-700">{t('assignment.handoffsTitle', { count: requests.length })}</h2>
+      <ul className="divide-y">
+        {requests.map((r) => <HandoffRow key={r.id} request={r} />)}
+      </ul>
+    </div>
+  );
+}
@@ -1,22 +1,47 @@
 import { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { Ticket } from '../hooks/useTickets';
+import { subscribeTicketEvents } from '../lib/eventStream';
+import { useWorkflow, isTerminalStatus } from '../hooks/useWorkflow';
 
 interface Props {
   ticket: Ticket;
   onAcknowledge: () => void;
 }
 
+function vibrate() {
+  // Vibrate if available (mobile devices)
+  if ('vibrate' in navigator) {
+    navigator.vibrate([500, 200, 500, 200, 500]);
+  }
+}
+
 export function InterruptAlert({ ticket, onAcknowledge }: Props) {
   const { t } = useTranslation();
+  const workflow = useWorkflow();
 
   useEffect(() => {
-    // Vibrate if available (mobile devices)
-    if ('vibrate' in navigator) {
-      navigator.vibrate([500, 200, 500, 200, 500]);
-    }
+    vibrate();
   }, []);
 
+  useEffect(
+    () =>
+      subscribeTicketEvents((event) => {
+        // Another interrupt arrived while this one is on screen — buzz again
+        if (event.type === 'ticket.created' && event.ticket.severity === 'immediate_interrupt' && event.ticket.id !== ticket.id) {
+          vibrate();
+        }
+        // The parent deleted or resolved this ticket — nothing left to acknowledge
+        if (
+          event.ticket.id === ticket.id &&
+          (event.type === 'ticket.deleted' || isTerminalStatus(workflow, event.ticket.status))
+        ) {
+          onAcknowledge();
+        }
+      }),
+    [ticket.id, onAcknowledge, workflow]
+  );
+
   return (
     <div className="fixed inset-0 bg-red-600 z-50 flex flex-col items-center justify-center text-white p-8">
       <div className="text-6xl mb-6 animate-bounce">🚨</div>
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  type NotificationPreferences,
+} from '../hooks/useNotificationPreferences';
+import { useCalendarFeed, useCreateCalendarFeed, useRevokeCalendarFeed } from '../hooks/useCalendarFeed';
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from '../lib/push';
+
+interface Props {
+  onClose: () => void;
+}
+
+type Kind = Exclude<keyof NotificationPreferences, 'emailEnabled'>;
+
+// Escalations and the digest only go to authorities
+const EMPLOYEE_KINDS: Kind[] = ['ticketAssigned', 'ticketRejected', 'immediateInterrupt'];
+const AUTHORITY_KINDS: Kind[] = ['ticketAssigned', 'immediateInterrupt', 'escalations', 'dailyDigest'];
+
+export function NotificationSettings({ onClose }: Props) {
+  const { t, i18n } = useTranslation();
+  const { isAuthority } = useAuth();
+  const { data: prefs } = useNotificationPreferences();
+  const update = useUpdateNotificationPreferences();
+
+  const { data: calendar } = useCalendarFeed();
+  const createFeed = useCreateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+  const [copied, setCopied] = useState(false);
+
+  const kinds = isAuthority ? AUTHORITY_KINDS : EMPLOYEE_KINDS;
+
+  // Push is per device, so its state lives in the browser rather than in preferences
+  const [pushOn, setPushOn] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+  const [pushError, setPushError] = useState(false);
+
+  useEffect(() => {
+    getPushSubscription().then((s) => setPushOn(!!s)).catch(() => {});
+  }, []);
+
+  async function togglePush(enabled: boolean) {
+    setPushBusy(true);
+    setPushError(false);
+    try {
+      if (enabled) {
+        const ok = await enablePush();
+        setPushOn(ok);
+        setPushError(!ok);
+      } else {
+        await disablePush();
+        setPushOn(false);
+      }
+    } finally {
+      setPushBusy(false);
+    }
+  }
+
+  async function copyFeedUrl(url: string) {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <h2 className="text-lg font-bold text-gray-900">{t('notifications.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">×</button>
+        </div>
+
+        {!prefs ? (
+          <p className="text-sm text-gray-400">{t('app.loading')}</p>
+        ) : (
+          <div className="space-y-3">
+            <label className="flex items-center justify-between text-sm font-medium text-gray-900">
+              {t('notifications.emailEnabled')}
+              <input
+                type="checkbox"
+                checked={prefs.emailEnabled}
+                onChange={(e) => update.mutate({ emailEnabled: e.target.checked })}
+                className="rounded"
+              />
+            </label>
+            <div className={`border-t pt-3 space-y-2 ${prefs.emailEnabled ? '' : 'opacity-50'}`}>
+              {kinds.map((kind) => (
+                <label key={kind} className="flex items-center justify-between text-sm text-gray-700">
+                  {t(`notifications.${kind}`)}
+                  <input
+                    type="checkbox"
+                    checked={prefs[kind]}
+                    disabled={!prefs.emailEnabled}
+                    onChange={(e) => update.mutate({ [kind]: e.target.checked })}
+                    className="rounded"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isPushSupported() && (
+          <div className="border-t mt-4 pt-3">
+            <label className="flex items-center justify-between text-sm font-medium text-gray-900">
+              {t('notifications.pushThisDevice')}
+              <input
+                type="checkbox"
+                checked={pushOn}
+                disabled={pushBusy}
+                onChange={(e) => togglePush(e.target.checked)}
+                className="rounded"
+              />
+            </label>
+            <p className="text-xs text-gray-400 mt-1">{t('notifications.pushHint')}</p>
+            {pushError && <p className="text-xs text-red-600 mt-1">{t('notifications.pushUnavailable')}</p>}
+          </div>
+        )}
+
+        <div className="border-t mt-4 pt-3 space-y-2">
+          <p className="text-sm font-medium text-gray-900">{t('notifications.calendarTitle')}</p>
+          <p className="text-xs text-gray-400">{t('notifications.calendarHint')}</p>
+
+          {/* The link is only returned when it is created, so it can't be shown again later */}
+          {createFeed.data && (
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={createFeed.data}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-2 py-1 bg-gray-50"
+                />
+                <button
+                  onClick={() => copyFeedUrl(createFeed.data)}
+                  className="text-xs px-2 py-1 rounded bg-gray-900 text-white"
+                >
+                  {copied ? t('notifications.calendarCopied') : t('notifications.calendarCopy')}
+                </button>
+              </div>
+              <p className="text-xs text-amber-700">{t('notifications.calendarShownOnce')}</p>
+            </div>
+          )}
+
+          {calendar?.active && !createFeed.data && calendar.createdAt && (
+            <p className="text-xs text-gray-600">
+              {t('notifications.calendarActive', {
+                date: new Date(calendar.createdAt).toLocaleDateString(i18n.language),
+              })}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setCopied(false);
+                createFeed.mutate();
+              }}
+              disabled={createFeed.isPending}
+              className="text-xs px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {calendar?.active ? t('notifications.calendarRegenerate') : t('notifications.calendarCreate')}
+            </button>
+            {calendar?.active && (
+              <button
+                onClick={() => {
+                  createFeed.reset();
+                  revokeFeed.mutate();
+                }}
+                disabled={revokeFeed.isPending}
+                className="text-xs px-3 py-1.5 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                {t('notifications.calendarRevoke')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useTranslation } from 'react-i18next';
+import { photoUrl } from '../hooks/useTickets';
+import type { Ticket, PhotoFlag } from '../hooks/useTickets';
+import { formatDate } from '../lib/time';
+
+interface Props {
+  ticket: Ticket;
+  flags: PhotoFlag[];
+}
+
+// Why photos on this ticket deserve a second look; renders nothing when none do
+export function PhotoFlags({ ticket, flags }: Props) {
+  const { t } = useTranslation();
+  if (flags.length === 0) return null;
+
+  const photoTypeOf = (photoId: string) => {
+    const type = ticket.photos.find((p) => p.id === photoId)?.photoType ?? 'completion';
+    return t(`ticket.photoType.${type}`);
+  };
+
+  return (
+    <div className="rounded-lg bg-red-50 border border-red-200 px-3 py-2">
+      <p className="text-xs font-medium text-red-700">{t('evidence.flagsTitle')}</p>
+      <ul className="text-xs text-red-700 list-disc pl-4 mt-1">
+        {flags.map((f) =>
+          f.kind === 'captured_before_ticket' ? (
+            <li key={`${f.kind}-${f.photoId}`}>
+              {t('evidence.capturedBefore', { type: photoTypeOf(f.photoId), date: formatDate(f.capturedAt) })}
+            </li>
+          ) : (
+            <li key={`${f.kind}-${f.photoId}`}>
+              {t('evidence.nearDuplicate', { type: photoTypeOf(f.photoId) })}{' '}
+              <a href={photoUrl(f.matchPhotoId)} target="_blank" rel="noreferrer" className="underline">
+                {t('evidence.viewMatch')}
+              </a>
+            </li>
+          )
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -2,13 +2,16 @@ import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import client from '../api/client';
 
+export type PhotoType = 'before' | 'after' | 'completion' | 'receipt';
+
 interface Props {
   ticketId: string;
-  photoType: 'before' | 'after' | 'completion';
+  photoType: PhotoType;
+  checklistItemId?: string; // attaches the photo to one checklist step
   onUploaded?: (url: string) => void;
 }
 
-export function PhotoUpload({ ticketId, photoType, onUploaded }: Props) {
+export function PhotoUpload({ ticketId, photoType, checklistItemId, onUploaded }: Props) {
   const { t } = useTranslation();
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -24,6 +27,7 @@ export function PhotoUpload({ ticketId, photoType, onUploaded }: Props) {
     formData.append('photo', file);
     formData.append('ticketId', ticketId);
     formData.append('photoType', photoType);
+    if (checklistItemId) formData.append('checklistItemId', checklistItemId);
 
     try {
       const res = await client.post('/photos/upload', formData, {
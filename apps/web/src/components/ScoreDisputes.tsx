@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useScoreDisputes, useResolveDispute } from '../hooks/useScoreDisputes';
+import type { ScoreDispute } from '../hooks/useScoreDisputes';
+import { formatDate } from '../lib/time';
+
+function DisputeRow({ dispute }: { dispute: ScoreDispute }) {
+  const { t } = useTranslation();
+  const resolve = useResolveDispute();
+  const deducted = -dispute.disputedPoints;
+  const [points, setPoints] = useState(deducted);
+  const [note, setNote] = useState('');
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900">{dispute.ticket?.title ?? t('breakdown.ticketGone')}</p>
+          <p className="text-xs text-gray-500">
+            {dispute.user.name} · {t(`dispute.rule.${dispute.rule}`)} · {formatDate(dispute.createdAt)}
+          </p>
+          <p className="text-xs text-gray-600 italic mt-1">“{dispute.reason}”</p>
+        </div>
+        <span className="font-mono font-semibold text-red-600 text-sm">−{deducted}</span>
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          {t('dispute.giveBack')}
+          <input
+            type="number"
+            min={0}
+            max={deducted}
+            value={Number.isNaN(points) ? '' : points}
+            onChange={(e) => setPoints(e.target.valueAsNumber)}
+            className="w-16 border rounded px-2 py-1 text-xs text-right"
+          />
+        </label>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t('dispute.note')}
+          maxLength={500}
+          className="flex-1 min-w-40 border rounded px-2 py-1 text-xs"
+        />
+        <button
+          onClick={() => resolve.mutate({ id: dispute.id, accept: true, adjustment: points, note: note.trim() || undefined })}
+          disabled={resolve.isPending || !(points > 0 && points <= deducted)}
+          className="text-xs bg-green-600 text-white px-2 py-1 rounded disabled:opacity-50"
+        >
+          {t('dispute.accept')}
+        </button>
+        <button
+          onClick={() => resolve.mutate({ id: dispute.id, accept: false, note: note.trim() })}
+          disabled={resolve.isPending || !note.trim()}
+          title={t('dispute.declineNeedsNote')}
+          className="text-xs bg-gray-500 text-white px-2 py-1 rounded disabled:opacity-50"
+        >
+          {t('dispute.decline')}
+        </button>
+      </div>
+      {resolve.isError && <p className="text-xs text-red-600">{t('dispute.failed')}</p>}
+    </li>
+  );
+}
+
+// Scores tab panel; renders nothing when no dispute is waiting
+export function ScoreDisputes() {
+  const { t } = useTranslation();
+  const { data: disputes = [] } = useScoreDisputes('pending');
+  if (disputes.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm px-5 py-3 border border-yellow-200">
+      <h2 className="text-sm font-semibold text-gray-700">{t('dispute.title', { count: disputes.length })}</h2>
+      <ul className="divide-y">
+        {disputes.map((d) => <DisputeRow key={d.id} dispute={d} />)}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { REJECTION_REASONS } from '../hooks/useTickets';
+import {
+  useScoringPolicy,
+  useUpdateScoringPolicy,
+  SEVERITIES,
+  type ScoringPolicy,
+  type VersionedScoringPolicy,
+} from '../hooks/useScoringPolicy';
+
+function NumberField({ label, value, onChange, step = 1 }: { label: string; value: number; onChange: (v: number) => void; step?: number }) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-600">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isNaN(value) ? '' : value}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        className="w-20 border rounded-lg px-2 py-1 text-sm text-right"
+      />
+    </label>
+  );
+}
+
+function PolicyForm({ current }: { current: VersionedScoringPolicy }) {
+  const { t } = useTranslation();
+  const update = useUpdateScoringPolicy();
+  const [draft, setDraft] = useState<ScoringPolicy>(current.policy);
+
+  const set = <K extends keyof ScoringPolicy>(key: K, value: ScoringPolicy[K]) => setDraft((d) => ({ ...d, [key]: value }));
+  const setIn = <K extends 'rejectionPenalty' | 'severityMultiplier' | 'deadlineHours'>(key: K, sub: string, value: number) =>
+    setDraft((d) => ({ ...d, [key]: { ...d[key], [sub]: value } }));
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    update.mutate(draft);
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-2">
+        <NumberField label={t('scoringPolicy.skipPenalty')} value={draft.skipPenalty} onChange={(v) => set('skipPenalty', v)} />
+        <NumberField label={t('scoringPolicy.lateDayPenalty')} value={draft.lateDayPenalty} onChange={(v) => set('lateDayPenalty', v)} />
+        <NumberField label={t('scoringPolicy.perfectBonus')} value={draft.perfectBonus} onChange={(v) => set('perfectBonus', v)} />
+        <NumberField label={t('scoringPolicy.perfectBonusMinTickets')} value={draft.perfectBonusMinTickets} onChange={(v) => set('perfectBonusMinTickets', v)} />
+        <label className="flex items-center justify-between gap-3 text-sm text-gray-600">
+          <span>{t('scoringPolicy.scoreFloor')}</span>
+          <input
+            type="number"
+            value={draft.scoreFloor ?? ''}
+            placeholder={t('scoringPolicy.noFloor')}
+            onChange={(e) => set('scoreFloor', e.target.value === '' ? null : e.target.valueAsNumber)}
+            className="w-20 border rounded-lg px-2 py-1 text-sm text-right"
+          />
+        </label>
+      </div>
+
+      <fieldset>
+        <legend className="text-xs font-semibold text-gray-500 uppercase mb-2">{t('scoringPolicy.rejectionPenalty')}</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-2">
+          {REJECTION_REASONS.map((reason) => (
+            <NumberField key={reason} label={t(`rejection.${reason}`)} value={draft.rejectionPenalty[reason]} onChange={(v) => setIn('rejectionPenalty', reason, v)} />
+          ))}
+          <NumberField label={t('scoringPolicy.unclassified')} value={draft.unclassifiedRejectionPenalty} onChange={(v) => set('unclassifiedRejectionPenalty', v)} />
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-xs font-semibold text-gray-500 uppercase mb-2">{t('scoringPolicy.bySeverity')}</legend>
+        <div className="grid grid-cols-3 gap-2 text-xs text-gray-500">
+          <span />
+          <span className="text-right">{t('scoringPolicy.deadlineHours')}</span>
+          <span className="text-right">{t('scoringPolicy.multiplier')}</span>
+          {SEVERITIES.map((s) => (
+            <SeverityRow
+              key={s}
+              label={t(`ticket.severity_label.${s}`)}
+              hours={draft.deadlineHours[s]}
+              multiplier={draft.severityMultiplier[s]}
+              onHours={(v) => setIn('deadlineHours', s, v)}
+              onMultiplier={(v) => setIn('severityMultiplier', s, v)}
+            />
+          ))}
+        </div>
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={update.isPending}
+        className="bg-blue-600 text-white text-sm font-medium px-4 py-2 rounded-lg disabled:opacity-50"
+      >
+        {t('scoringPolicy.save')}
+      </button>
+      {update.isError && <p className="text-xs text-red-600">{t('scoringPolicy.failed')}</p>}
+    </form>
+  );
+}
+
+function SeverityRow({ label, hours, multiplier, onHours, onMultiplier }: {
+  label: string;
+  hours: number;
+  multiplier: number;
+  onHours: (v: number) => void;
+  onMultiplier: (v: number) => void;
+}) {
+  const input = (value: number, onChange: (v: number) => void, step: number) => (
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(e.target.valueAsNumber)}
+      className="border rounded-lg px-2 py-1 text-sm text-right"
+    />
+  );
+  return (
+    <>
+      <span className="text-sm text-gray-600 self-center">{label}</span>
+      {input(hours, onHours, 1)}
+      {input(multiplier, onMultiplier, 0.1)}
+    </>
+  );
+}
+
+// The household's scoring rules; saving creates a new version used from the next score computation
+export function ScoringPolicyEditor() {
+  const { t } = useTranslation();
+  const { data } = useScoringPolicy();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50"
+      >
+        <span className="font-semibold text-gray-900">{t('scoringPolicy.title')}</span>
+        <span className="text-gray-400 text-sm">{data && t('scoringPolicy.version', { version: data.version })}</span>
+      </button>
+      {open && data && (
+        <div className="px-4 pb-4 border-t pt-4 space-y-3">
+          <p className="text-xs text-gray-500">{t('scoringPolicy.hint')}</p>
+          {/* Remount after a save so the form starts from what was stored */}
+          <PolicyForm key={data.version} current={data} />
+        </div>
+      )}
+    </div>
+  );
+}
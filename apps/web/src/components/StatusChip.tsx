@@ -1,4 +1,5 @@
 import { useTranslation } from 'react-i18next';
+import { useWorkflow, workflowLabel } from '../hooks/useWorkflow';
 
 interface Props {
   status: string;
@@ -14,11 +15,12 @@ const STATUS_CLASSES: Record<string, string> = {
 
 export function StatusChip({ status }: Props) {
   const { t } = useTranslation();
+  const workflow = useWorkflow();
   return (
     <span
-      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[status] ?? 'bg-gray-100 text-gray-700'}`}
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[status] ?? 'bg-purple-100 text-purple-700'}`}
     >
-      {t(`ticket.status.${status}`, { defaultValue: status })}
+      {t(`ticket.status.${status}`, { defaultValue: workflowLabel(workflow, status) })}
     </span>
   );
 }
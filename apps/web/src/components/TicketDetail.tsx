@@ -0,0 +1,106 @@
+import { useTranslation } from 'react-i18next';
+import { useTicketEvidence, usePhotoFlags, photoUrl } from '../hooks/useTickets';
+import type { Ticket } from '../hooks/useTickets';
+import { useAuth } from '../contexts/AuthContext';
+import { SeverityBadge } from './SeverityBadge';
+import { StatusChip } from './StatusChip';
+import { CommentThread } from './CommentThread';
+import { Checklist } from './Checklist';
+import { PhotoFlags } from './PhotoFlags';
+import { AssignmentPanel } from './AssignmentPanel';
+import { formatDate, formatTimeRemaining } from '../lib/time';
+
+interface Props {
+  ticket: Ticket;
+  onClose: () => void;
+}
+
+export function TicketDetail({ ticket, onClose }: Props) {
+  const { t } = useTranslation();
+  const { isAuthority } = useAuth();
+  const { data: evidence } = useTicketEvidence(ticket.id);
+  const { data: flags = [] } = usePhotoFlags(ticket.id, isAuthority && ticket.photos.length > 0);
+  const stillWorking = ticket.status === 'open' || ticket.status === 'in_progress';
+  const flagged = new Set(flags.map((f) => f.photoId));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-2">
+          <h2 className="text-lg font-bold text-gray-900">{ticket.title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">×</button>
+        </div>
+        <div className="flex items-center gap-2 mb-3 flex-wrap">
+          <StatusChip status={ticket.status} />
+          <SeverityBadge severity={ticket.severity} />
+          {ticket.isRepeatIssue && <span className="text-xs text-orange-600">⚠️ Repeat</span>}
+        </div>
+        <p className="text-sm text-gray-600 whitespace-pre-wrap mb-2">{ticket.description}</p>
+        <p className="text-xs text-gray-400">{ticket.area} › {ticket.category}</p>
+        <div className="flex gap-3 mt-1 text-xs flex-wrap">
+          <span className="text-gray-400">Created {formatDate(ticket.createdAt)}</span>
+          {ticket.assignedUser && <span className="text-gray-500">→ {ticket.assignedUser.name}</span>}
+          {ticket.dueAt && (
+            <span className={formatTimeRemaining(ticket.dueAt).color}>
+              {formatDate(ticket.dueAt)} · {formatTimeRemaining(ticket.dueAt).text}
+            </span>
+          )}
+        </div>
+
+        {ticket.photos.length > 0 && (
+          <div className="flex gap-2 mt-4 overflow-x-auto">
+            {ticket.photos.map((p) => (
+              <a key={p.id} href={photoUrl(p.id)} target="_blank" rel="noreferrer" className="shrink-0">
+                <img
+                  src={photoUrl(p.id, 'thumb')}
+                  loading="lazy"
+                  alt={p.photoType}
+                  className={`h-20 w-20 object-cover rounded-lg ${flagged.has(p.id) ? 'border-2 border-red-500' : 'border'}`}
+                />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {flags.length > 0 && (
+          <div className="mt-4">
+            <PhotoFlags ticket={ticket} flags={flags} />
+          </div>
+        )}
+
+        {stillWorking && evidence && evidence.missing.length > 0 && (
+          <div className="mt-4 rounded-lg bg-orange-50 border border-orange-200 px-3 py-2">
+            <p className="text-xs font-medium text-orange-700">{t('evidence.needed')}</p>
+            <ul className="text-xs text-orange-700 list-disc pl-4 mt-1">
+              {evidence.missing.map((m) => <li key={m}>{m}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {ticket.checklistItems.length > 0 && (
+          <div className="border-t mt-4 pt-4">
+            <Checklist ticket={ticket} />
+          </div>
+        )}
+
+        <div className="border-t mt-4 pt-4">
+          <AssignmentPanel ticket={ticket} />
+        </div>
+
+        <div className="border-t mt-4 pt-4">
+          <CommentThread ticketId={ticket.id} />
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-4 w-full border border-gray-300 text-gray-700 py-2 rounded-lg text-sm font-medium hover:bg-gray-50"
+        >
+          {t('comments.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+import { subscribeTicketEvents } from '../lib/eventStream';
+
+export interface AssignmentUser {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface TicketAssignment {
+  id: string;
+  fromUser: AssignmentUser | null;
+  toUser: AssignmentUser | null;
+  changedBy: AssignmentUser;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface HandoffRequest {
+  id: string;
+  ticketId: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'declined';
+  requestedBy: AssignmentUser;
+  resolvedBy?: AssignmentUser | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  ticket?: { id: string; title: string; area: string; category: string; severity: string; dueAt: string | null };
+}
+
+// Keyed under ['ticket', id] so live ticket events refresh it too
+export function useAssignmentHistory(ticketId: string) {
+  return useQuery({
+    queryKey: ['ticket', ticketId, 'assignments'],
+    queryFn: async () => {
+      const res = await client.get(`/tickets/${ticketId}/assignments`);
+      return res.data.data as { assignments: TicketAssignment[]; handoffRequests: HandoffRequest[] };
+    },
+    enabled: !!ticketId,
+  });
+}
+
+export function useReassignTicket(ticketId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ assignedUserId, note }: { assignedUserId: string | null; note?: string }) => {
+      const res = await client.post(`/tickets/${ticketId}/assignments`, { assignedUserId, note });
+      return res.data.data.ticket;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['tickets'] });
+      qc.invalidateQueries({ queryKey: ['ticket', ticketId] });
+      qc.invalidateQueries({ queryKey: ['handoffs'] });
+    },
+  });
+}
+
+export function useRequestHandoff(ticketId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (reason: string) => {
+      const res = await client.post('/handoffs', { ticketId, reason });
+      return res.data.data.request as HandoffRequest;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['ticket', ticketId] });
+    },
+  });
+}
+
+// Authority only — handoff requests still waiting for an answer
+export function usePendingHandoffs() {
+  const qc = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeTicketEvents((event) => {
+        if (event.type === 'ticket.handoff_requested' || event.type === 'ticket.reassigned') {
+          qc.invalidateQueries({ queryKey: ['handoffs'] });
+        }
+      }),
+    [qc]
+  );
+
+  return useQuery({
+    queryKey: ['handoffs'],
+    queryFn: async () => {
+      const res = await client.get('/handoffs');
+      return res.data.data.requests as HandoffRequest[];
+    },
+  });
+}
+
+export function useResolveHandoff() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, approve, assignedUserId }: { id: string; approve: boolean; assignedUserId?: string | null }) => {
+      const res = await client.post(`/handoffs/${id}/${approve ? 'approve' : 'decline'}`, approve ? { assignedUserId } : {});
+      return res.data.data.request as HandoffRequest;
+    },
+    onSuccess: (request) => {
+      qc.invalidateQueries({ queryKey: ['handoffs'] });
+      qc.invalidateQueries({ queryKey: ['tickets'] });
+      qc.invalidateQueries({ queryKey: ['ticket', request.ticketId] });
+    },
+  });
+}
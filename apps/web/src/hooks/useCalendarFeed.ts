@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+// The API returns a path under its own base; calendar apps need the absolute URL
+function feedUrl(path: string): string {
+  return new URL(`${client.defaults.baseURL}${path}`, window.location.origin).href;
+}
+
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: ['calendarFeed'],
+    queryFn: async () => {
+      const res = await client.get('/calendar/token');
+      return res.data.data as CalendarFeedStatus;
+    },
+  });
+}
+
+/** Issues a new feed URL (revoking the old one) and returns it — it is only shown this once. */
+export function useCreateCalendarFeed() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await client.post('/calendar/token');
+      return feedUrl(res.data.data.path as string);
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['calendarFeed'] });
+    },
+  });
+}
+
+export function useRevokeCalendarFeed() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      await client.delete('/calendar/token');
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['calendarFeed'] });
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+
+export interface CommentUser {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface TicketComment {
+  id: string;
+  ticketId: string;
+  body: string;
+  createdAt: string;
+  author: CommentUser;
+  mentions: CommentUser[];
+  readBy: CommentUser[];
+}
+
+export function useComments(ticketId: string) {
+  return useQuery({
+    queryKey: ['comments', ticketId],
+    queryFn: async () => {
+      const res = await client.get(`/tickets/${ticketId}/comments`);
+      return res.data.data as { comments: TicketComment[]; unreadCount: number };
+    },
+    enabled: !!ticketId,
+  });
+}
+
+export function useAddComment(ticketId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (body: string) => {
+      const res = await client.post(`/tickets/${ticketId}/comments`, { body });
+      return res.data.data.comment as TicketComment;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['comments', ticketId] });
+    },
+  });
+}
+
+export function useMarkCommentsRead(ticketId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      await client.post(`/tickets/${ticketId}/comments/read`);
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['comments', ticketId] });
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+
+export interface NotificationPreferences {
+  emailEnabled: boolean;
+  ticketAssigned: boolean;
+  ticketRejected: boolean;
+  immediateInterrupt: boolean;
+  escalations: boolean;
+  dailyDigest: boolean;
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notificationPreferences'],
+    queryFn: async () => {
+      const res = await client.get('/notifications/preferences');
+      return res.data.data.preferences as NotificationPreferences;
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (changes: Partial<NotificationPreferences>) => {
+      const res = await client.put('/notifications/preferences', changes);
+      return res.data.data.preferences as NotificationPreferences;
+    },
+    onSuccess: (preferences) => {
+      qc.setQueryData(['notificationPreferences'], preferences);
+    },
+  });
+}
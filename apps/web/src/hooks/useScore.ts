@@ -21,3 +21,41 @@ export function useAllScores() {
     },
   });
 }
+
+export type ScoreRule = 'rejection' | 'skipped' | 'late' | 'perfect_bonus' | 'score_floor';
+
+// Mirrors ScoreLedgerEntry in packages/domain/src/scoringEngine.ts, joined to its ticket
+export interface ScoreLine {
+  ticketId: string | null;
+  rule: ScoreRule;
+  points: number;
+  reason?: string | null;
+  days?: number;
+  ticket: { id: string; title: string; area: string; severity: string } | null;
+  dispute: { id: string; status: 'pending' | 'accepted' | 'declined'; adjustment: number | null; resolutionNote: string | null } | null;
+}
+
+export interface ScoreBreakdown {
+  score: {
+    id: string;
+    periodStart: string;
+    periodEnd: string;
+    periodType: 'weekly' | 'monthly' | 'custom';
+    status: 'provisional' | 'finalized';
+    totalScore: number;
+    adjustment: number; // given back by accepted disputes
+    policyVersion: number;
+  };
+  lines: ScoreLine[];
+}
+
+export function useScoreBreakdown(userId: string, scoreId?: string) {
+  return useQuery({
+    queryKey: ['score', userId, 'breakdown', scoreId ?? 'latest'],
+    queryFn: async () => {
+      const res = await client.get(`/scores/${userId}/breakdown`, { params: { scoreId } });
+      return res.data.data as ScoreBreakdown;
+    },
+    enabled: !!userId,
+  });
+}
@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+
+export type DisputableRule = 'rejection' | 'skipped' | 'late';
+export type DisputeStatus = 'pending' | 'accepted' | 'declined';
+
+export const DISPUTABLE_RULES: DisputableRule[] = ['rejection', 'skipped', 'late'];
+
+export interface ScoreDispute {
+  id: string;
+  userId: string;
+  ticketId: string;
+  rule: DisputableRule;
+  disputedPoints: number; // negative
+  periodStart: string;
+  periodEnd: string;
+  reason: string;
+  status: DisputeStatus;
+  adjustment: number | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  user: { id: string; name: string };
+  resolvedBy: { id: string; name: string } | null;
+  ticket: { id: string; title: string; area: string } | null;
+  events: Array<{
+    id: string;
+    action: 'opened' | 'accepted' | 'declined';
+    note: string | null;
+    adjustment: number | null;
+    createdAt: string;
+    actor: { id: string; name: string };
+  }>;
+}
+
+export function useScoreDisputes(status?: DisputeStatus) {
+  return useQuery({
+    queryKey: ['score-disputes', status ?? 'all'],
+    queryFn: async () => {
+      const res = await client.get('/score-disputes', { params: { status } });
+      return res.data.data.disputes as ScoreDispute[];
+    },
+  });
+}
+
+export function useOpenDispute() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: { scoreId: string; ticketId: string; rule: DisputableRule; reason: string }) => {
+      const res = await client.post('/score-disputes', input);
+      return res.data.data.dispute as ScoreDispute;
+    },
+    onSuccess: (dispute) => {
+      qc.invalidateQueries({ queryKey: ['score-disputes'] });
+      qc.invalidateQueries({ queryKey: ['score', dispute.userId] });
+    },
+  });
+}
+
+export function useResolveDispute() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, accept, adjustment, note }: { id: string; accept: boolean; adjustment?: number; note?: string }) => {
+      const res = await client.post(`/score-disputes/${id}/${accept ? 'accept' : 'decline'}`, accept ? { adjustment, note } : { note });
+      return res.data.data.dispute as ScoreDispute;
+    },
+    onSuccess: (dispute) => {
+      qc.invalidateQueries({ queryKey: ['score-disputes'] });
+      qc.invalidateQueries({ queryKey: ['score', dispute.userId] });
+      qc.invalidateQueries({ queryKey: ['scores'] });
+    },
+  });
+}
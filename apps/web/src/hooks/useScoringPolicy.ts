@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import client from '../api/client';
+import type { RejectionReason } from './useTickets';
+
+export type Severity = 'minor' | 'needs_fix_today' | 'immediate_interrupt';
+
+// Mirrors ScoringPolicy in packages/domain/src/scoringPolicy.ts
+export interface ScoringPolicy {
+  rejectionPenalty: Record<RejectionReason, number>;
+  unclassifiedRejectionPenalty: number;
+  skipPenalty: number;
+  lateDayPenalty: number;
+  severityMultiplier: Record<Severity, number>;
+  deadlineHours: Record<Severity, number>;
+  perfectBonus: number;
+  perfectBonusMinTickets: number;
+  scoreFloor: number | null;
+}
+
+export interface VersionedScoringPolicy {
+  version: number; // 0 = built-in default
+  policy: ScoringPolicy;
+  createdAt: string | null;
+  createdBy: { id: string; name: string } | null;
+}
+
+export const SEVERITIES: Severity[] = ['minor', 'needs_fix_today', 'immediate_interrupt'];
+
+export function useScoringPolicy() {
+  return useQuery({
+    queryKey: ['scoring-policy'],
+    queryFn: async () => {
+      const res = await client.get('/scoring-policy');
+      return res.data.data as VersionedScoringPolicy;
+    },
+  });
+}
+
+export function useUpdateScoringPolicy() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (policy: ScoringPolicy) => {
+      const res = await client.put('/scoring-policy', { policy });
+      return res.data.data as VersionedScoringPolicy;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['scoring-policy'] });
+      qc.invalidateQueries({ queryKey: ['report'] });
+    },
+  });
+}
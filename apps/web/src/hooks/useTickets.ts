@@ -1,5 +1,15 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import client from '../api/client';
+import { subscribeTicketEvents } from '../lib/eventStream';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  photoRequired: boolean;
+  checkedAt: string | null;
+}
 
 export interface Ticket {
   id: string;
@@ -13,13 +23,33 @@ export interface Ticket {
   isRepeatIssue: boolean;
   assignedUserId?: string;
   assignedUser?: { id: string; name: string; specialty?: string };
-  photos: Array<{ id: string; url: string; photoType: string }>;
+  photos: Array<{ id: string; url: string; photoType: string; checklistItemId?: string | null; capturedAt?: string | null }>;
+  checklistItems: ChecklistItem[];
   recurringTemplate?: { frequency: string } | null;
   createdAt: string;
   dueAt?: string;
 }
 
+// Photos are served by the API, which checks the viewer may see the ticket.
+// Lists show thumbnails; the full image loads only when opened.
+export function photoUrl(photoId: string, size: 'original' | 'medium' | 'thumb' = 'original'): string {
+  const base = `${client.defaults.baseURL}/photos/${photoId}`;
+  return size === 'original' ? base : `${base}?size=${size}`;
+}
+
 export function useTickets(filters?: { status?: string; assignedUserId?: string; area?: string }) {
+  const qc = useQueryClient();
+
+  // Live updates: refetch as soon as the server reports a change instead of waiting for staleTime
+  useEffect(
+    () =>
+      subscribeTicketEvents((event) => {
+        qc.invalidateQueries({ queryKey: ['tickets'] });
+        qc.invalidateQueries({ queryKey: ['ticket', event.ticket.id] });
+      }),
+    [qc]
+  );
+
   return useQuery({
     queryKey: ['tickets', filters],
     queryFn: async () => {
@@ -40,15 +70,82 @@ export function useTicket(id: string) {
   });
 }
 
+export interface TicketEvidence {
+  policy: { photos: Array<{ photoType: string; min: number }> };
+  missing: string[];
+}
+
+// Keyed under ['ticket', id] so live ticket events refresh it too
+export function useTicketEvidence(id: string) {
+  return useQuery({
+    queryKey: ['ticket', id, 'evidence'],
+    queryFn: async () => {
+      const res = await client.get(`/tickets/${id}/evidence`);
+      return res.data.data as TicketEvidence;
+    },
+    enabled: !!id,
+  });
+}
+
+export type PhotoFlag =
+  | { kind: 'captured_before_ticket'; photoId: string; capturedAt: string }
+  | { kind: 'near_duplicate'; photoId: string; matchPhotoId: string; matchTicketId: string; distance: number };
+
+// Authority only — the server refuses employees
+export function usePhotoFlags(id: string, enabled = true) {
+  return useQuery({
+    queryKey: ['ticket', id, 'photo-flags'],
+    queryFn: async () => {
+      const res = await client.get(`/tickets/${id}/photo-flags`);
+      return res.data.data as PhotoFlag[];
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+export interface AuditEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  reason: RejectionReason | null;
+  createdAt: string;
+  changedBy: { id: string; name: string; role: string } | null; // null = the system
+}
+
+// Authority only
+export function useTicketAudit(id: string) {
+  return useQuery({
+    queryKey: ['ticket', id, 'audit'],
+    queryFn: async () => {
+      const res = await client.get(`/tickets/${id}/audit`);
+      return res.data.data.auditLogs as AuditEntry[];
+    },
+    enabled: !!id,
+  });
+}
+
+// Tickets waiting for an authority, oldest first — the order the review screen walks them in
+export function reviewQueue(tickets: Ticket[]): Ticket[] {
+  return tickets
+    .filter((t) => t.status === 'needs_review')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+// Same catalogue as the API; 'other' needs a note
+export const REJECTION_REASONS = ['incomplete', 'poor_quality', 'wrong_area', 'missing_evidence', 'damage', 'other'] as const;
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
 export function useTransitionTicket() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async ({ id, status, note }: { id: string; status: string; note?: string }) => {
-      const res = await client.patch(`/tickets/${id}/status`, { status, note });
+    mutationFn: async ({ id, status, note, reason }: { id: string; status: string; note?: string; reason?: RejectionReason }) => {
+      const res = await client.patch(`/tickets/${id}/status`, { status, note, reason });
       return res.data.data.ticket;
     },
-    onSuccess: () => {
+    onSuccess: (_ticket, { id }) => {
       qc.invalidateQueries({ queryKey: ['tickets'] });
+      qc.invalidateQueries({ queryKey: ['ticket', id] });
     },
   });
 }
@@ -77,6 +174,7 @@ export function useCreateTicket() {
       isInspection?: boolean;
       assignedUserId?: string;
       dueAt?: string;
+      checklist?: Array<{ label: string; required?: boolean; photoRequired?: boolean }>;
     }) => {
       const res = await client.post('/tickets', data);
       return res.data.data.ticket;
@@ -86,3 +184,22 @@ export function useCreateTicket() {
     },
   });
 }
+
+export function useToggleChecklistItem(ticketId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ itemId, checked }: { itemId: string; checked: boolean }) => {
+      const res = await client.patch(`/tickets/${ticketId}/checklist/${itemId}`, { checked });
+      return res.data.data.item as ChecklistItem;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['tickets'] });
+      qc.invalidateQueries({ queryKey: ['ticket', ticketId] });
+    },
+  });
+}
+
+// Required items still unchecked — submitting for review is refused until this is zero
+export function uncheckedRequiredCount(ticket: Ticket): number {
+  return ticket.checklistItems.filter((i) => i.required && !i.checkedAt).length;
+}
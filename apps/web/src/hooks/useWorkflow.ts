@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import client from '../api/client';
+
+export interface WorkflowState {
+  key: string;
+  label?: string;
+  terminal?: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  authorityOnly?: boolean;
+}
+
+export interface Workflow {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+// Statuses with built-in meaning; the dashboards already have dedicated buttons for them
+export const CORE_STATUSES = ['open', 'in_progress', 'needs_review', 'closed', 'skipped'];
+
+// Mirrors the default graph in @household/domain so the UI renders before the fetch resolves
+export const DEFAULT_WORKFLOW: Workflow = {
+  states: [
+    { key: 'open' },
+    { key: 'in_progress' },
+    { key: 'needs_review' },
+    { key: 'closed', terminal: true },
+    { key: 'skipped', terminal: true },
+  ],
+  transitions: [
+    { from: 'open', to: 'in_progress' },
+    { from: 'open', to: 'skipped', authorityOnly: true },
+    { from: 'in_progress', to: 'needs_review' },
+    { from: 'in_progress', to: 'skipped', authorityOnly: true },
+    { from: 'needs_review', to: 'closed', authorityOnly: true },
+    { from: 'needs_review', to: 'in_progress', authorityOnly: true },
+  ],
+};
+
+export function useWorkflow() {
+  const query = useQuery({
+    queryKey: ['workflow'],
+    queryFn: async () => {
+      const res = await client.get('/workflow');
+      return res.data.data.workflow as Workflow;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+  return query.data ?? DEFAULT_WORKFLOW;
+}
+
+// Household-defined states have no translation; callers use this as the i18n defaultValue
+export function workflowLabel(workflow: Workflow, status: string): string {
+  return workflow.states.find((s) => s.key === status)?.label ?? status;
+}
+
+export function isTerminalStatus(workflow: Workflow, status: string): boolean {
+  return workflow.states.find((s) => s.key === status)?.terminal ?? false;
+}
+
+/**
+ * Transitions into or out of household-defined states that the given role may take.
+ * Core-to-core moves are left to the dashboards' dedicated buttons.
+ */
+export function customTransitions(workflow: Workflow, from: string, role: string | undefined): WorkflowTransition[] {
+  const isAuthority = role === 'mother' || role === 'father';
+  return workflow.transitions.filter(
+    (t) =>
+      t.from === from &&
+      (!CORE_STATUSES.includes(t.from) || !CORE_STATUSES.includes(t.to)) &&
+      (isAuthority || !t.authorityOnly)
+  );
+}
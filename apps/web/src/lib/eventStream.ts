@@ -0,0 +1,79 @@
+import client from '../api/client';
+
+// Shared SSE connection to /api/events. Opened on first subscriber, closed after the last one leaves,
+// so every hook on the page shares a single connection.
+
+export type TicketEventType =
+  | 'ticket.created'
+  | 'ticket.transitioned'
+  | 'ticket.deleted'
+  | 'ticket.escalated'
+  | 'ticket.reassigned'
+  | 'ticket.handoff_requested'
+  | 'photo.uploaded';
+
+export interface TicketEvent {
+  type: TicketEventType;
+  ticket: {
+    id: string;
+    title: string;
+    description: string;
+    status: string;
+    severity: 'minor' | 'needs_fix_today' | 'immediate_interrupt';
+    area: string;
+    category: string;
+    assignedUserId: string | null;
+  };
+  actorId: string;
+  fromStatus?: string;
+  fromUserId?: string | null;
+  photoId?: string;
+  escalation?: {
+    action: 'raise_severity' | 'notify_authorities';
+    fromSeverity: string;
+    toSeverity?: string | null;
+    overdueHours: number;
+  };
+  at: string;
+}
+
+const EVENT_TYPES: TicketEventType[] = [
+  'ticket.created',
+  'ticket.transitioned',
+  'ticket.deleted',
+  'ticket.escalated',
+  'ticket.reassigned',
+  'ticket.handoff_requested',
+  'photo.uploaded',
+];
+
+type Listener = (event: TicketEvent) => void;
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+
+function open() {
+  source = new EventSource(`${client.defaults.baseURL}/events`, { withCredentials: true });
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as TicketEvent;
+      listeners.forEach((l) => l(event));
+    });
+  }
+}
+
+export function subscribeTicketEvents(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!source) open();
+
+  return () => {
+    listeners.delete(listener);
+    // Deferred so an effect re-running (unsubscribe → subscribe) doesn't drop the connection
+    setTimeout(() => {
+      if (listeners.size === 0 && source) {
+        source.close();
+        source = null;
+      }
+    }, 0);
+  };
+}
@@ -0,0 +1,58 @@
+import client from '../api/client';
+
+// Web Push on this device: registers /sw.js and keeps the server's PushSubscription row in sync.
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+export function registerServiceWorker(): void {
+  if (!isPushSupported()) return;
+  navigator.serviceWorker.register('/sw.js').catch((err) => {
+    console.error('Service worker registration failed:', err);
+  });
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function urlBase64ToBytes(base64: string): ArrayBuffer {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0)).buffer;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Asks for notification permission, subscribes this browser and registers it with the API.
+ * Returns false when the user declined or the server has push disabled.
+ */
+export async function enablePush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+  if ((await Notification.requestPermission()) !== 'granted') return false;
+
+  const res = await client.get('/push/vapid-public-key').catch(() => null);
+  const publicKey: string | undefined = res?.data.data.publicKey;
+  if (!publicKey) return false;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToBytes(publicKey),
+    }));
+
+  await client.post('/push/subscriptions', subscription.toJSON());
+  return true;
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await client.delete('/push/subscriptions', { data: { endpoint: subscription.endpoint } }).catch(() => {});
+  await subscription.unsubscribe();
+}
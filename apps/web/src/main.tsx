@@ -4,6 +4,7 @@ import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import LanguageDetector from 'i18next-browser-languagedetector';
 import App from './App';
+import { registerServiceWorker } from './lib/push';
 import './index.css';
 
 import en from './i18n/en.json';
@@ -25,6 +26,8 @@ i18n
     interpolation: { escapeValue: false },
   });
 
+registerServiceWorker();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
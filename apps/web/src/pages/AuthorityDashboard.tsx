@@ -2,17 +2,23 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../contexts/AuthContext';
-import { useTickets, useTransitionTicket, useCreateTicket, useDeleteTicket, type Ticket } from '../hooks/useTickets';
+import { useTickets, useTransitionTicket, useCreateTicket, useDeleteTicket, reviewQueue, type Ticket } from '../hooks/useTickets';
 import { formatTimeRemaining, formatDate } from '../lib/time';
 import { SeverityBadge } from '../components/SeverityBadge';
 import { StatusChip } from '../components/StatusChip';
+import { TicketDetail } from '../components/TicketDetail';
+import { HandoffRequests } from '../components/HandoffRequests';
+import { EscalationBanner } from '../components/EscalationBanner';
+import { NotificationSettings } from '../components/NotificationSettings';
+import { ScoringPolicyEditor } from '../components/ScoringPolicyEditor';
+import { ScoreDisputes } from '../components/ScoreDisputes';
 import { useAllScores } from '../hooks/useScore';
+import { useWorkflow, workflowLabel, customTransitions } from '../hooks/useWorkflow';
 
 type SortKey = 'title' | 'status' | 'severity' | 'assignedUser' | 'createdAt' | 'dueAt';
 type SortDir = 'asc' | 'desc';
 
 const SEVERITY_ORDER = { minor: 0, needs_fix_today: 1, immediate_interrupt: 2 };
-const STATUS_ORDER = { open: 0, in_progress: 1, needs_review: 2, closed: 3, skipped: 4 };
 
 // Area options with specialty mapping for assignment suggestions
 const AREA_OPTIONS = [
@@ -40,11 +46,13 @@ const CATEGORY_OPTIONS = [
   { value: 'errand',      label: '📦 Errand / Other', specialty: null },
 ];
 
-function sortTickets(tickets: Ticket[], key: SortKey, dir: SortDir): Ticket[] {
+// Status sort follows the order states are listed in the household workflow
+function sortTickets(tickets: Ticket[], key: SortKey, dir: SortDir, statusOrder: string[]): Ticket[] {
+  const statusRank = (status: string) => Math.max(statusOrder.indexOf(status), 0);
   return [...tickets].sort((a, b) => {
     let cmp = 0;
     if (key === 'title') cmp = a.title.localeCompare(b.title);
-    else if (key === 'status') cmp = (STATUS_ORDER[a.status as keyof typeof STATUS_ORDER] ?? 0) - (STATUS_ORDER[b.status as keyof typeof STATUS_ORDER] ?? 0);
+    else if (key === 'status') cmp = statusRank(a.status) - statusRank(b.status);
     else if (key === 'severity') cmp = (SEVERITY_ORDER[a.severity] ?? 0) - (SEVERITY_ORDER[b.severity] ?? 0);
     else if (key === 'assignedUser') cmp = (a.assignedUser?.name ?? '').localeCompare(b.assignedUser?.name ?? '');
     else if (key === 'createdAt') cmp = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -58,9 +66,9 @@ function sortTickets(tickets: Ticket[], key: SortKey, dir: SortDir): Ticket[] {
   });
 }
 
-const EMPTY_FORM = { title: '', description: '', area: '', category: '', severity: 'minor', assignedUserId: '', isInspection: false, dueAt: '' };
+const EMPTY_FORM = { title: '', description: '', area: '', category: '', severity: 'minor', assignedUserId: '', isInspection: false, dueAt: '', checklist: '' };
 
-type Employee = { id: string; name: string; specialty?: string; role: string; latestScore?: { totalScore: number; qualityScore: number; consistencyScore: number; speedScore: number; volumeScore: number } };
+type Employee = { id: string; name: string; specialty?: string; role: string; latestScore?: { totalScore: number; qualityScore: number; consistencyScore: number; speedScore: number; volumeScore: number; adjustment: number } };
 
 export function AuthorityDashboard() {
   const { t, i18n } = useTranslation();
@@ -70,6 +78,7 @@ export function AuthorityDashboard() {
   const transition = useTransitionTicket();
   const createTicket = useCreateTicket();
   const deleteTicket = useDeleteTicket();
+  const workflow = useWorkflow();
 
   const [statusFilter, setStatusFilter] = useState('');
   const [tab, setTab] = useState<'tickets' | 'scores' | 'team'>('tickets');
@@ -77,6 +86,8 @@ export function AuthorityDashboard() {
   const [sortDir, setSortDir] = useState<SortDir>('asc');
   const [showCreate, setShowCreate] = useState(false);
   const [form, setForm] = useState(EMPTY_FORM);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [showNotifications, setShowNotifications] = useState(false);
 
   const employees = scoreSummaries as Employee[];
 
@@ -88,8 +99,11 @@ export function AuthorityDashboard() {
     ? employees.filter((e) => e.specialty?.toLowerCase() === suggestedSpecialty.toLowerCase())
     : [];
 
+  const detailTicket = detailId ? tickets.find((t) => t.id === detailId) : undefined;
+  const queue = reviewQueue(tickets);
+
   const filtered = statusFilter ? tickets.filter((t) => t.status === statusFilter) : tickets;
-  const sorted = sortTickets(filtered, sortKey, sortDir);
+  const sorted = sortTickets(filtered, sortKey, sortDir, workflow.states.map((s) => s.key));
 
   function handleSort(key: SortKey) {
     if (sortKey === key) setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
@@ -107,12 +121,15 @@ export function AuthorityDashboard() {
 
   function handleCreate(e: React.FormEvent) {
     e.preventDefault();
-    const { dueAt, ...rest } = form;
+    const { dueAt, checklist, ...rest } = form;
+    // One required step per non-empty line
+    const steps = checklist.split('\n').map((line) => line.trim()).filter(Boolean);
     createTicket.mutate(
       {
         ...rest,
         assignedUserId: rest.assignedUserId || undefined,
         dueAt: dueAt ? new Date(dueAt).toISOString() : undefined,
+        checklist: steps.length > 0 ? steps.map((label) => ({ label })) : undefined,
       },
       { onSuccess: () => { setShowCreate(false); setForm(EMPTY_FORM); } }
     );
@@ -123,8 +140,14 @@ export function AuthorityDashboard() {
       <header className="bg-white shadow-sm px-6 py-3 flex items-center justify-between">
         <h1 className="font-bold text-lg text-gray-900">{t('app.title')}</h1>
         <div className="flex items-center gap-3">
+          {queue.length > 0 && (
+            <Link to={`/review/${queue[0].id}`} className="text-sm text-green-700 font-medium">
+              {t('review.queue', { count: queue.length })}
+            </Link>
+          )}
           <Link to="/report" className="text-sm text-blue-600 font-medium">{t('nav.report')}</Link>
           <Link to="/chat" className="text-sm text-blue-600 font-medium">{t('nav.chat')}</Link>
+          <button onClick={() => setShowNotifications(true)} className="text-sm" title={t('notifications.title')}>🔔</button>
           <button
             onClick={() => i18n.changeLanguage(i18n.language === 'en' ? 'es' : 'en')}
             className="text-sm font-medium text-gray-600 border rounded-full px-3 py-1"
@@ -135,6 +158,8 @@ export function AuthorityDashboard() {
         </div>
       </header>
 
+      <EscalationBanner />
+
       <div className="bg-white border-b px-6 flex gap-4">
         {(['tickets', 'team', 'scores'] as const).map((t2) => (
           <button
@@ -151,15 +176,17 @@ export function AuthorityDashboard() {
         {/* ── TICKETS TAB ── */}
         {tab === 'tickets' && (
           <>
+            <HandoffRequests />
+
             <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
               <div className="flex gap-2 flex-wrap">
-                {['', 'open', 'in_progress', 'needs_review', 'closed', 'skipped'].map((s) => (
+                {['', ...workflow.states.map((state) => state.key)].map((s) => (
                   <button
                     key={s}
                     onClick={() => setStatusFilter(s)}
                     className={`px-3 py-1 rounded-full text-sm font-medium border ${statusFilter === s ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300'}`}
                   >
-                    {s ? t(`ticket.status.${s}`) : 'All'}
+                    {s ? t(`ticket.status.${s}`, { defaultValue: workflowLabel(workflow, s) }) : 'All'}
                   </button>
                 ))}
               </div>
@@ -204,7 +231,12 @@ export function AuthorityDashboard() {
                       <tr key={ticket.id} className="hover:bg-gray-50">
                         <td className="px-4 py-3">
                           <div>
-                            <span className="font-medium text-gray-900">{ticket.title}</span>
+                            <button
+                              onClick={() => setDetailId(ticket.id)}
+                              className="font-medium text-gray-900 hover:text-blue-600 text-left"
+                            >
+                              {ticket.title}
+                            </button>
                             {ticket.isRepeatIssue && <span className="ml-2 text-xs text-orange-600">⚠️ Repeat</span>}
                             <p className="text-xs text-gray-400">{ticket.area} › {ticket.category}</p>
                           </div>
@@ -226,21 +258,24 @@ export function AuthorityDashboard() {
                         <td className="px-4 py-3">
                           <div className="flex gap-2 flex-wrap">
                             {ticket.status === 'needs_review' && (
-                              <>
-                                <button
-                                  onClick={() => handleTransition(ticket.id, 'closed')}
-                                  className="text-xs bg-green-600 text-white px-2 py-1 rounded"
-                                >
-                                  {t('ticket.close')}
-                                </button>
-                                <button
-                                  onClick={() => handleTransition(ticket.id, 'in_progress', 'rejected')}
-                                  className="text-xs bg-red-500 text-white px-2 py-1 rounded"
-                                >
-                                  {t('ticket.reject')}
-                                </button>
-                              </>
+                              <Link
+                                to={`/review/${ticket.id}`}
+                                className="text-xs bg-green-600 text-white px-2 py-1 rounded"
+                              >
+                                {t('review.open')}
+                              </Link>
                             )}
+                            {customTransitions(workflow, ticket.status, user?.role).map((tr) => (
+                              <button
+                                key={tr.to}
+                                onClick={() => handleTransition(ticket.id, tr.to)}
+                                className="text-xs bg-purple-600 text-white px-2 py-1 rounded"
+                              >
+                                {t('ticket.moveTo', {
+                                  status: t(`ticket.status.${tr.to}`, { defaultValue: workflowLabel(workflow, tr.to) }),
+                                })}
+                              </button>
+                            ))}
                             {user?.role === 'mother' && (
                               <button
                                 onClick={() => { if (confirm('Delete this ticket permanently?')) deleteTicket.mutate(ticket.id); }}
@@ -321,38 +356,51 @@ export function AuthorityDashboard() {
 
         {/* ── SCORES TAB ── */}
         {tab === 'scores' && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {employees.map((emp) => {
-              const s = emp.latestScore;
-              return (
-                <div key={emp.id} className="bg-white rounded-xl shadow-sm p-4">
-                  <h3 className="font-semibold text-gray-900">{emp.name}</h3>
-                  {emp.specialty && <p className="text-xs text-gray-400 mb-3 capitalize">{emp.specialty}</p>}
-                  {s ? (
-                    <div className="text-sm">
-                      <div className="flex justify-between items-center">
-                        <span className="text-gray-500">{t('score.total')}</span>
-                        <span className={`text-2xl font-bold ${s.totalScore >= 100 ? 'text-green-600' : s.totalScore >= 80 ? 'text-blue-600' : s.totalScore >= 60 ? 'text-yellow-600' : 'text-red-600'}`}>
-                          {s.totalScore.toFixed(0)}
-                        </span>
-                      </div>
-                      <div className="mt-1 text-xs text-gray-400 space-y-0.5">
-                        {s.qualityScore < 0 && <p>Rejections: <span className="text-red-500">{s.qualityScore.toFixed(0)} pts</span></p>}
-                        {s.consistencyScore < 0 && <p>Skips: <span className="text-red-500">{s.consistencyScore.toFixed(0)} pts</span></p>}
-                        {s.speedScore < 0 && <p>Late: <span className="text-red-500">{s.speedScore.toFixed(0)} pts</span></p>}
-                        {s.volumeScore > 0 && <p>Perfect bonus: <span className="text-green-500">+{s.volumeScore.toFixed(0)} pts</span></p>}
+          <div className="space-y-4">
+            <ScoringPolicyEditor />
+            <ScoreDisputes />
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {employees.map((emp) => {
+                const s = emp.latestScore;
+                // Accepted disputes give points back alongside the computed total
+                const adjusted = s ? s.totalScore + s.adjustment : 0;
+                return (
+                  <div key={emp.id} className="bg-white rounded-xl shadow-sm p-4">
+                    <h3 className="font-semibold text-gray-900">{emp.name}</h3>
+                    {emp.specialty && <p className="text-xs text-gray-400 mb-3 capitalize">{emp.specialty}</p>}
+                    {s ? (
+                      <div className="text-sm">
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-500">{t('score.total')}</span>
+                          <span className={`text-2xl font-bold ${adjusted >= 100 ? 'text-green-600' : adjusted >= 80 ? 'text-blue-600' : adjusted >= 60 ? 'text-yellow-600' : 'text-red-600'}`}>
+                            {adjusted.toFixed(0)}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-xs text-gray-400 space-y-0.5">
+                          {s.qualityScore < 0 && <p>Rejections: <span className="text-red-500">{s.qualityScore.toFixed(0)} pts</span></p>}
+                          {s.consistencyScore < 0 && <p>Skips: <span className="text-red-500">{s.consistencyScore.toFixed(0)} pts</span></p>}
+                          {s.speedScore < 0 && <p>Late: <span className="text-red-500">{s.speedScore.toFixed(0)} pts</span></p>}
+                          {s.volumeScore > 0 && <p>Perfect bonus: <span className="text-green-500">+{s.volumeScore.toFixed(0)} pts</span></p>}
+                          {s.adjustment > 0 && <p>{t('dispute.adjustedBy', { points: s.adjustment.toFixed(0), total: s.totalScore.toFixed(0) })}</p>}
+                        </div>
+                        <Link to={`/scores/${emp.id}`} className="inline-block mt-2 text-xs text-blue-600">{t('breakdown.link')}</Link>
                       </div>
-                    </div>
-                  ) : (
-                    <p className="text-xs text-gray-400">No score yet</p>
-                  )}
-                </div>
-              );
-            })}
+                    ) : (
+                      <p className="text-xs text-gray-400">No score yet</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
         )}
       </div>
 
+      {/* ── TICKET DETAIL MODAL ── */}
+      {detailTicket && <TicketDetail ticket={detailTicket} onClose={() => setDetailId(null)} />}
+
+      {showNotifications && <NotificationSettings onClose={() => setShowNotifications(false)} />}
+
       {/* ── CREATE TICKET MODAL ── */}
       {showCreate && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -466,6 +514,15 @@ export function AuthorityDashboard() {
                 />
                 Inspection ticket (requires before + after photos)
               </label>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Checklist (optional, one step per line)</label>
+                <textarea
+                  value={form.checklist}
+                  onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  rows={3}
+                />
+              </div>
               <div>
                 <label className="block text-xs text-gray-500 mb-1">Deadline (optional)</label>
                 <input
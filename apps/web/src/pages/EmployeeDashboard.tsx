@@ -7,9 +7,12 @@ import { useScore } from '../hooks/useScore';
 import { SeverityBadge } from '../components/SeverityBadge';
 import { StatusChip } from '../components/StatusChip';
 import { InterruptAlert } from '../components/InterruptAlert';
-import { PhotoUpload } from '../components/PhotoUpload';
-import { useTransitionTicket } from '../hooks/useTickets';
+import { PhotoUpload, type PhotoType } from '../components/PhotoUpload';
+import { TicketDetail } from '../components/TicketDetail';
+import { NotificationSettings } from '../components/NotificationSettings';
+import { useTransitionTicket, uncheckedRequiredCount } from '../hooks/useTickets';
 import type { Ticket } from '../hooks/useTickets';
+import { useWorkflow, workflowLabel, customTransitions, isTerminalStatus } from '../hooks/useWorkflow';
 import { formatTimeRemaining, formatDate } from '../lib/time';
 
 const AREA_ICONS: Record<string, string> = {
@@ -22,7 +25,7 @@ const AREA_ICONS: Record<string, string> = {
   default: '🏠',
 };
 
-function ScoreGauge({ score }: { score: number }) {
+function ScoreGauge({ score, provisional }: { score: number; provisional: boolean }) {
   const { t } = useTranslation();
   const color = score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-red-600';
   const bgColor = score >= 80 ? 'bg-green-100' : score >= 50 ? 'bg-yellow-100' : 'bg-red-100';
@@ -31,12 +34,23 @@ function ScoreGauge({ score }: { score: number }) {
     <div className={`${bgColor} rounded-xl p-4 text-center`}>
       <p className="text-xs text-gray-500 mb-1">{t('score.total')}</p>
       <p className={`text-4xl font-bold ${color}`}>{score.toFixed(0)}</p>
+      <p className="text-xs text-gray-500 mt-1">{t(provisional ? 'score.provisional' : 'score.finalized')}</p>
     </div>
   );
 }
 
-function TicketCard({ ticket, onTransition }: { ticket: Ticket; onTransition: (id: string, status: string) => void }) {
+function TicketCard({
+  ticket,
+  onTransition,
+  onOpen,
+}: {
+  ticket: Ticket;
+  onTransition: (id: string, status: string) => void;
+  onOpen: (id: string) => void;
+}) {
   const { t } = useTranslation();
+  const workflow = useWorkflow();
+  const [photoType, setPhotoType] = useState<PhotoType>('completion');
   const icon = AREA_ICONS[ticket.area?.toLowerCase()] ?? AREA_ICONS.default;
 
   const severityStrip: Record<string, string> = {
@@ -51,7 +65,9 @@ function TicketCard({ ticket, onTransition }: { ticket: Ticket; onTransition: (i
         <span className="text-3xl">{icon}</span>
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2 mb-1 flex-wrap">
-            <h3 className="font-semibold text-gray-900 truncate">{ticket.title}</h3>
+            <button onClick={() => onOpen(ticket.id)} className="font-semibold text-gray-900 truncate text-left">
+              {ticket.title}
+            </button>
             <SeverityBadge severity={ticket.severity} />
             {ticket.isRepeatIssue && (
               <span className="text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">⚠️ Repeat</span>
@@ -61,6 +77,14 @@ function TicketCard({ ticket, onTransition }: { ticket: Ticket; onTransition: (i
           <p className="text-sm text-gray-500 mt-1 truncate">{ticket.area} › {ticket.category}</p>
           <div className="flex gap-3 mt-1 text-xs flex-wrap">
             <span className="text-gray-400">Created {formatDate(ticket.createdAt)}</span>
+            {ticket.checklistItems.length > 0 && (
+              <button onClick={() => onOpen(ticket.id)} className="text-gray-500">
+                ☑ {t('checklist.progress', {
+                  done: ticket.checklistItems.filter((i) => i.checkedAt).length,
+                  total: ticket.checklistItems.length,
+                })}
+              </button>
+            )}
             {ticket.dueAt && (
               <span className={formatTimeRemaining(ticket.dueAt).color}>
                 {formatDate(ticket.dueAt)} · {formatTimeRemaining(ticket.dueAt).text}
@@ -71,6 +95,12 @@ function TicketCard({ ticket, onTransition }: { ticket: Ticket; onTransition: (i
       </div>
 
       <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          onClick={() => onOpen(ticket.id)}
+          className="border border-gray-300 text-gray-600 py-2 px-3 rounded-lg text-sm font-medium"
+        >
+          💬 {t('comments.title')}
+        </button>
         {ticket.status === 'open' && (
           <button
             onClick={() => onTransition(ticket.id, 'in_progress')}
@@ -81,15 +111,38 @@ function TicketCard({ ticket, onTransition }: { ticket: Ticket; onTransition: (i
         )}
         {ticket.status === 'in_progress' && (
           <>
-            <PhotoUpload ticketId={ticket.id} photoType="completion" />
+            <select
+              value={photoType}
+              onChange={(e) => setPhotoType(e.target.value as PhotoType)}
+              className="border border-gray-300 rounded-lg px-2 text-sm text-gray-600"
+              aria-label={t('ticket.photoTypeLabel')}
+            >
+              {(['completion', 'before', 'after', 'receipt'] as const).map((type) => (
+                <option key={type} value={type}>{t(`ticket.photoType.${type}`)}</option>
+              ))}
+            </select>
+            <PhotoUpload ticketId={ticket.id} photoType={photoType} />
             <button
               onClick={() => onTransition(ticket.id, 'needs_review')}
-              className="flex-1 bg-green-600 text-white py-2 px-3 rounded-lg text-sm font-medium"
+              disabled={uncheckedRequiredCount(ticket) > 0}
+              title={uncheckedRequiredCount(ticket) > 0 ? t('checklist.remaining', { count: uncheckedRequiredCount(ticket) }) : undefined}
+              className="flex-1 bg-green-600 text-white py-2 px-3 rounded-lg text-sm font-medium disabled:opacity-50"
             >
               {t('ticket.submitForReview')}
             </button>
           </>
         )}
+        {customTransitions(workflow, ticket.status, 'employee').map((tr) => (
+          <button
+            key={tr.to}
+            onClick={() => onTransition(ticket.id, tr.to)}
+            className="flex-1 bg-purple-600 text-white py-2 px-3 rounded-lg text-sm font-medium"
+          >
+            {t('ticket.moveTo', {
+              status: t(`ticket.status.${tr.to}`, { defaultValue: workflowLabel(workflow, tr.to) }),
+            })}
+          </button>
+        ))}
       </div>
     </div>
   );
@@ -115,14 +168,16 @@ export function EmployeeDashboard() {
   const { data: tickets = [], isLoading } = useTickets({ assignedUserId: user?.id });
   const { data: scoreData } = useScore(user?.id ?? '');
   const transition = useTransitionTicket();
+  const workflow = useWorkflow();
   const [acknowledgedInterrupts, setAcknowledgedInterrupts] = useState<Set<string>>(new Set());
   const [todayOnly, setTodayOnly] = useState(false);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [showNotifications, setShowNotifications] = useState(false);
 
   const urgentTicket = tickets.find(
     (t) =>
       t.severity === 'immediate_interrupt' &&
-      t.status !== 'closed' &&
-      t.status !== 'skipped' &&
+      !isTerminalStatus(workflow, t.status) &&
       !acknowledgedInterrupts.has(t.id)
   );
 
@@ -134,7 +189,9 @@ export function EmployeeDashboard() {
     setAcknowledgedInterrupts((prev) => new Set([...prev, id]));
   }
 
-  const activeTickets = tickets.filter((t) => t.status !== 'closed' && t.status !== 'skipped');
+  const detailTicket = detailId ? tickets.find((t) => t.id === detailId) : undefined;
+
+  const activeTickets = tickets.filter((t) => !isTerminalStatus(workflow, t.status));
 
   // Sort: severity rank first, then nearest dueAt (null last)
   const sorted = [...activeTickets].sort((a, b) => {
@@ -162,6 +219,10 @@ export function EmployeeDashboard() {
         <InterruptAlert ticket={urgentTicket} onAcknowledge={() => acknowledgeInterrupt(urgentTicket.id)} />
       )}
 
+      {detailTicket && <TicketDetail ticket={detailTicket} onClose={() => setDetailId(null)} />}
+
+      {showNotifications && <NotificationSettings onClose={() => setShowNotifications(false)} />}
+
       <div className="min-h-screen bg-gray-50">
         {/* Header */}
         <header className="bg-white shadow-sm px-4 py-3 flex items-center justify-between">
@@ -171,6 +232,7 @@ export function EmployeeDashboard() {
           </div>
           <div className="flex items-center gap-3">
             <Link to="/chat" className="text-sm text-blue-600 font-medium">{t('nav.chat')}</Link>
+            <button onClick={() => setShowNotifications(true)} className="text-sm" title={t('notifications.title')}>🔔</button>
             <button
               onClick={() => i18n.changeLanguage(i18n.language === 'en' ? 'es' : 'en')}
               className="text-sm font-medium text-blue-600 border border-blue-200 rounded-full px-3 py-1"
@@ -183,7 +245,12 @@ export function EmployeeDashboard() {
 
         <div className="p-4 space-y-4 max-w-2xl mx-auto">
           {/* Score gauge */}
-          {scoreData?.latest && <ScoreGauge score={scoreData.latest.totalScore} />}
+          {scoreData?.latest && (
+            <div>
+              <ScoreGauge score={scoreData.latest.totalScore + scoreData.latest.adjustment} provisional={scoreData.latest.status !== 'finalized'} />
+              <Link to={`/scores/${user?.id}`} className="block text-center text-sm text-blue-600 mt-2">{t('breakdown.link')}</Link>
+            </div>
+          )}
 
           {/* Today toggle */}
           {activeTickets.length > 0 && (
@@ -211,7 +278,7 @@ export function EmployeeDashboard() {
           ) : (
             <div className="space-y-3">
               {displayed.map((ticket) => (
-                <TicketCard key={ticket.id} ticket={ticket} onTransition={handleTransition} />
+                <TicketCard key={ticket.id} ticket={ticket} onTransition={handleTransition} onOpen={setDetailId} />
               ))}
             </div>
           )}
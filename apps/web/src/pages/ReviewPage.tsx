@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useTicket,
+  useTickets,
+  useTicketAudit,
+  usePhotoFlags,
+  useTransitionTicket,
+  reviewQueue,
+  photoUrl,
+  REJECTION_REASONS,
+  type Ticket,
+  type RejectionReason,
+} from '../hooks/useTickets';
+import { useWorkflow, workflowLabel } from '../hooks/useWorkflow';
+import { SeverityBadge } from '../components/SeverityBadge';
+import { StatusChip } from '../components/StatusChip';
+import { Checklist } from '../components/Checklist';
+import { CommentThread } from '../components/CommentThread';
+import { PhotoFlags } from '../components/PhotoFlags';
+import { formatDate, formatTimeRemaining } from '../lib/time';
+
+type Photo = Ticket['photos'][number];
+
+function PhotoColumn({ title, photos, flagged }: { title: string; photos: Photo[]; flagged: Set<string> }) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex-1 min-w-0">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">{title}</h3>
+      {photos.length === 0 ? (
+        <div className="h-48 rounded-lg border border-dashed flex items-center justify-center text-sm text-gray-400">
+          {t('review.noPhotos')}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {photos.map((p) => (
+            <a key={p.id} href={photoUrl(p.id)} target="_blank" rel="noreferrer" className="block">
+              <img
+                src={photoUrl(p.id, 'medium')}
+                alt={p.photoType}
+                className={`w-full rounded-lg object-contain bg-gray-100 max-h-80 ${flagged.has(p.id) ? 'border-2 border-red-500' : 'border'}`}
+              />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ReviewPage() {
+  const { t } = useTranslation();
+  const { ticketId = '' } = useParams();
+  const navigate = useNavigate();
+  const { isAuthority } = useAuth();
+  const workflow = useWorkflow();
+  const { data: ticket, isLoading } = useTicket(ticketId);
+  const { data: tickets = [] } = useTickets({ status: 'needs_review' });
+  const { data: audit = [] } = useTicketAudit(ticketId);
+  const { data: flags = [] } = usePhotoFlags(ticketId, !!ticket && ticket.photos.length > 0);
+  const transition = useTransitionTicket();
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState<RejectionReason | ''>('');
+  const [note, setNote] = useState('');
+
+  if (!isAuthority) return <Navigate to="/" replace />;
+
+  const queue = reviewQueue(tickets);
+  const position = queue.findIndex((q) => q.id === ticketId);
+  // The ticket after this one, or the first when this one has already left the queue
+  const next = queue.filter((q) => q.id !== ticketId)[position >= 0 ? position : 0];
+
+  function goNext() {
+    setRejecting(false);
+    setReason('');
+    setNote('');
+    navigate(next ? `/review/${next.id}` : '/');
+  }
+
+  function approve() {
+    transition.mutate({ id: ticketId, status: 'closed' }, { onSuccess: goNext });
+  }
+
+  // A reason always; a note too when the reason is 'other' — the same rule the API enforces
+  const canReject = reason !== '' && (reason !== 'other' || note.trim() !== '');
+
+  function reject(e: React.FormEvent) {
+    e.preventDefault();
+    if (!canReject) return;
+    transition.mutate(
+      { id: ticketId, status: 'in_progress', reason: reason || undefined, note: note.trim() || undefined },
+      { onSuccess: goNext }
+    );
+  }
+
+  const statusLabel = (s: string) => t(`ticket.status.${s}`, { defaultValue: workflowLabel(workflow, s) });
+  const flagged = new Set(flags.map((f) => f.photoId));
+  const photos = ticket?.photos ?? [];
+  const before = photos.filter((p) => p.photoType === 'before');
+  const after = photos.filter((p) => p.photoType === 'after' || p.photoType === 'completion');
+  const other = photos.filter((p) => !before.includes(p) && !after.includes(p));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm px-6 py-3 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link to="/" className="text-sm text-blue-600 font-medium">← {t('nav.dashboard')}</Link>
+          <h1 className="font-bold text-lg text-gray-900">{t('review.title')}</h1>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          {position >= 0 && <span className="text-gray-500">{t('review.position', { position: position + 1, total: queue.length })}</span>}
+          {next && (
+            <button onClick={goNext} className="text-blue-600 font-medium">
+              {t('review.next')} →
+            </button>
+          )}
+        </div>
+      </header>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-center py-8">{t('app.loading')}</p>
+      ) : !ticket ? (
+        <p className="text-gray-400 text-center py-8">{t('review.notFound')}</p>
+      ) : (
+        <div className="p-6 max-w-6xl mx-auto grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-white rounded-xl shadow-sm p-5">
+              <div className="flex items-center gap-2 mb-2 flex-wrap">
+                <h2 className="text-lg font-bold text-gray-900 mr-2">{ticket.title}</h2>
+                <StatusChip status={ticket.status} />
+                <SeverityBadge severity={ticket.severity} />
+                {ticket.isRepeatIssue && <span className="text-xs text-orange-600">⚠️ Repeat</span>}
+              </div>
+              <p className="text-sm text-gray-600 whitespace-pre-wrap mb-2">{ticket.description}</p>
+              <div className="flex gap-3 text-xs text-gray-500 flex-wrap">
+                <span>{ticket.area} › {ticket.category}</span>
+                {ticket.assignedUser && <span>→ {ticket.assignedUser.name}</span>}
+                <span>Created {formatDate(ticket.createdAt)}</span>
+                {ticket.dueAt && (
+                  <span className={formatTimeRemaining(ticket.dueAt).color}>
+                    {formatDate(ticket.dueAt)} · {formatTimeRemaining(ticket.dueAt).text}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-5 space-y-4">
+              <div className="flex gap-4">
+                <PhotoColumn title={t('ticket.photoType.before')} photos={before} flagged={flagged} />
+                <PhotoColumn title={t('ticket.photoType.after')} photos={after} flagged={flagged} />
+              </div>
+              {other.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">{t('review.otherPhotos')}</h3>
+                  <div className="flex gap-2 overflow-x-auto">
+                    {other.map((p) => (
+                      <a key={p.id} href={photoUrl(p.id)} target="_blank" rel="noreferrer" className="shrink-0">
+                        <img src={photoUrl(p.id, 'thumb')} loading="lazy" alt={p.photoType} className="h-24 w-24 object-cover rounded-lg border" />
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <PhotoFlags ticket={ticket} flags={flags} />
+            </div>
+
+            {ticket.checklistItems.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm p-5">
+                <Checklist ticket={ticket} />
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm p-5">
+              <CommentThread ticketId={ticket.id} />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-white rounded-xl shadow-sm p-5">
+              {ticket.status !== 'needs_review' ? (
+                <p className="text-sm text-gray-500">{t('review.notWaiting', { status: statusLabel(ticket.status) })}</p>
+              ) : rejecting ? (
+                <form onSubmit={reject} className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700" htmlFor="reject-reason">
+                    {t('review.reasonLabel')}
+                  </label>
+                  <select
+                    id="reject-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value as RejectionReason | '')}
+                    autoFocus
+                    className="w-full border rounded-lg px-3 py-2 text-sm"
+                  >
+                    <option value="">{t('review.chooseReason')}</option>
+                    {REJECTION_REASONS.map((r) => (
+                      <option key={r} value={r}>{t(`rejection.${r}`)}</option>
+                    ))}
+                  </select>
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                    placeholder={t(reason === 'other' ? 'review.noteRequired' : 'review.noteOptional')}
+                    className="w-full border rounded-lg px-3 py-2 text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={!canReject || transition.isPending}
+                      className="flex-1 bg-red-500 text-white text-sm font-medium py-2 rounded-lg disabled:opacity-50"
+                    >
+                      {t('ticket.reject')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRejecting(false)}
+                      className="flex-1 border border-gray-300 text-gray-700 text-sm font-medium py-2 rounded-lg"
+                    >
+                      {t('review.cancel')}
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={approve}
+                    disabled={transition.isPending}
+                    className="flex-1 bg-green-600 text-white text-sm font-medium py-2 rounded-lg disabled:opacity-50"
+                  >
+                    {t('review.approve')}
+                  </button>
+                  <button
+                    onClick={() => setRejecting(true)}
+                    disabled={transition.isPending}
+                    className="flex-1 bg-red-500 text-white text-sm font-medium py-2 rounded-lg disabled:opacity-50"
+                  >
+                    {t('ticket.reject')}
+                  </button>
+                </div>
+              )}
+              {transition.isError && <p className="text-xs text-red-600 mt-2">{t('review.failed')}</p>}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-5">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('review.history')}</h3>
+              <ol className="space-y-2">
+                {audit.map((entry) => (
+                  <li key={entry.id} className="text-xs border-l-2 border-gray-200 pl-3">
+                    <div className="text-gray-700">
+                      {entry.fromStatus ? `${statusLabel(entry.fromStatus)} → ` : ''}
+                      {statusLabel(entry.toStatus)}
+                    </div>
+                    <div className="text-gray-400">
+                      {entry.changedBy?.name ?? t('review.system')} · {new Date(entry.createdAt).toLocaleString()}
+                    </div>
+                    {entry.reason && <div className="text-red-600">{t(`rejection.${entry.reason}`)}</div>}
+                    {entry.note && <div className="text-gray-600 italic">“{entry.note}”</div>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
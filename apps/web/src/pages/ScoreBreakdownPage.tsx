@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts/AuthContext';
+import { useScoreBreakdown, type ScoreLine } from '../hooks/useScore';
+import { useOpenDispute, DISPUTABLE_RULES, type DisputableRule } from '../hooks/useScoreDisputes';
+import { useTicket } from '../hooks/useTickets';
+import { TicketDetail } from '../components/TicketDetail';
+
+function TicketDetailById({ id, onClose }: { id: string; onClose: () => void }) {
+  const { data: ticket } = useTicket(id);
+  return ticket ? <TicketDetail ticket={ticket} onClose={onClose} /> : null;
+}
+
+function LineLabel({ line }: { line: ScoreLine }) {
+  const { t } = useTranslation();
+  switch (line.rule) {
+    case 'rejection':
+      return <>{t('breakdown.rejection', { reason: t(`rejection.${line.reason ?? 'unclassified'}`) })}</>;
+    case 'late':
+      return <>{t('breakdown.late', { count: line.days ?? 0 })}</>;
+    default:
+      return <>{t(`breakdown.${line.rule}`)}</>;
+  }
+}
+
+function DisputeStatus({ dispute }: { dispute: NonNullable<ScoreLine['dispute']> }) {
+  const { t } = useTranslation();
+  const styles = { pending: 'text-yellow-700', accepted: 'text-green-700', declined: 'text-gray-500' };
+  return (
+    <p className={`text-xs ${styles[dispute.status]}`}>
+      {t(`dispute.status.${dispute.status}`, { points: dispute.adjustment ?? 0, note: dispute.resolutionNote ?? '' })}
+    </p>
+  );
+}
+
+function DisputeForm({ scoreId, line }: { scoreId: string; line: ScoreLine & { ticketId: string } }) {
+  const { t } = useTranslation();
+  const open = useOpenDispute();
+  const [editing, setEditing] = useState(false);
+  const [reason, setReason] = useState('');
+
+  if (!editing) {
+    return (
+      <button onClick={() => setEditing(true)} className="text-xs text-blue-600 font-medium">
+        {t('dispute.dispute')}
+      </button>
+    );
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    open.mutate(
+      { scoreId, ticketId: line.ticketId, rule: line.rule as DisputableRule, reason: reason.trim() },
+      { onSuccess: () => setEditing(false) }
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2 mt-1">
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+        maxLength={500}
+        autoFocus
+        placeholder={t('dispute.reason')}
+        className="w-full border rounded-lg px-3 py-2 text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!reason.trim() || open.isPending}
+          className="bg-blue-600 text-white text-xs font-medium px-3 py-1 rounded-lg disabled:opacity-50"
+        >
+          {t('dispute.send')}
+        </button>
+        <button type="button" onClick={() => setEditing(false)} className="border border-gray-300 text-gray-700 text-xs px-3 py-1 rounded-lg">
+          {t('review.cancel')}
+        </button>
+      </div>
+      {open.isError && <p className="text-xs text-red-600">{t('dispute.failed')}</p>}
+    </form>
+  );
+}
+
+// "Why is my score 82?" — every point a score gained or lost, each linked to its ticket
+export function ScoreBreakdownPage() {
+  const { t } = useTranslation();
+  const { userId = '' } = useParams();
+  const [params] = useSearchParams();
+  const { data, isLoading, isError } = useScoreBreakdown(userId, params.get('scoreId') ?? undefined);
+  const [openTicketId, setOpenTicketId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const isOwnScore = user?.id === userId;
+
+  const fmt = (d: string) => new Date(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  // Computed before scores were itemized: the total is known but not what made it up
+  const notItemized = data && data.lines.length === 0 && data.score.totalScore !== 100;
+  // Only your own ticket deductions, and not while a dispute of them is waiting or accepted
+  const canDispute = (line: ScoreLine): line is ScoreLine & { ticketId: string } =>
+    isOwnScore &&
+    !!line.ticketId &&
+    (DISPUTABLE_RULES as string[]).includes(line.rule) &&
+    (!line.dispute || line.dispute.status === 'declined');
+  // A ticket sent back twice has two rejection lines but is disputed once, on the first
+  const firstOfDeduction = (lines: ScoreLine[], i: number) =>
+    lines.findIndex((l) => l.ticketId === lines[i].ticketId && l.rule === lines[i].rule) === i;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm px-6 py-3 flex items-center gap-3">
+        <Link to="/" className="text-blue-600 text-sm">← Back</Link>
+        <h1 className="font-bold text-gray-900">{t('breakdown.title')}</h1>
+      </header>
+
+      <div className="p-6 max-w-2xl mx-auto space-y-4">
+        {isLoading ? (
+          <p className="text-center text-gray-400 py-12">{t('app.loading')}</p>
+        ) : isError || !data ? (
+          <p className="text-center text-gray-400 py-12">{t('breakdown.noScore')}</p>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-gray-500">
+                {fmt(data.score.periodStart)} – {fmt(data.score.periodEnd)} · {t(data.score.status === 'finalized' ? 'score.finalized' : 'score.provisional')}
+              </span>
+              <span className="text-3xl font-bold text-gray-900">{(data.score.totalScore + data.score.adjustment).toFixed(0)}</span>
+            </div>
+            {data.score.adjustment > 0 && (
+              <p className="text-xs text-green-700 text-right">
+                {t('dispute.adjustedBy', { points: data.score.adjustment, total: data.score.totalScore.toFixed(0) })}
+              </p>
+            )}
+
+            <ul className="divide-y text-sm">
+              <li className="flex justify-between py-2 text-gray-500">
+                <span>{t('breakdown.base')}</span>
+                <span className="font-mono">100</span>
+              </li>
+              {data.lines.map((line, i) => (
+                <li key={i} className="flex justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-gray-700"><LineLabel line={line} /></div>
+                    {line.ticketId && (
+                      line.ticket ? (
+                        <button onClick={() => setOpenTicketId(line.ticket!.id)} className="text-xs text-blue-600 truncate text-left">
+                          {line.ticket.title}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-400">{t('breakdown.ticketGone')}</span>
+                      )
+                    )}
+                    {firstOfDeduction(data.lines, i) && line.dispute && <DisputeStatus dispute={line.dispute} />}
+                    {firstOfDeduction(data.lines, i) && canDispute(line) && <DisputeForm scoreId={data.score.id} line={line} />}
+                  </div>
+                  <span className={`font-mono font-semibold ${line.points < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {line.points > 0 ? '+' : '−'}{Math.abs(line.points)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {notItemized && <p className="text-xs text-gray-400">{t('breakdown.notItemized')}</p>}
+            {!notItemized && data.lines.length === 0 && <p className="text-xs text-gray-400">{t('breakdown.nothing')}</p>}
+            <p className="text-xs text-gray-400">{t('scoringPolicy.version', { version: data.score.policyVersion })}</p>
+          </div>
+        )}
+      </div>
+
+      {openTicketId && <TicketDetailById id={openTicketId} onClose={() => setOpenTicketId(null)} />}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import client from '../api/client';
+import { SEVERITIES, type ScoringPolicy } from '../hooks/useScoringPolicy';
 
 interface EmployeeStat {
   user: { id: string; name: string; specialty?: string };
@@ -10,13 +11,17 @@ interface EmployeeStat {
   closed: number;
   skipped: number;
   rejected: number;
+  rejectionReasons: Record<string, number>; // reason code (or 'unclassified') → count
   daysLate: number;
   qualityPenalty: number;
   consistencyPenalty: number;
   latePenalty: number;
   totalPenalty: number;
   bonus: number;
-  scoreImpact: number;
+  total: number; // same as the stored score for the week
+  adjustment: number; // points given back by accepted disputes
+  adjustedTotal: number;
+  scoreImpact: number; // adjustedTotal − 100
 }
 
 interface RepeatIssue {
@@ -36,17 +41,25 @@ interface HotSpot {
   issueScore: number;
 }
 
+interface AreaRejections {
+  area: string;
+  total: number;
+  reasons: Record<string, number>;
+}
+
 interface ReportData {
   period: { start: string; end: string };
   summary: { open: number; inProgress: number; closed: number; skipped: number; reopened: number };
   employeeStats: EmployeeStat[];
   repeatIssues: RepeatIssue[];
+  rejectionsByArea: AreaRejections[];
   trends: {
     hotSpots: HotSpot[];
     overdueCount: number;
     noCompletions: string[];
     mostPenalized: EmployeeStat | null;
   };
+  scoringPolicy: { version: number; policy: ScoringPolicy };
 }
 
 
@@ -63,6 +76,13 @@ export function WeeklyReport() {
     },
   });
 
+  // Most frequent reason first
+  const reasonList = (reasons: Record<string, number>) =>
+    Object.entries(reasons)
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => `${count}× ${t(`rejection.${reason}`)}`)
+      .join(' · ');
+
   const fmt = (d: string) => new Date(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 
   return (
@@ -83,27 +103,8 @@ export function WeeklyReport() {
             <span className="font-semibold text-gray-900">📊 Scoring Legend</span>
             <span className="text-gray-400 text-sm">{showLegend ? '▲ Hide' : '▼ Show'}</span>
           </button>
-          {showLegend && (
-            <div className="px-4 pb-4 border-t pt-4">
-              <p className="text-xs text-gray-500 mb-3">Everyone starts at <span className="font-semibold text-gray-700">100 pts</span> each period. Points are added or removed based on these events:</p>
-              <div className="space-y-2">
-                {[
-                  { icon: '❌', label: 'Work rejected (sent back by manager)', pts: '−10 pts', color: 'text-red-600' },
-                  { icon: '⏭️', label: 'Recurring task skipped',              pts: '−5 pts',  color: 'text-red-500' },
-                  { icon: '⏰', label: 'Task submitted late (per day late)',   pts: '−3 pts',  color: 'text-orange-500' },
-                  { icon: '⭐', label: 'Perfect period — no violations at all', pts: '+5 pts', color: 'text-green-600' },
-                ].map((row) => (
-                  <div key={row.label} className="flex items-center justify-between text-sm">
-                    <span className="flex items-center gap-2 text-gray-600">
-                      <span>{row.icon}</span>
-                      <span>{row.label}</span>
-                    </span>
-                    <span className={`font-semibold font-mono ${row.color}`}>{row.pts}</span>
-                  </div>
-                ))}
-              </div>
-              <p className="text-xs text-gray-400 mt-3">Deadlines: Urgent = 2 hrs · Fix Today = 8 hrs · Minor = 48 hrs</p>
-            </div>
+          {showLegend && data && (
+            <ScoringLegend policy={data.scoringPolicy.policy} version={data.scoringPolicy.version} />
           )}
         </div>
 
@@ -146,7 +147,7 @@ export function WeeklyReport() {
                   <tr>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Employee</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Closed</th>
-                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase" title="−10 pts each">Rejected</th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase" title="−5 to −20 pts each, by reason">Rejected</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase" title="−5 pts each">Skipped</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase" title="−3 pts per day">Late Days</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Bonus</th>
@@ -163,7 +164,12 @@ export function WeeklyReport() {
                       <td className="px-4 py-3 text-center text-green-700 font-semibold">{stat.closed}</td>
                       <td className="px-4 py-3 text-center">
                         {stat.rejected > 0
-                          ? <span className="text-red-600 font-semibold">{stat.rejected} <span className="text-xs font-normal">(−{stat.qualityPenalty})</span></span>
+                          ? (
+                            <>
+                              <span className="text-red-600 font-semibold">{stat.rejected} <span className="text-xs font-normal">(−{stat.qualityPenalty})</span></span>
+                              <p className="text-xs text-gray-500">{reasonList(stat.rejectionReasons)}</p>
+                            </>
+                          )
                           : <span className="text-gray-400">—</span>}
                       </td>
                       <td className="px-4 py-3 text-center">
@@ -187,6 +193,11 @@ export function WeeklyReport() {
                           : stat.scoreImpact < 0
                             ? <span className="text-red-600">−{Math.abs(stat.scoreImpact)}</span>
                             : <span className="text-gray-400">0</span>}
+                        {stat.adjustment > 0 && (
+                          <p className="text-xs font-normal text-gray-500">
+                            {t('dispute.adjustedBy', { points: stat.adjustment.toFixed(0), total: stat.total.toFixed(0) })}
+                          </p>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -194,6 +205,25 @@ export function WeeklyReport() {
               </table>
             </div>
 
+            {/* Rejection reasons by area */}
+            {data.rejectionsByArea.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b">
+                  <h2 className="font-semibold text-gray-900">Why Work Was Sent Back</h2>
+                </div>
+                <div className="divide-y">
+                  {data.rejectionsByArea.map((row) => (
+                    <div key={row.area} className="px-4 py-3 flex items-center justify-between gap-4">
+                      <span className="text-sm font-medium text-gray-900 capitalize">{row.area}</span>
+                      <span className="text-xs text-gray-500 text-right">
+                        <span className="text-red-600 font-semibold">{row.total}</span> · {reasonList(row.reasons)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Repeat issues */}
             {data.repeatIssues.length > 0 && (
               <div className="bg-orange-50 border border-orange-200 rounded-xl overflow-hidden">
@@ -297,3 +327,64 @@ export function WeeklyReport() {
     </div>
   );
 }
+
+// Points as shown in the legend: −5 pts, +5 pts, −5 to −20 pts
+const pts = (n: number, sign: '−' | '+') => `${sign}${n} pts`;
+
+function ScoringLegend({ policy, version }: { policy: ScoringPolicy; version: number }) {
+  const { t } = useTranslation();
+
+  const penalties = Object.values(policy.rejectionPenalty);
+  const min = Math.min(...penalties);
+  const max = Math.max(...penalties);
+
+  // Reasons grouped by the penalty they carry, smallest first
+  const byPenalty = new Map<number, string[]>();
+  for (const [reason, penalty] of Object.entries(policy.rejectionPenalty)) {
+    byPenalty.set(penalty, [...(byPenalty.get(penalty) ?? []), t(`rejection.${reason}`)]);
+  }
+  const reasonLine = [...byPenalty.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([penalty, reasons]) => `${reasons.join(', ')} −${penalty}`)
+    .join(' · ');
+
+  const hours = (h: number) => (h === 1 ? '1 hr' : `${h} hrs`);
+  // Most urgent first
+  const bySeverity = (values: Record<string, number>, show: (n: number) => string) =>
+    [...SEVERITIES].reverse().map((s) => `${t(`ticket.severity_label.${s}`)} = ${show(values[s])}`).join(' · ');
+  const scaled = SEVERITIES.some((s) => policy.severityMultiplier[s] !== 1);
+
+  return (
+    <div className="px-4 pb-4 border-t pt-4">
+      <p className="text-xs text-gray-500 mb-3">Everyone starts at <span className="font-semibold text-gray-700">100 pts</span> each period. Points are added or removed based on these events:</p>
+      <div className="space-y-2">
+        {[
+          { icon: '❌', label: 'Work rejected (sent back by manager)', pts: min === max ? pts(min, '−') : `−${min} to −${max} pts`, color: 'text-red-600' },
+          { icon: '⏭️', label: 'Recurring task skipped',              pts: pts(policy.skipPenalty, '−'),    color: 'text-red-500' },
+          { icon: '⏰', label: 'Submitted past its deadline (per day)',  pts: pts(policy.lateDayPenalty, '−'), color: 'text-orange-500' },
+          { icon: '⭐', label: 'Perfect period — no violations at all', pts: pts(policy.perfectBonus, '+'),   color: 'text-green-600' },
+        ].map((row) => (
+          <div key={row.label} className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-gray-600">
+              <span>{row.icon}</span>
+              <span>{row.label}</span>
+            </span>
+            <span className={`font-semibold font-mono ${row.color}`}>{row.pts}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-3">Rejections by reason: {reasonLine}</p>
+      <p className="text-xs text-gray-400 mt-1">Deadlines: {bySeverity(policy.deadlineHours, hours)}</p>
+      {scaled && (
+        <p className="text-xs text-gray-400 mt-1">Rejection and lateness penalties multiplied by: {bySeverity(policy.severityMultiplier, (n) => `×${n}`)}</p>
+      )}
+      {policy.perfectBonusMinTickets > 1 && (
+        <p className="text-xs text-gray-400 mt-1">The bonus needs at least {policy.perfectBonusMinTickets} tickets in the period.</p>
+      )}
+      {policy.scoreFloor !== null && (
+        <p className="text-xs text-gray-400 mt-1">Scores never go below {policy.scoreFloor} pts.</p>
+      )}
+      <p className="text-xs text-gray-400 mt-1">{t('scoringPolicy.version', { version })}</p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAssignee, validateAssignmentConfig, AssignmentStrategyError } from '../assigneeResolver';
+import type { AssigneeCandidate } from '../assigneeResolver';
+
+const rosa: AssigneeCandidate = { id: 'rosa', openTickets: 2 };
+const miguel: AssigneeCandidate = { id: 'miguel', openTickets: 0 };
+const ana: AssigneeCandidate = { id: 'ana', openTickets: 2 };
+
+const pool = [ana, miguel, rosa];
+
+describe('assigneeResolver', () => {
+
+  // ─── Validation ─────────────────────────────────────────────────────────────
+
+  describe('validateAssignmentConfig', () => {
+    it('fixed_user needs a user', () => {
+      expect(() => validateAssignmentConfig({ strategy: 'fixed_user' })).toThrow(AssignmentStrategyError);
+      expect(() => validateAssignmentConfig({ strategy: 'fixed_user', fixedUserId: 'rosa' })).not.toThrow();
+    });
+
+    it('other strategies must not name a fixed user', () => {
+      expect(() => validateAssignmentConfig({ strategy: 'round_robin', fixedUserId: 'rosa' })).toThrow(AssignmentStrategyError);
+      expect(() => validateAssignmentConfig({ strategy: 'least_loaded' })).not.toThrow();
+    });
+  });
+
+  // ─── Strategies ─────────────────────────────────────────────────────────────
+
+  describe('resolveAssignee', () => {
+    it('none leaves the ticket unassigned', () => {
+      expect(resolveAssignee({ strategy: 'none' }, pool)).toBeNull();
+    });
+
+    it('fixed_user always picks that user', () => {
+      expect(resolveAssignee({ strategy: 'fixed_user', fixedUserId: 'rosa' }, [])).toBe('rosa');
+    });
+
+    it('round_robin starts with the first candidate', () => {
+      expect(resolveAssignee({ strategy: 'round_robin' }, pool)).toBe('ana');
+    });
+
+    it('round_robin takes the next candidate after the last assignee, wrapping around', () => {
+      expect(resolveAssignee({ strategy: 'round_robin', lastAssignedUserId: 'ana' }, pool)).toBe('miguel');
+      expect(resolveAssignee({ strategy: 'round_robin', lastAssignedUserId: 'rosa' }, pool)).toBe('ana');
+    });
+
+    it('round_robin restarts when the last assignee left the pool', () => {
+      expect(resolveAssignee({ strategy: 'round_robin', lastAssignedUserId: 'gone' }, pool)).toBe('ana');
+    });
+
+    it('least_loaded picks whoever has the fewest open tickets', () => {
+      expect(resolveAssignee({ strategy: 'least_loaded', lastAssignedUserId: 'miguel' }, pool)).toBe('miguel');
+    });
+
+    it('least_loaded breaks ties in rotation order', () => {
+      const tied = [ana, rosa];
+      expect(resolveAssignee({ strategy: 'least_loaded' }, tied)).toBe('ana');
+      expect(resolveAssignee({ strategy: 'least_loaded', lastAssignedUserId: 'ana' }, tied)).toBe('rosa');
+    });
+
+    it('pool strategies return null when nobody qualifies', () => {
+      expect(resolveAssignee({ strategy: 'round_robin' }, [])).toBeNull();
+      expect(resolveAssignee({ strategy: 'least_loaded' }, [])).toBeNull();
+    });
+  });
+});
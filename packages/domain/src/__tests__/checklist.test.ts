@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeChecklist, uncheckedRequiredItems, ChecklistError, IncompleteChecklistError, MAX_CHECKLIST_ITEMS } from '../checklist';
+
+describe('checklist', () => {
+
+  // ─── normalizeChecklist ─────────────────────────────────────────────────────
+
+  describe('normalizeChecklist', () => {
+    it('trims labels and makes items required by default, without a photo', () => {
+      expect(
+        normalizeChecklist([{ label: '  Skim  ' }, { label: 'Brush', required: false, photoRequired: true }])
+      ).toEqual([
+        { label: 'Skim', required: true, photoRequired: false },
+        { label: 'Brush', required: false, photoRequired: true },
+      ]);
+    });
+
+    it('rejects empty labels', () => {
+      expect(() => normalizeChecklist([{ label: '   ' }])).toThrow(ChecklistError);
+    });
+
+    it('rejects the same step twice, ignoring case', () => {
+      expect(() => normalizeChecklist([{ label: 'Vacuum' }, { label: 'vacuum ' }])).toThrow('twice');
+    });
+
+    it('rejects overlong labels and too many items', () => {
+      expect(() => normalizeChecklist([{ label: 'x'.repeat(201) }])).toThrow(ChecklistError);
+      const many = Array.from({ length: MAX_CHECKLIST_ITEMS + 1 }, (_, i) => ({ label: `Step ${i}` }));
+      expect(() => normalizeChecklist(many)).toThrow(ChecklistError);
+    });
+
+    it('allows an empty checklist', () => {
+      expect(normalizeChecklist([])).toEqual([]);
+    });
+  });
+
+  // ─── uncheckedRequiredItems ─────────────────────────────────────────────────
+
+  describe('uncheckedRequiredItems', () => {
+    const pool = [
+      { label: 'Skim', required: true, checked: true },
+      { label: 'Brush', required: true, checked: false },
+      { label: 'Vacuum', required: false, checked: false },
+      { label: 'Check chlorine', required: true, checked: false },
+    ];
+
+    it('lists required items that are still unchecked, in order', () => {
+      expect(uncheckedRequiredItems(pool)).toEqual(['Brush', 'Check chlorine']);
+    });
+
+    it('is empty once every required item is checked, whatever the optional ones are', () => {
+      expect(uncheckedRequiredItems(pool.map((i) => ({ ...i, checked: i.required })))).toEqual([]);
+    });
+
+    it('is empty for a ticket without a checklist', () => {
+      expect(uncheckedRequiredItems([])).toEqual([]);
+    });
+  });
+
+  it('IncompleteChecklistError lists the unchecked items', () => {
+    const err = new IncompleteChecklistError(['Brush', 'Check chlorine']);
+    expect(err.unchecked).toEqual(['Brush', 'Check chlorine']);
+    expect(err.message).toContain('Brush, Check chlorine');
+  });
+});
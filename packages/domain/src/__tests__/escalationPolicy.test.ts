@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { selectEscalations, validateEscalationRule, EscalationRuleError } from '../escalationPolicy';
+import type { EscalationRule, OverdueTicket } from '../escalationPolicy';
+
+const now = new Date('2024-01-15T12:00:00Z');
+
+function hoursAgo(hours: number): Date {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000);
+}
+
+const minorToToday: EscalationRule = {
+  id: 'r1',
+  severity: 'minor',
+  overdueHours: 24,
+  action: 'raise_severity',
+  toSeverity: 'needs_fix_today',
+};
+
+const todayNotify: EscalationRule = {
+  id: 'r2',
+  severity: 'needs_fix_today',
+  overdueHours: 4,
+  action: 'notify_authorities',
+};
+
+const rules = [minorToToday, todayNotify];
+
+const overdueMinor: OverdueTicket = {
+  id: 'ticket-1',
+  severity: 'minor',
+  dueAt: hoursAgo(25),
+  appliedRuleIds: [],
+};
+
+describe('escalationPolicy', () => {
+
+  // ─── selectEscalations ──────────────────────────────────────────────────────
+
+  describe('selectEscalations', () => {
+    it('minor overdue 25h → raise to needs_fix_today', () => {
+      expect(selectEscalations(overdueMinor, rules, now)).toEqual([minorToToday]);
+    });
+
+    it('minor overdue 23h → nothing yet', () => {
+      expect(selectEscalations({ ...overdueMinor, dueAt: hoursAgo(23) }, rules, now)).toEqual([]);
+    });
+
+    it('exactly at the threshold → fires (boundary)', () => {
+      expect(selectEscalations({ ...overdueMinor, dueAt: hoursAgo(24) }, rules, now)).toEqual([minorToToday]);
+    });
+
+    it('not yet due → nothing, even with a 0h rule', () => {
+      const immediate: EscalationRule = { ...todayNotify, id: 'r0', severity: 'minor', overdueHours: 0 };
+      expect(selectEscalations({ ...overdueMinor, dueAt: new Date(now.getTime() + 1000) }, [immediate], now)).toEqual([]);
+    });
+
+    it('a rule already applied to the ticket does not fire again', () => {
+      expect(selectEscalations({ ...overdueMinor, appliedRuleIds: ['r1'] }, rules, now)).toEqual([]);
+    });
+
+    it('only rules for the ticket’s current severity apply', () => {
+      const today: OverdueTicket = { ...overdueMinor, severity: 'needs_fix_today', dueAt: hoursAgo(5) };
+      expect(selectEscalations(today, rules, now)).toEqual([todayNotify]);
+    });
+
+    it('after a raise, the overdue clock restarts from the severity change', () => {
+      const raised: OverdueTicket = {
+        ...overdueMinor,
+        severity: 'needs_fix_today',
+        dueAt: hoursAgo(30),
+        lastSeverityChangeAt: hoursAgo(2),
+        appliedRuleIds: ['r1'],
+      };
+      expect(selectEscalations(raised, rules, now)).toEqual([]);
+      expect(selectEscalations({ ...raised, lastSeverityChangeAt: hoursAgo(4) }, rules, now)).toEqual([todayNotify]);
+    });
+
+    it('only the highest raise fires when several are due', () => {
+      const toInterrupt: EscalationRule = { ...minorToToday, id: 'r3', overdueHours: 20, toSeverity: 'immediate_interrupt' };
+      expect(selectEscalations(overdueMinor, [minorToToday, toInterrupt], now)).toEqual([toInterrupt]);
+    });
+
+    it('notifications and a raise can fire together, in overdue order', () => {
+      const minorNotify: EscalationRule = { id: 'r4', severity: 'minor', overdueHours: 12, action: 'notify_authorities' };
+      expect(selectEscalations(overdueMinor, [minorToToday, minorNotify], now)).toEqual([minorNotify, minorToToday]);
+    });
+  });
+
+  // ─── validateEscalationRule ─────────────────────────────────────────────────
+
+  describe('validateEscalationRule', () => {
+    it('accepts the example rules', () => {
+      expect(() => validateEscalationRule(minorToToday)).not.toThrow();
+      expect(() => validateEscalationRule(todayNotify)).not.toThrow();
+    });
+
+    it('raise_severity without toSeverity → throws', () => {
+      expect(() => validateEscalationRule({ ...minorToToday, toSeverity: null })).toThrow(EscalationRuleError);
+    });
+
+    it('raise_severity to the same or lower severity → throws', () => {
+      expect(() => validateEscalationRule({ ...minorToToday, toSeverity: 'minor' })).toThrow('is not an escalation');
+      expect(() =>
+        validateEscalationRule({ ...minorToToday, severity: 'immediate_interrupt', toSeverity: 'needs_fix_today' })
+      ).toThrow(EscalationRuleError);
+    });
+
+    it('notify_authorities with a toSeverity → throws', () => {
+      expect(() => validateEscalationRule({ ...todayNotify, toSeverity: 'immediate_interrupt' })).toThrow(EscalationRuleError);
+    });
+
+    it('negative or fractional overdueHours → throws', () => {
+      expect(() => validateEscalationRule({ ...todayNotify, overdueHours: -1 })).toThrow(EscalationRuleError);
+      expect(() => validateEscalationRule({ ...todayNotify, overdueHours: 1.5 })).toThrow(EscalationRuleError);
+    });
+  });
+});
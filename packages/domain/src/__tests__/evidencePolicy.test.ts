@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveEvidencePolicy,
+  missingEvidence,
+  validateEvidencePolicy,
+  EvidencePolicyError,
+  MissingEvidenceError,
+  DEFAULT_EVIDENCE_POLICY,
+} from '../evidencePolicy';
+import type { EvidencePolicyRule, EvidenceTicket, EvidencePhoto } from '../evidencePolicy';
+
+const kitchenCleaning: EvidenceTicket = { area: 'kitchen', category: 'cleaning', severity: 'minor', isInspection: false };
+
+function rule(id: string, matchers: Partial<EvidencePolicyRule>, photos: EvidencePolicyRule['photos']): EvidencePolicyRule {
+  return { id, photos, ...matchers };
+}
+
+function photos(...types: EvidencePhoto['photoType'][]): EvidencePhoto[] {
+  return types.map((photoType) => ({ photoType }));
+}
+
+describe('evidencePolicy', () => {
+
+  // ─── Resolution ─────────────────────────────────────────────────────────────
+
+  describe('resolveEvidencePolicy', () => {
+    it('falls back to one photo of any kind', () => {
+      expect(resolveEvidencePolicy(kitchenCleaning, [])).toEqual(DEFAULT_EVIDENCE_POLICY);
+    });
+
+    it('picks the matching rule that sets the most matchers', () => {
+      const rules = [
+        rule('area', { area: 'kitchen' }, [{ photoType: 'any', min: 1 }]),
+        rule('both', { area: 'kitchen', category: 'cleaning' }, [{ photoType: 'after', min: 2 }]),
+        rule('other', { area: 'pool', category: 'cleaning' }, []),
+      ];
+      expect(resolveEvidencePolicy(kitchenCleaning, rules).photos).toEqual([{ photoType: 'after', min: 2 }]);
+    });
+
+    it('earlier rules win ties', () => {
+      const rules = [
+        rule('first', { severity: 'minor' }, []),
+        rule('second', { area: 'kitchen' }, [{ photoType: 'after', min: 1 }]),
+      ];
+      expect(resolveEvidencePolicy(kitchenCleaning, rules).photos).toEqual([]);
+    });
+
+    it('a template policy beats household rules', () => {
+      const rules = [rule('both', { area: 'kitchen', category: 'cleaning' }, [{ photoType: 'after', min: 2 }])];
+      const template = { photos: [{ photoType: 'receipt' as const, min: 1 }] };
+      expect(resolveEvidencePolicy(kitchenCleaning, rules, template)).toEqual(template);
+    });
+
+    it('inspections always add a before and an after photo', () => {
+      const inspection = { ...kitchenCleaning, isInspection: true };
+      const rules = [rule('none', { severity: 'minor' }, [{ photoType: 'after', min: 2 }])];
+      expect(resolveEvidencePolicy(inspection, rules).photos).toEqual([
+        { photoType: 'after', min: 2 },
+        { photoType: 'before', min: 1 },
+      ]);
+    });
+  });
+
+  // ─── Missing evidence ───────────────────────────────────────────────────────
+
+  describe('missingEvidence', () => {
+    const repair = {
+      photos: [
+        { photoType: 'before' as const, min: 1 },
+        { photoType: 'after' as const, min: 2 },
+        { photoType: 'receipt' as const, min: 1 },
+      ],
+    };
+
+    it('lists every requirement that is short, with what is already there', () => {
+      expect(missingEvidence(repair, photos('after', 'completion'))).toEqual([
+        'a before photo',
+        '2 after photos (1 uploaded)',
+        'a receipt photo',
+      ]);
+    });
+
+    it('is empty when the policy is met', () => {
+      expect(missingEvidence(repair, photos('before', 'after', 'after', 'receipt'))).toEqual([]);
+    });
+
+    it('an empty policy needs nothing', () => {
+      expect(missingEvidence({ photos: [] }, [])).toEqual([]);
+    });
+
+    it('any counts photos of every type', () => {
+      expect(missingEvidence({ photos: [{ photoType: 'any', min: 2 }] }, photos('before', 'receipt'))).toEqual([]);
+    });
+
+    it('checklist steps that need a photo need one attached to that step', () => {
+      const checklist = [
+        { id: 'a', label: 'Check filter pressure', required: true, checked: true, photoRequired: true },
+        { id: 'b', label: 'Brush the steps', required: false, checked: false, photoRequired: true },
+        { id: 'c', label: 'Clean skimmer', required: false, checked: true, photoRequired: true },
+      ];
+      const uploaded = [{ photoType: 'completion' as const, checklistItemId: 'c' }];
+      expect(missingEvidence({ photos: [] }, uploaded, checklist)).toEqual(['a photo for "Check filter pressure"']);
+    });
+  });
+
+  // ─── Validation ─────────────────────────────────────────────────────────────
+
+  describe('validateEvidencePolicy', () => {
+    it('accepts an empty policy', () => {
+      expect(() => validateEvidencePolicy({ photos: [] })).not.toThrow();
+    });
+
+    it('rejects a min outside 1–10', () => {
+      expect(() => validateEvidencePolicy({ photos: [{ photoType: 'after', min: 0 }] })).toThrow(EvidencePolicyError);
+      expect(() => validateEvidencePolicy({ photos: [{ photoType: 'after', min: 11 }] })).toThrow(EvidencePolicyError);
+    });
+
+    it('rejects the same photo type twice', () => {
+      expect(() =>
+        validateEvidencePolicy({ photos: [{ photoType: 'after', min: 1 }, { photoType: 'after', min: 2 }] })
+      ).toThrow('more than once');
+    });
+  });
+
+  it('MissingEvidenceError lists what is missing', () => {
+    const err = new MissingEvidenceError(['a receipt photo', '2 after photos (1 uploaded)']);
+    expect(err.message).toBe('Cannot transition to needs_review: missing a receipt photo, 2 after photos (1 uploaded)');
+    expect(err.missing).toHaveLength(2);
+  });
+});
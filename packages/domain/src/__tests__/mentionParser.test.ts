@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { extractMentions } from '../mentionParser';
+import type { MentionCandidate } from '../mentionParser';
+
+const users: MentionCandidate[] = [
+  { id: 'u-maria', name: 'Maria' },
+  { id: 'u-rosa', name: 'Rosa' },
+  { id: 'u-ana', name: 'Ana Lucía' },
+];
+
+describe('mentionParser', () => {
+  it('resolves a single @name to its user', () => {
+    expect(extractMentions('@Rosa please check the sink', users)).toEqual([users[1]]);
+  });
+
+  it('matching is case-insensitive', () => {
+    expect(extractMentions('thanks @maria', users)).toEqual([users[0]]);
+  });
+
+  it('matches the first name of a multi-word name', () => {
+    expect(extractMentions('@ana can you look?', users)).toEqual([users[2]]);
+  });
+
+  it('ignores trailing punctuation', () => {
+    expect(extractMentions('Done, @Rosa.', users)).toEqual([users[1]]);
+  });
+
+  it('returns each user once, in order of first mention', () => {
+    const result = extractMentions('@Rosa @Maria and again @rosa', users);
+    expect(result.map((u) => u.id)).toEqual(['u-rosa', 'u-maria']);
+  });
+
+  it('ignores unknown names', () => {
+    expect(extractMentions('@Pedro is not on the team', users)).toEqual([]);
+  });
+
+  it('does not treat an email address as a mention', () => {
+    expect(extractMentions('send it to rosa@maria.local', users)).toEqual([]);
+  });
+
+  it('returns empty for a body with no mentions', () => {
+    expect(extractMentions('no mentions here', users)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { photoIntegrityFlags, hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE } from '../photoIntegrity';
+import type { IntegrityPhoto } from '../photoIntegrity';
+
+const TICKET_CREATED = new Date('2024-03-10T12:00:00Z');
+
+function photo(overrides: Partial<IntegrityPhoto> = {}): IntegrityPhoto {
+  return {
+    id: 'p1',
+    ticketId: 't1',
+    capturedAt: null,
+    phash: null,
+    createdAt: new Date('2024-03-10T15:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('photoIntegrity', () => {
+
+  // ─── hammingDistance ────────────────────────────────────────────────────────
+
+  describe('hammingDistance', () => {
+    it('counts differing bits', () => {
+      expect(hammingDistance('ffff0000ffff0000', 'ffff0000ffff0000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    });
+
+    it('refuses hashes of different lengths', () => {
+      expect(() => hammingDistance('00', '0000')).toThrow('different lengths');
+    });
+  });
+
+  // ─── Capture time ───────────────────────────────────────────────────────────
+
+  describe('captured before the ticket', () => {
+    it('flags a photo taken well before the ticket was created', () => {
+      const capturedAt = new Date('2024-03-01T09:00:00Z');
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ capturedAt })], [])).toEqual([
+        { kind: 'captured_before_ticket', photoId: 'p1', capturedAt },
+      ]);
+    });
+
+    it('allows a few minutes of camera clock drift', () => {
+      const capturedAt = new Date('2024-03-10T11:55:00Z');
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ capturedAt })], [])).toEqual([]);
+    });
+
+    it('does not flag photos without a capture time', () => {
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo()], [])).toEqual([]);
+    });
+  });
+
+  // ─── Near-duplicates ────────────────────────────────────────────────────────
+
+  describe('near-duplicates', () => {
+    const hash = 'a5a5a5a5a5a5a5a5';
+    const earlier = new Date('2024-02-01T10:00:00Z');
+
+    it('flags the closest earlier photo from another ticket', () => {
+      const others = [
+        photo({ id: 'far', ticketId: 't2', phash: 'a5a5a5a5a5a5a5ff', createdAt: earlier }), // 4 bits off
+        photo({ id: 'near', ticketId: 't3', phash: 'a5a5a5a5a5a5a5a4', createdAt: earlier }), // 1 bit off
+      ];
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ phash: hash })], others)).toEqual([
+        { kind: 'near_duplicate', photoId: 'p1', matchPhotoId: 'near', matchTicketId: 't3', distance: 1 },
+      ]);
+    });
+
+    it('ignores photos that are too different', () => {
+      const different = 'a5a5a5a5a5a55a5a'; // 16 bits off
+      expect(hammingDistance(hash, different)).toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE);
+      const others = [photo({ id: 'p2', ticketId: 't2', phash: different, createdAt: earlier })];
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ phash: hash })], others)).toEqual([]);
+    });
+
+    it('ignores photos on the same ticket and photos uploaded later', () => {
+      const others = [
+        photo({ id: 'same', ticketId: 't1', phash: hash, createdAt: earlier }),
+        photo({ id: 'later', ticketId: 't2', phash: hash, createdAt: new Date('2024-03-11T00:00:00Z') }),
+      ];
+      expect(photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ phash: hash })], others)).toEqual([]);
+    });
+
+    it('can flag the same photo for both reasons', () => {
+      const capturedAt = new Date('2024-02-01T09:00:00Z');
+      const others = [photo({ id: 'p2', ticketId: 't2', phash: hash, createdAt: earlier })];
+      const flags = photoIntegrityFlags({ createdAt: TICKET_CREATED }, [photo({ phash: hash, capturedAt })], others);
+      expect(flags.map((f) => f.kind)).toEqual(['captured_before_ticket', 'near_duplicate']);
+    });
+  });
+});
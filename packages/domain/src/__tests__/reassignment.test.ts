@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateReassignment,
+  validateHandoffRequest,
+  assigneeAt,
+  ReassignmentError,
+  MAX_HANDOFF_REASON,
+} from '../reassignment';
+import type { AssignmentChange } from '../reassignment';
+
+const open = { assignedUserId: 'ana', isTerminal: false };
+
+describe('reassignment', () => {
+
+  // ─── validateReassignment ───────────────────────────────────────────────────
+
+  describe('validateReassignment', () => {
+    it('allows moving an open ticket to someone else or to nobody', () => {
+      expect(() => validateReassignment(open, 'luis')).not.toThrow();
+      expect(() => validateReassignment(open, null)).not.toThrow();
+    });
+
+    it('refuses finished tickets', () => {
+      expect(() => validateReassignment({ ...open, isTerminal: true }, 'luis')).toThrow(ReassignmentError);
+    });
+
+    it('refuses a no-op', () => {
+      expect(() => validateReassignment(open, 'ana')).toThrow('already assigned');
+      expect(() => validateReassignment({ assignedUserId: null, isTerminal: false }, null)).toThrow('already unassigned');
+    });
+  });
+
+  // ─── validateHandoffRequest ─────────────────────────────────────────────────
+
+  describe('validateHandoffRequest', () => {
+    it('returns the trimmed reason', () => {
+      expect(validateHandoffRequest(open, 'ana', "  I'm off sick  ", false)).toBe("I'm off sick");
+    });
+
+    it('only the assignee may ask', () => {
+      expect(() => validateHandoffRequest(open, 'luis', 'Busy', false)).toThrow('Only the person assigned');
+    });
+
+    it('one request at a time', () => {
+      expect(() => validateHandoffRequest(open, 'ana', 'Busy', true)).toThrow('already waiting');
+    });
+
+    it('needs a reason of reasonable length', () => {
+      expect(() => validateHandoffRequest(open, 'ana', '   ', false)).toThrow(ReassignmentError);
+      expect(() => validateHandoffRequest(open, 'ana', 'x'.repeat(MAX_HANDOFF_REASON + 1), false)).toThrow('at most');
+    });
+
+    it('refuses finished tickets', () => {
+      expect(() => validateHandoffRequest({ ...open, isTerminal: true }, 'ana', 'Busy', false)).toThrow('Finished');
+    });
+  });
+
+  // ─── assigneeAt ─────────────────────────────────────────────────────────────
+
+  describe('assigneeAt', () => {
+    const changes: AssignmentChange[] = [
+      // Listed out of order on purpose
+      { fromUserId: 'luis', toUserId: 'rosa', at: new Date('2024-01-12T09:00:00Z') },
+      { fromUserId: 'ana', toUserId: 'luis', at: new Date('2024-01-10T09:00:00Z') },
+    ];
+
+    it('is the current assignee when the ticket never changed hands', () => {
+      expect(assigneeAt('ana', [], new Date('2024-01-01T00:00:00Z'))).toBe('ana');
+    });
+
+    it('is the first assignee before any change', () => {
+      expect(assigneeAt('rosa', changes, new Date('2024-01-09T00:00:00Z'))).toBe('ana');
+    });
+
+    it('follows each change from its own timestamp', () => {
+      expect(assigneeAt('rosa', changes, new Date('2024-01-10T09:00:00Z'))).toBe('luis');
+      expect(assigneeAt('rosa', changes, new Date('2024-01-11T00:00:00Z'))).toBe('luis');
+      expect(assigneeAt('rosa', changes, new Date('2024-01-13T00:00:00Z'))).toBe('rosa');
+    });
+
+    it('can be nobody while the ticket was unassigned', () => {
+      const unassigned = [{ fromUserId: 'ana', toUserId: null, at: new Date('2024-01-10T00:00:00Z') }];
+      expect(assigneeAt(null, unassigned, new Date('2024-01-11T00:00:00Z'))).toBeNull();
+    });
+  });
+});
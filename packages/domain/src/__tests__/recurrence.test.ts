@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRRule,
+  formatRRule,
+  ruleForFrequency,
+  isDueOn,
+  upcomingOccurrences,
+  occurrencesBetween,
+  RecurrenceRuleError,
+} from '../recurrence';
+import type { RecurrenceSchedule } from '../recurrence';
+
+// Local-time dates, like the recurring cron sees them. 1 Jan 2024 is a Monday.
+function day(y: number, m: number, d: number): Date {
+  return new Date(y, m - 1, d);
+}
+
+function ymd(d: Date): string {
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
+
+function schedule(rrule: string, start = day(2024, 1, 1), extra: Partial<RecurrenceSchedule> = {}): RecurrenceSchedule {
+  return { rule: parseRRule(rrule), start, ...extra };
+}
+
+function between(s: RecurrenceSchedule, from: Date, to: Date): string[] {
+  return occurrencesBetween(s, from, to).map(ymd);
+}
+
+describe('recurrence', () => {
+
+  // ─── Parsing ────────────────────────────────────────────────────────────────
+
+  describe('parseRRule', () => {
+    it('reads every supported part', () => {
+      expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,-1FR;BYSETPOS=-1;COUNT=5;WKST=SU')).toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        byDay: [{ day: 'MO' }, { day: 'FR', nth: -1 }],
+        bySetPos: [-1],
+        count: 5,
+        weekStart: 'SU',
+      });
+    });
+
+    it('accepts lower case and date or UTC UNTIL values', () => {
+      expect(parseRRule('freq=daily;until=20240131').until).toEqual(day(2024, 1, 31));
+      expect(parseRRule('FREQ=DAILY;UNTIL=20240131T120000Z').until).toEqual(new Date(Date.UTC(2024, 0, 31, 12)));
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['INTERVAL=2', 'FREQ is required'],
+      ['FREQ=HOURLY', 'FREQ must be one of'],
+      ['FREQ=DAILY;BYHOUR=9', 'Unsupported rule part BYHOUR'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be'],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20240101', 'COUNT and UNTIL'],
+      ['FREQ=DAILY;FREQ=WEEKLY', 'more than once'],
+      ['FREQ=WEEKLY;BYDAY=XX', 'Unknown weekday'],
+      ['FREQ=WEEKLY;BYDAY=2TU', 'needs FREQ=MONTHLY'],
+      ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY cannot be used'],
+      ['FREQ=MONTHLY;BYSETPOS=1', 'needs BYDAY or BYMONTHDAY'],
+      ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY values'],
+      ['FREQ=YEARLY;BYDAY=MO', 'needs BYMONTH'],
+      ['FREQ=DAILY;INTERVAL', 'Malformed'],
+    ])('rejects %j', (text, message) => {
+      expect(() => parseRRule(text)).toThrow(RecurrenceRuleError);
+      expect(() => parseRRule(text)).toThrow(message);
+    });
+  });
+
+  describe('formatRRule', () => {
+    it('round-trips through parseRRule', () => {
+      for (const text of [
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR',
+        'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+        'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15;UNTIL=20300101',
+        'FREQ=DAILY;INTERVAL=90;COUNT=4;WKST=SU',
+      ]) {
+        expect(formatRRule(parseRRule(text))).toBe(text);
+      }
+    });
+  });
+
+  // ─── Common schedules ───────────────────────────────────────────────────────
+
+  describe('schedules', () => {
+    it('every Tuesday and Friday', () => {
+      const s = schedule('FREQ=WEEKLY;BYDAY=TU,FR');
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 14))).toEqual(['2024-1-2', '2024-1-5', '2024-1-9', '2024-1-12']);
+    });
+
+    it('every other week, counted from the start week', () => {
+      const s = schedule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', day(2024, 1, 2));
+      expect(between(s, day(2024, 1, 1), day(2024, 2, 5))).toEqual(['2024-1-2', '2024-1-16', '2024-1-30']);
+    });
+
+    it('weekly without BYDAY repeats on the start weekday', () => {
+      const s = schedule('FREQ=WEEKLY', day(2024, 1, 4));
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 20))).toEqual(['2024-1-4', '2024-1-11', '2024-1-18']);
+    });
+
+    it('last business day of the month', () => {
+      const s = schedule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+      const days = between(s, day(2024, 1, 1), day(2024, 8, 31));
+      // June 30 is a Sunday and August 31 a Saturday
+      expect(days).toEqual(['2024-1-31', '2024-2-29', '2024-3-29', '2024-4-30', '2024-5-31', '2024-6-28', '2024-7-31', '2024-8-30']);
+    });
+
+    it('every 90 days from the start date', () => {
+      const s = schedule('FREQ=DAILY;INTERVAL=90');
+      expect(between(s, day(2024, 1, 1), day(2024, 12, 31))).toEqual(['2024-1-1', '2024-3-31', '2024-6-29', '2024-9-27', '2024-12-26']);
+    });
+
+    it('second Tuesday of each month', () => {
+      const s = schedule('FREQ=MONTHLY;BYDAY=2TU');
+      expect(between(s, day(2024, 1, 1), day(2024, 3, 31))).toEqual(['2024-1-9', '2024-2-13', '2024-3-12']);
+    });
+
+    it('the 31st skips months that are too short', () => {
+      const s = schedule('FREQ=MONTHLY;BYMONTHDAY=31');
+      expect(between(s, day(2024, 1, 1), day(2024, 5, 31))).toEqual(['2024-1-31', '2024-3-31', '2024-5-31']);
+    });
+
+    it('negative BYMONTHDAY counts from the end of the month', () => {
+      const s = schedule('FREQ=MONTHLY;BYMONTHDAY=-1');
+      expect(between(s, day(2024, 2, 1), day(2024, 3, 31))).toEqual(['2024-2-29', '2024-3-31']);
+    });
+
+    it('monthly without BY parts repeats on the start day of the month', () => {
+      const s = schedule('FREQ=MONTHLY;INTERVAL=3', day(2024, 1, 15));
+      expect(between(s, day(2024, 1, 1), day(2024, 12, 31))).toEqual(['2024-1-15', '2024-4-15', '2024-7-15', '2024-10-15']);
+    });
+
+    it('yearly on a fixed date', () => {
+      const s = schedule('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15');
+      expect(between(s, day(2024, 1, 1), day(2026, 12, 31))).toEqual(['2024-3-15', '2025-3-15', '2026-3-15']);
+    });
+
+    it('daily restricted to weekdays', () => {
+      const s = schedule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR');
+      expect(between(s, day(2024, 1, 5), day(2024, 1, 9))).toEqual(['2024-1-5', '2024-1-8', '2024-1-9']);
+    });
+  });
+
+  // ─── Bounds and exceptions ──────────────────────────────────────────────────
+
+  describe('bounds', () => {
+    it('nothing happens before the start date', () => {
+      const s = schedule('FREQ=DAILY', day(2024, 1, 10));
+      expect(isDueOn(s, day(2024, 1, 9))).toBe(false);
+      expect(isDueOn(s, day(2024, 1, 10))).toBe(true);
+    });
+
+    it('the end date is the last possible day', () => {
+      const s = schedule('FREQ=DAILY', day(2024, 1, 1), { end: day(2024, 1, 3) });
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 10))).toEqual(['2024-1-1', '2024-1-2', '2024-1-3']);
+    });
+
+    it('UNTIL ends the rule the same way', () => {
+      const s = schedule('FREQ=DAILY;UNTIL=20240102');
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 10))).toEqual(['2024-1-1', '2024-1-2']);
+    });
+
+    it('exception dates are skipped', () => {
+      const s = schedule('FREQ=WEEKLY;BYDAY=MO', day(2024, 1, 1), { exceptions: [day(2024, 1, 8)] });
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 21))).toEqual(['2024-1-1', '2024-1-15']);
+    });
+
+    it('COUNT limits the number of occurrences, with exceptions still using up the count', () => {
+      const s = schedule('FREQ=DAILY;COUNT=3', day(2024, 1, 1), { exceptions: [day(2024, 1, 2)] });
+      expect(between(s, day(2024, 1, 1), day(2024, 1, 10))).toEqual(['2024-1-1', '2024-1-3']);
+    });
+
+    it('COUNT is counted from the start, not from the window', () => {
+      const s = schedule('FREQ=WEEKLY;BYDAY=MO;COUNT=2');
+      expect(isDueOn(s, day(2024, 1, 8))).toBe(true);
+      expect(isDueOn(s, day(2024, 1, 15))).toBe(false);
+    });
+  });
+
+  // ─── Frequencies ────────────────────────────────────────────────────────────
+
+  describe('ruleForFrequency', () => {
+    const monday = day(2024, 1, 15);
+    const tuesday = day(2024, 1, 16);
+    const firstOfFeb = day(2024, 2, 1); // a Thursday
+
+    function due(frequency: 'daily' | 'weekly' | 'monthly' | 'custom', date: Date): boolean {
+      return isDueOn(schedule(ruleForFrequency(frequency)), date);
+    }
+
+    it('daily and custom templates are due every day', () => {
+      expect(due('daily', tuesday)).toBe(true);
+      expect(due('custom', tuesday)).toBe(true);
+    });
+
+    it('weekly templates are due on Mondays only', () => {
+      expect(due('weekly', monday)).toBe(true);
+      expect(due('weekly', tuesday)).toBe(false);
+    });
+
+    it('monthly templates are due on the 1st only', () => {
+      expect(due('monthly', firstOfFeb)).toBe(true);
+      expect(due('monthly', monday)).toBe(false);
+    });
+  });
+
+  describe('upcomingOccurrences', () => {
+    it('lists local midnights starting today', () => {
+      const days = upcomingOccurrences(schedule('FREQ=DAILY'), new Date(2024, 0, 15, 9, 30), 3);
+      expect(days.map(ymd)).toEqual(['2024-1-15', '2024-1-16', '2024-1-17']);
+      expect(days[0].getHours()).toBe(0);
+    });
+
+    it('returns nothing for an empty window', () => {
+      expect(upcomingOccurrences(schedule('FREQ=DAILY'), day(2024, 1, 15), 0)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateRejection,
+  rejectionPenalty,
+  isRejectionReason,
+  RejectionReasonError,
+  REJECTION_REASONS,
+  REJECTION_PENALTY,
+} from '../rejectionReasons';
+
+describe('rejectionReasons', () => {
+
+  // ─── validateRejection ──────────────────────────────────────────────────────
+
+  describe('validateRejection', () => {
+    it('accepts every catalogued reason', () => {
+      for (const reason of REJECTION_REASONS) {
+        expect(validateRejection(reason, 'details')).toBe(reason);
+      }
+    });
+
+    it('requires a reason', () => {
+      expect(() => validateRejection(undefined)).toThrow(RejectionReasonError);
+      expect(() => validateRejection('')).toThrow('required');
+    });
+
+    it('rejects unknown reasons', () => {
+      expect(() => validateRejection('lazy')).toThrow('Unknown rejection reason "lazy"');
+    });
+
+    it('needs a note only for "other"', () => {
+      expect(validateRejection('incomplete')).toBe('incomplete');
+      expect(() => validateRejection('other', '  ')).toThrow('note');
+      expect(validateRejection('other', 'Used the wrong cleaner')).toBe('other');
+    });
+  });
+
+  // ─── Penalties ──────────────────────────────────────────────────────────────
+
+  describe('rejectionPenalty', () => {
+    it('uses the weight of the reason', () => {
+      expect(rejectionPenalty('damage')).toBe(REJECTION_PENALTY.damage);
+      expect(rejectionPenalty('missing_evidence')).toBeLessThan(rejectionPenalty('poor_quality'));
+    });
+
+    it('charges the old flat 10 for rejections without a reason', () => {
+      expect(rejectionPenalty(null)).toBe(10);
+      expect(rejectionPenalty(undefined)).toBe(10);
+    });
+  });
+
+  it('isRejectionReason narrows strings', () => {
+    expect(isRejectionReason('wrong_area')).toBe(true);
+    expect(isRejectionReason('WRONG_AREA')).toBe(false);
+    expect(isRejectionReason(3)).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateDispute,
+  validateResolution,
+  adjustmentFor,
+  deductionFor,
+  ScoreDisputeError,
+  MAX_DISPUTE_REASON,
+} from '../scoreDisputes';
+import { computeScore } from '../scoringEngine';
+import type { ScoreLedgerEntry, TicketHistory } from '../scoringEngine';
+import { DEFAULT_SCORING_POLICY } from '../scoringPolicy';
+
+const ledger: ScoreLedgerEntry[] = [
+  { ticketId: 't1', rule: 'rejection', points: -15, reason: 'poor_quality' },
+  { ticketId: 't1', rule: 'rejection', points: -10, reason: null },
+  { ticketId: 't2', rule: 'late', points: -6, days: 2 },
+  { ticketId: null, rule: 'score_floor', points: 4 },
+];
+
+describe('scoreDisputes', () => {
+
+  // ─── deductionFor ───────────────────────────────────────────────────────────
+
+  describe('deductionFor', () => {
+    it('adds up every line for the ticket and rule', () => {
+      expect(deductionFor(ledger, { ticketId: 't1', rule: 'rejection' })).toBe(-25);
+      expect(deductionFor(ledger, { ticketId: 't2', rule: 'late' })).toBe(-6);
+    });
+
+    it('is 0 when the ledger has no such deduction', () => {
+      expect(deductionFor(ledger, { ticketId: 't2', rule: 'skipped' })).toBe(0);
+    });
+  });
+
+  // ─── validateDispute ────────────────────────────────────────────────────────
+
+  describe('validateDispute', () => {
+    it('returns the deduction and the trimmed reason', () => {
+      expect(validateDispute(ledger, { ticketId: 't2', rule: 'late' }, '  Waiting on parts  ', false)).toEqual({
+        line: { ticketId: 't2', rule: 'late' },
+        points: -6,
+        reason: 'Waiting on parts',
+      });
+    });
+
+    it('refuses lines that are not ticket deductions', () => {
+      expect(() => validateDispute(ledger, { ticketId: 't1', rule: 'score_floor' }, 'why', false)).toThrow(ScoreDisputeError);
+      expect(() => validateDispute(ledger, { ticketId: 't1', rule: 'perfect_bonus' }, 'why', false)).toThrow('Only rejection');
+    });
+
+    it('refuses a deduction that is not on the score', () => {
+      expect(() => validateDispute(ledger, { ticketId: 't9', rule: 'late' }, 'why', false)).toThrow('not on this score');
+    });
+
+    it('refuses a deduction already disputed', () => {
+      expect(() => validateDispute(ledger, { ticketId: 't2', rule: 'late' }, 'why', true)).toThrow('already been disputed');
+    });
+
+    it('needs a reason of limited length', () => {
+      expect(() => validateDispute(ledger, { ticketId: 't2', rule: 'late' }, '   ', false)).toThrow('Say why');
+      expect(() => validateDispute(ledger, { ticketId: 't2', rule: 'late' }, 'x'.repeat(MAX_DISPUTE_REASON + 1), false)).toThrow(`at most ${MAX_DISPUTE_REASON}`);
+    });
+  });
+
+  // ─── validateResolution ─────────────────────────────────────────────────────
+
+  describe('validateResolution', () => {
+    it('gives back the whole deduction by default when accepting', () => {
+      expect(validateResolution(-6, true)).toEqual({ adjustment: 6, note: null });
+    });
+
+    it('accepts a partial adjustment, but never more than was deducted', () => {
+      expect(validateResolution(-6, true, 3, ' Half was on you ')).toEqual({ adjustment: 3, note: 'Half was on you' });
+      expect(() => validateResolution(-6, true, 7)).toThrow('at most the 6 points');
+      expect(() => validateResolution(-6, true, 0)).toThrow(ScoreDisputeError);
+    });
+
+    it('needs a reason to decline', () => {
+      expect(() => validateResolution(-6, false)).toThrow('Say why');
+      expect(validateResolution(-6, false, undefined, 'Parts were in stock')).toEqual({ adjustment: null, note: 'Parts were in stock' });
+    });
+  });
+
+  // ─── adjustmentFor ──────────────────────────────────────────────────────────
+
+  describe('adjustmentFor', () => {
+    const unfloored = ledger.filter((e) => e.rule !== 'score_floor');
+
+    it('sums the adjustments whose deduction is on the score', () => {
+      const accepted = [
+        { ticketId: 't2', rule: 'late' as const, points: 6 },
+        { ticketId: 't1', rule: 'rejection' as const, points: 10 },
+        { ticketId: 't9', rule: 'late' as const, points: 3 }, // another week's ticket
+      ];
+      expect(adjustmentFor(unfloored, accepted)).toBe(16);
+    });
+
+    it('never gives back more than the score deducts now', () => {
+      expect(adjustmentFor(unfloored, [{ ticketId: 't2', rule: 'late', points: 9 }])).toBe(6);
+    });
+
+    it('only counts what lifts a floored score above the floor', () => {
+      expect(adjustmentFor(ledger, [{ ticketId: 't2', rule: 'late', points: 6 }])).toBe(2);
+      expect(adjustmentFor(ledger, [{ ticketId: 't2', rule: 'late', points: 3 }])).toBe(0);
+    });
+
+    it('brings a floored score to what it would be without the disputed deductions', () => {
+      // Eleven tickets sent back once each: 100 - 110 is held at a floor of 0
+      const tickets: TicketHistory[] = Array.from({ length: 11 }, (_, i) => ({
+        id: `t${i}`,
+        severity: 'minor',
+        isRecurring: false,
+        isInspection: false,
+        openedAt: new Date('2024-01-10T08:00:00Z'),
+        submittedAt: new Date('2024-01-10T10:00:00Z'),
+        events: ['rejection', 'completed'],
+        wasSkipped: false,
+      }));
+      const score = (ts: TicketHistory[]) =>
+        computeScore({
+          tickets: ts,
+          period: { start: new Date('2024-01-08T00:00:00Z'), end: new Date('2024-01-15T00:00:00Z') },
+          completedCount: 0,
+          maxCompletedByAnyUser: 0,
+          policy: { ...DEFAULT_SCORING_POLICY, scoreFloor: 0 },
+        });
+      const floored = score(tickets);
+      expect(floored.total).toBe(0);
+
+      for (const disputed of [['t0'], ['t0', 't1'], ['t0', 't1', 't2']]) {
+        const accepted = disputed.map((ticketId) => ({ ticketId, rule: 'rejection' as const, points: 10 }));
+        const without = score(tickets.filter((t) => !disputed.includes(t.id)));
+        expect(floored.total + adjustmentFor(floored.ledger, accepted)).toBe(without.total);
+      }
+    });
+  });
+});
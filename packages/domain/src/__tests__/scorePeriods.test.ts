@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { periodContaining, previousPeriod, isPeriodClosed } from '../scorePeriods';
+
+// Local-time dates, as the periods themselves are local
+const local = (y: number, m: number, d: number, h = 0) => new Date(y, m - 1, d, h);
+
+describe('scorePeriods', () => {
+
+  // ─── Weeks ──────────────────────────────────────────────────────────────────
+
+  describe('weekly', () => {
+    it('runs from Sunday midnight to the next Sunday', () => {
+      expect(periodContaining('weekly', local(2024, 3, 14, 15))).toEqual({
+        type: 'weekly',
+        start: local(2024, 3, 10),
+        end: local(2024, 3, 17),
+      });
+    });
+
+    it('puts Sunday midnight in the week it starts', () => {
+      expect(periodContaining('weekly', local(2024, 3, 17)).start).toEqual(local(2024, 3, 17));
+    });
+
+    it('crosses month and year boundaries', () => {
+      expect(periodContaining('weekly', local(2025, 1, 1, 12))).toMatchObject({
+        start: local(2024, 12, 29),
+        end: local(2025, 1, 5),
+      });
+    });
+  });
+
+  // ─── Months ─────────────────────────────────────────────────────────────────
+
+  describe('monthly', () => {
+    it('runs from the 1st to the 1st of the next month', () => {
+      expect(periodContaining('monthly', local(2024, 2, 29, 23))).toEqual({
+        type: 'monthly',
+        start: local(2024, 2, 1),
+        end: local(2024, 3, 1),
+      });
+    });
+
+    it('rolls December into January', () => {
+      expect(periodContaining('monthly', local(2024, 12, 31)).end).toEqual(local(2025, 1, 1));
+    });
+  });
+
+  // ─── Navigation ─────────────────────────────────────────────────────────────
+
+  describe('previousPeriod and isPeriodClosed', () => {
+    it('steps back one week or month', () => {
+      expect(previousPeriod(periodContaining('weekly', local(2024, 3, 14))).start).toEqual(local(2024, 3, 3));
+      expect(previousPeriod(periodContaining('monthly', local(2024, 3, 14))).start).toEqual(local(2024, 2, 1));
+    });
+
+    it('closes a period at its end', () => {
+      const week = periodContaining('weekly', local(2024, 3, 14));
+      expect(isPeriodClosed(week, local(2024, 3, 16, 23))).toBe(false);
+      expect(isPeriodClosed(week, local(2024, 3, 17))).toBe(true);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { computeScore } from '../scoringEngine';
+import { computeScore, daysLate } from '../scoringEngine';
 import type { TicketHistory, ScoringInput } from '../scoringEngine';
+import { DEFAULT_SCORING_POLICY } from '../scoringPolicy';
+import type { ScoringPolicy } from '../scoringPolicy';
 
 const period = {
   start: new Date('2024-01-08T00:00:00Z'),
@@ -94,6 +96,23 @@ describe('scoringEngine (simplified)', () => {
       expect(result.quality).toBe(-100);
       expect(result.total).toBe(0);
     });
+
+    it('weights each rejection by its reason', () => {
+      const ticket = makeTicket({
+        events: ['rejection', 'rejection', 'rejection'],
+        rejectionReasons: ['missing_evidence', 'damage', 'poor_quality'],
+      });
+      const result = computeScore(makeInput({ tickets: [ticket] }));
+      // 5 + 20 + 15
+      expect(result.quality).toBe(-40);
+      expect(result.volume).toBe(0);
+    });
+
+    it('rejections without a recorded reason keep the flat -10', () => {
+      const ticket = makeTicket({ events: ['rejection', 'rejection'], rejectionReasons: ['incomplete', null] });
+      const result = computeScore(makeInput({ tickets: [ticket] }));
+      expect(result.quality).toBe(-20);
+    });
   });
 
   // ─── Consistency (skips) ─────────────────────────────────────────────────────
@@ -184,6 +203,27 @@ describe('scoringEngine (simplified)', () => {
       const result = computeScore(makeInput({ tickets: [ticket] }));
       expect(result.speed).toBe(0);
     });
+
+    it('explicit dueAt replaces the severity deadline', () => {
+      const ticket = makeTicket({
+        severity: 'minor',
+        openedAt:    new Date('2024-01-10T08:00:00Z'),
+        dueAt:       new Date('2024-01-10T12:00:00Z'),
+        submittedAt: new Date('2024-01-11T08:00:00Z'), // within 48h, but 20h past dueAt
+      });
+      expect(daysLate(ticket)).toBe(1);
+      expect(computeScore(makeInput({ tickets: [ticket] })).speed).toBe(-3);
+    });
+
+    it('a later dueAt gives more time than the severity deadline', () => {
+      const ticket = makeTicket({
+        severity: 'immediate_interrupt',
+        openedAt:    new Date('2024-01-10T08:00:00Z'),
+        dueAt:       new Date('2024-01-12T08:00:00Z'),
+        submittedAt: new Date('2024-01-11T08:00:00Z'), // 24h after a 2h deadline, before dueAt
+      });
+      expect(computeScore(makeInput({ tickets: [ticket] })).speed).toBe(0);
+    });
   });
 
   // ─── Perfect period bonus ────────────────────────────────────────────────────
@@ -244,4 +284,99 @@ describe('scoringEngine (simplified)', () => {
       expect(result.total).toBe(100 - 15 * 10); // -50
     });
   });
+
+  // ─── Ledger ─────────────────────────────────────────────────────────────────
+
+  describe('ledger', () => {
+    const sum = (ledger: Array<{ points: number }>) => ledger.reduce((acc, e) => acc + e.points, 0);
+
+    it('has one line per rejection, carrying its reason', () => {
+      const ticket = makeTicket({ events: ['rejection', 'rejection', 'completed'], rejectionReasons: ['damage'] });
+      expect(computeScore(makeInput({ tickets: [ticket] })).ledger).toEqual([
+        { ticketId: 'ticket-1', rule: 'rejection', points: -20, reason: 'damage' },
+        { ticketId: 'ticket-1', rule: 'rejection', points: -10, reason: null },
+      ]);
+    });
+
+    it('charges skips and late days to their tickets', () => {
+      const tickets = [
+        makeTicket({ id: 'late', submittedAt: new Date('2024-01-13T07:00:00Z') }), // 71h: 1 day past 48h
+        makeTicket({ id: 'skip', isRecurring: true, wasSkipped: true, events: ['skipped'], submittedAt: undefined }),
+      ];
+      expect(computeScore(makeInput({ tickets })).ledger).toEqual([
+        { ticketId: 'late', rule: 'late', points: -3, days: 1 },
+        { ticketId: 'skip', rule: 'skipped', points: -5 },
+      ]);
+    });
+
+    it('lists the perfect-period bonus without a ticket', () => {
+      expect(computeScore(makeInput({ tickets: [makeTicket()] })).ledger).toEqual([
+        { ticketId: null, rule: 'perfect_bonus', points: 5 },
+      ]);
+    });
+
+    it('is empty with no tickets', () => {
+      expect(computeScore(makeInput()).ledger).toEqual([]);
+    });
+
+    it('adds up to total − 100, floor included', () => {
+      const tickets = Array.from({ length: 8 }, (_, i) =>
+        makeTicket({ id: `t${i}`, events: ['rejection'], rejectionReasons: ['damage'], isRecurring: true, wasSkipped: i % 2 === 0 })
+      );
+      for (const scoreFloor of [null, 0]) {
+        const result = computeScore(makeInput({ tickets, policy: { ...DEFAULT_SCORING_POLICY, scoreFloor } }));
+        expect(sum(result.ledger)).toBe(result.total - 100);
+      }
+      const floored = computeScore(makeInput({ tickets, policy: { ...DEFAULT_SCORING_POLICY, scoreFloor: 0 } }));
+      expect(floored.ledger.at(-1)).toEqual({ ticketId: null, rule: 'score_floor', points: 80 });
+    });
+  });
+
+  // ─── Household policy ───────────────────────────────────────────────────────
+
+  describe('household scoring policy', () => {
+    const policy = (overrides: Partial<ScoringPolicy>): ScoringPolicy => ({ ...DEFAULT_SCORING_POLICY, ...overrides });
+    const late = makeTicket({
+      severity: 'needs_fix_today',
+      openedAt:    new Date('2024-01-10T08:00:00Z'),
+      submittedAt: new Date('2024-01-11T08:00:00Z'), // 24h: 16h past 8h, on time with a 48h deadline
+    });
+
+    it('the default policy scores exactly like no policy', () => {
+      const tickets = [late, makeTicket({ id: 't2', events: ['rejection', 'completed'], rejectionReasons: ['damage'] })];
+      expect(computeScore(makeInput({ tickets, policy: DEFAULT_SCORING_POLICY }))).toEqual(computeScore(makeInput({ tickets })));
+    });
+
+    it('uses its own penalty sizes and bonus', () => {
+      const p = policy({ skipPenalty: 8, lateDayPenalty: 4, perfectBonus: 10 });
+      const skipped = makeTicket({ id: 'skip', isRecurring: true, wasSkipped: true, events: ['skipped'], submittedAt: undefined });
+      expect(computeScore(makeInput({ tickets: [late, skipped], policy: p }))).toMatchObject({ consistency: -8, speed: -4 });
+      expect(computeScore(makeInput({ tickets: [makeTicket()], policy: p })).volume).toBe(10);
+    });
+
+    it('scales rejections and lateness by severity multiplier', () => {
+      const p = policy({ severityMultiplier: { minor: 1, needs_fix_today: 2, immediate_interrupt: 4 } });
+      const rejected = makeTicket({ severity: 'immediate_interrupt', events: ['rejection'], rejectionReasons: ['incomplete'] });
+      expect(computeScore(makeInput({ tickets: [rejected, late], policy: p }))).toMatchObject({ quality: -40, speed: -6 });
+    });
+
+    it('takes severity deadlines from the policy', () => {
+      const p = policy({ deadlineHours: { minor: 48, needs_fix_today: 48, immediate_interrupt: 2 } });
+      expect(computeScore(makeInput({ tickets: [late], policy: p })).speed).toBe(0);
+      expect(daysLate(late, p)).toBe(0);
+    });
+
+    it('withholds the bonus until enough tickets were done', () => {
+      const p = policy({ perfectBonusMinTickets: 2 });
+      expect(computeScore(makeInput({ tickets: [makeTicket()], policy: p })).volume).toBe(0);
+      expect(computeScore(makeInput({ tickets: [makeTicket(), makeTicket({ id: 't2' })], policy: p })).volume).toBe(5);
+    });
+
+    it('never lets the total drop below the floor', () => {
+      const rejections = Array.from({ length: 12 }, (_, i) => makeTicket({ id: `r${i}`, events: ['rejection'], rejectionReasons: ['damage'] }));
+      const result = computeScore(makeInput({ tickets: rejections, policy: policy({ scoreFloor: 0 }) }));
+      expect(result.quality).toBe(-240);
+      expect(result.total).toBe(0);
+    });
+  });
 });
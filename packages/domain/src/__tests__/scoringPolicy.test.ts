@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { validateScoringPolicy, DEFAULT_SCORING_POLICY, ScoringPolicyError } from '../scoringPolicy';
+
+describe('scoringPolicy', () => {
+
+  // ─── Defaults ───────────────────────────────────────────────────────────────
+
+  describe('defaults', () => {
+    it('fills everything left out from the default policy', () => {
+      expect(validateScoringPolicy({})).toEqual(DEFAULT_SCORING_POLICY);
+    });
+
+    it('keeps given values and defaults the rest of a partial table', () => {
+      const policy = validateScoringPolicy({ skipPenalty: 8, rejectionPenalty: { damage: 30 }, scoreFloor: 0 });
+      expect(policy.skipPenalty).toBe(8);
+      expect(policy.rejectionPenalty).toEqual({ ...DEFAULT_SCORING_POLICY.rejectionPenalty, damage: 30 });
+      expect(policy.scoreFloor).toBe(0);
+      expect(policy.lateDayPenalty).toBe(DEFAULT_SCORING_POLICY.lateDayPenalty);
+    });
+
+    it('accepts null to remove the floor', () => {
+      expect(validateScoringPolicy({ scoreFloor: null }).scoreFloor).toBeNull();
+    });
+  });
+
+  // ─── Validation ─────────────────────────────────────────────────────────────
+
+  describe('validation', () => {
+    it('rejects negative or absurd penalties', () => {
+      expect(() => validateScoringPolicy({ skipPenalty: -5 })).toThrow('skipPenalty must be a number from 0 to 100');
+      expect(() => validateScoringPolicy({ lateDayPenalty: 1e6 })).toThrow(ScoringPolicyError);
+    });
+
+    it('rejects unknown fields, reasons and severities', () => {
+      expect(() => validateScoringPolicy({ volumeWeight: 0.1 })).toThrow('Unknown scoring policy field "volumeWeight"');
+      expect(() => validateScoringPolicy({ rejectionPenalty: { sloppy: 5 } })).toThrow('unknown key "sloppy"');
+      expect(() => validateScoringPolicy({ severityMultiplier: { urgent: 2 } })).toThrow('unknown key "urgent"');
+    });
+
+    it('needs deadlines above zero', () => {
+      expect(() => validateScoringPolicy({ deadlineHours: { minor: 0 } })).toThrow('deadlineHours.minor must be above 0');
+    });
+
+    it('needs a whole number of tickets for the bonus', () => {
+      expect(() => validateScoringPolicy({ perfectBonusMinTickets: 1.5 })).toThrow('whole number');
+    });
+
+    it('refuses a floor above the base score', () => {
+      expect(() => validateScoringPolicy({ scoreFloor: 150 })).toThrow('scoreFloor');
+    });
+
+    it('refuses anything that is not an object', () => {
+      expect(() => validateScoringPolicy([1, 2])).toThrow('must be an object');
+    });
+  });
+});
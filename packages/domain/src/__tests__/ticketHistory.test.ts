@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { buildTicketHistory, ticketOwner } from '../ticketHistory';
+import type { ScoredTicketRecord } from '../ticketHistory';
+import { computeScore } from '../scoringEngine';
+import type { TicketHistory } from '../scoringEngine';
+
+const ROSA = 'rosa';
+const MIGUEL = 'miguel';
+const NOW = new Date('2024-03-16T12:00:00Z');
+
+function record(overrides: Partial<ScoredTicketRecord> = {}): ScoredTicketRecord {
+  return {
+    id: 't1',
+    severity: 'minor',
+    status: 'closed',
+    isInspection: false,
+    recurringTemplateId: null,
+    mergedIntoId: null,
+    assignedUserId: ROSA,
+    createdAt: new Date('2024-03-11T08:00:00Z'),
+    dueAt: null,
+    auditLogs: [
+      { fromStatus: 'open', toStatus: 'in_progress', reason: null, createdAt: new Date('2024-03-11T09:00:00Z') },
+      { fromStatus: 'in_progress', toStatus: 'needs_review', reason: null, createdAt: new Date('2024-03-11T10:00:00Z') },
+      { fromStatus: 'needs_review', toStatus: 'closed', reason: null, createdAt: new Date('2024-03-11T11:00:00Z') },
+    ],
+    assignments: [],
+    ...overrides,
+  };
+}
+
+const rejectedOnce = [
+  { fromStatus: 'in_progress', toStatus: 'needs_review', reason: null, createdAt: new Date('2024-03-11T10:00:00Z') },
+  { fromStatus: 'needs_review', toStatus: 'in_progress', reason: 'poor_quality' as const, createdAt: new Date('2024-03-11T12:00:00Z') },
+  { fromStatus: 'in_progress', toStatus: 'needs_review', reason: null, createdAt: new Date('2024-03-12T10:00:00Z') },
+  { fromStatus: 'needs_review', toStatus: 'closed', reason: null, createdAt: new Date('2024-03-12T11:00:00Z') },
+];
+
+function score(tickets: TicketHistory[]) {
+  return computeScore({ tickets, period: { start: new Date('2024-03-10'), end: new Date('2024-03-17') }, completedCount: 0, maxCompletedByAnyUser: 0 });
+}
+
+describe('ticketHistory', () => {
+
+  // ─── Single ticket ──────────────────────────────────────────────────────────
+
+  describe('buildTicketHistory', () => {
+    it('maps a closed ticket to a completion submitted at its first review', () => {
+      expect(buildTicketHistory(record(), ROSA, NOW)).toEqual({
+        id: 't1',
+        severity: 'minor',
+        isRecurring: false,
+        isInspection: false,
+        openedAt: new Date('2024-03-11T08:00:00Z'),
+        submittedAt: new Date('2024-03-11T10:00:00Z'),
+        dueAt: null,
+        events: ['completed'],
+        rejectionReasons: [],
+        wasSkipped: false,
+      });
+    });
+
+    it('records each rejection with its reason', () => {
+      const history = buildTicketHistory(record({ auditLogs: rejectedOnce }), ROSA, NOW);
+      expect(history?.events).toEqual(['rejection', 'completed']);
+      expect(history?.rejectionReasons).toEqual(['poor_quality']);
+    });
+
+    it('counts a skipped recurring instance but not one merged into a newer one', () => {
+      const skipped = record({ status: 'skipped', recurringTemplateId: 'r1', auditLogs: [] });
+      expect(buildTicketHistory(skipped, ROSA, NOW)?.wasSkipped).toBe(true);
+      expect(buildTicketHistory({ ...skipped, mergedIntoId: 't9' }, ROSA, NOW)?.wasSkipped).toBe(false);
+    });
+
+    it('carries an explicit dueAt through to the engine', () => {
+      const dueAt = new Date('2024-03-11T09:00:00Z');
+      expect(buildTicketHistory(record({ dueAt }), ROSA, NOW)?.dueAt).toEqual(dueAt);
+    });
+  });
+
+  // ─── Reassigned tickets ─────────────────────────────────────────────────────
+
+  describe('reassigned tickets', () => {
+    // Rosa was rejected, then the ticket went to Miguel, who finished it
+    const handedOver = record({
+      assignedUserId: MIGUEL,
+      auditLogs: rejectedOnce,
+      assignments: [{ fromUserId: ROSA, toUserId: MIGUEL, createdAt: new Date('2024-03-11T13:00:00Z') }],
+    });
+
+    it('charges the rejection to whoever held the ticket when it was sent back', () => {
+      const rosa = buildTicketHistory(handedOver, ROSA, NOW);
+      expect(rosa?.events).toEqual(['rejection']);
+      expect(rosa?.submittedAt).toBeUndefined();
+    });
+
+    it('credits completion to whoever submitted it last, timed from their own submission', () => {
+      const miguel = buildTicketHistory(handedOver, MIGUEL, NOW);
+      expect(miguel?.events).toEqual(['completed']);
+      expect(miguel?.submittedAt).toEqual(new Date('2024-03-12T10:00:00Z'));
+    });
+
+    it('makes whoever submitted it last its owner', () => {
+      expect(ticketOwner(handedOver, NOW)).toBe(MIGUEL);
+      expect(ticketOwner(record({ auditLogs: [], assignedUserId: ROSA }), NOW)).toBe(ROSA);
+    });
+
+    it('leaves out a ticket the user only held in between', () => {
+      const passedThrough = record({
+        assignedUserId: MIGUEL,
+        assignments: [
+          { fromUserId: null, toUserId: ROSA, createdAt: new Date('2024-03-11T08:30:00Z') },
+          { fromUserId: ROSA, toUserId: MIGUEL, createdAt: new Date('2024-03-11T08:45:00Z') },
+        ],
+      });
+      expect(buildTicketHistory(passedThrough, ROSA, NOW)).toBeNull();
+    });
+  });
+
+  // ─── Golden week ────────────────────────────────────────────────────────────
+  // A fixed week of stored tickets and the scores it must produce. The weekly report and
+  // stored ScoreRecords both go through buildTicketHistory + computeScore, so these numbers
+  // are what each shows.
+
+  describe('golden week', () => {
+    const week: ScoredTicketRecord[] = [
+      record({ id: 'on-time' }),
+      record({ id: 'rejected', auditLogs: rejectedOnce }),
+      // Due in 1h, submitted 2h in (1 day late by dueAt, on time by the 48h minor deadline)
+      record({ id: 'past-due', dueAt: new Date('2024-03-11T09:00:00Z') }),
+      record({ id: 'skipped', status: 'skipped', recurringTemplateId: 'r1', auditLogs: [] }),
+      record({
+        id: 'handed-over',
+        assignedUserId: MIGUEL,
+        auditLogs: rejectedOnce,
+        assignments: [{ fromUserId: ROSA, toUserId: MIGUEL, createdAt: new Date('2024-03-11T13:00:00Z') }],
+      }),
+    ];
+
+    const historyFor = (userId: string) =>
+      week.flatMap((t) => buildTicketHistory(t, userId, NOW) ?? []);
+
+    it('scores Rosa: two poor_quality rejections, one late day, one skip', () => {
+      expect(score(historyFor(ROSA))).toEqual({
+        quality: -30,
+        consistency: -5,
+        speed: -3,
+        volume: 0,
+        total: 62,
+        ledger: [
+          { ticketId: 'rejected', rule: 'rejection', points: -15, reason: 'poor_quality' },
+          { ticketId: 'past-due', rule: 'late', points: -3, days: 1 },
+          { ticketId: 'skipped', rule: 'skipped', points: -5 },
+          { ticketId: 'handed-over', rule: 'rejection', points: -15, reason: 'poor_quality' },
+        ],
+      });
+    });
+
+    it('scores Miguel: one clean completion and the bonus', () => {
+      expect(score(historyFor(MIGUEL))).toEqual({
+        quality: 0,
+        consistency: 0,
+        speed: 0,
+        volume: 5,
+        total: 105,
+        ledger: [{ ticketId: null, rule: 'perfect_bonus', points: 5 }],
+      });
+    });
+  });
+});
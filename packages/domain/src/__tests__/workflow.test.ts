@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { validateWorkflowDefinition, WorkflowDefinitionError, DEFAULT_WORKFLOW } from '../workflow';
+import type { WorkflowDefinition } from '../workflow';
+import { validateTransition, TicketTransitionError } from '../ticketStateMachine';
+import type { TicketContext } from '../ticketStateMachine';
+
+// Default graph plus a parts-ordering detour and a scheduling step
+const withParts: WorkflowDefinition = {
+  states: [
+    ...DEFAULT_WORKFLOW.states,
+    { key: 'awaiting_parts', label: 'Awaiting Parts' },
+    { key: 'scheduled', label: 'Scheduled' },
+  ],
+  transitions: [
+    ...DEFAULT_WORKFLOW.transitions,
+    { from: 'open', to: 'scheduled', authorityOnly: true },
+    { from: 'scheduled', to: 'in_progress' },
+    { from: 'in_progress', to: 'awaiting_parts' },
+    { from: 'awaiting_parts', to: 'in_progress', authorityOnly: true },
+  ],
+};
+
+const ticket: TicketContext = {
+  id: 'ticket-1',
+  status: 'in_progress',
+  isRecurring: false,
+  severity: 'minor',
+};
+
+function expectInvalid(def: unknown, fragment: string) {
+  expect(() => validateWorkflowDefinition(def)).toThrow(WorkflowDefinitionError);
+  expect(() => validateWorkflowDefinition(def)).toThrow(fragment);
+}
+
+describe('workflow', () => {
+
+  // ─── Definition validation ──────────────────────────────────────────────────
+
+  describe('validateWorkflowDefinition', () => {
+    it('accepts the default workflow unchanged', () => {
+      expect(validateWorkflowDefinition(DEFAULT_WORKFLOW)).toEqual(DEFAULT_WORKFLOW);
+    });
+
+    it('accepts extra states with their own transitions', () => {
+      expect(validateWorkflowDefinition(withParts).states).toHaveLength(7);
+    });
+
+    it('rejects a non-object', () => {
+      expectInvalid('nope', '"states" and "transitions"');
+    });
+
+    it('rejects a missing core state', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, states: DEFAULT_WORKFLOW.states.filter((s) => s.key !== 'needs_review') },
+        "Missing core state 'needs_review'"
+      );
+    });
+
+    it('rejects closed that is not terminal', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, states: DEFAULT_WORKFLOW.states.map((s) => (s.key === 'closed' ? { key: 'closed' } : s)) },
+        "'closed' must be terminal"
+      );
+    });
+
+    it('rejects badly formatted state keys', () => {
+      expectInvalid({ ...withParts, states: [...DEFAULT_WORKFLOW.states, { key: 'Awaiting Parts' }] }, 'Invalid state key');
+    });
+
+    it('rejects duplicate states', () => {
+      expectInvalid({ ...DEFAULT_WORKFLOW, states: [...DEFAULT_WORKFLOW.states, { key: 'open' }] }, "Duplicate state 'open'");
+    });
+
+    it('rejects transitions to unknown states', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'open', to: 'nowhere' }] },
+        'unknown state'
+      );
+    });
+
+    it('rejects transitions out of a terminal state', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'closed', to: 'open' }] },
+        "leaves terminal state 'closed'"
+      );
+    });
+
+    it('rejects a transition into closed that employees could take', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'in_progress', to: 'closed' }] },
+        'must be authority-only'
+      );
+    });
+
+    it('rejects duplicate transitions', () => {
+      expectInvalid(
+        { ...DEFAULT_WORKFLOW, transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'open', to: 'in_progress' }] },
+        'Duplicate transition'
+      );
+    });
+
+    it('rejects an unreachable custom state', () => {
+      expectInvalid(
+        {
+          states: [...DEFAULT_WORKFLOW.states, { key: 'orphan' }],
+          transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'orphan', to: 'in_progress' }],
+        },
+        "'orphan' is not reachable"
+      );
+    });
+
+    it('rejects a dead-end non-terminal state', () => {
+      expectInvalid(
+        {
+          states: [...DEFAULT_WORKFLOW.states, { key: 'limbo' }],
+          transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'open', to: 'limbo' }],
+        },
+        "'limbo' has no outgoing transitions"
+      );
+    });
+
+    it('allows a workflow that never skips', () => {
+      const noSkips = {
+        ...DEFAULT_WORKFLOW,
+        transitions: DEFAULT_WORKFLOW.transitions.filter((t) => t.to !== 'skipped'),
+      };
+      expect(() => validateWorkflowDefinition(noSkips)).not.toThrow();
+    });
+  });
+
+  // ─── validateTransition with a custom workflow ──────────────────────────────
+
+  describe('validateTransition with a custom workflow', () => {
+    it('employee may move in_progress → awaiting_parts', () => {
+      expect(validateTransition('in_progress', 'awaiting_parts', 'employee', ticket, withParts).isRejection).toBe(false);
+    });
+
+    it('awaiting_parts → in_progress is authority-only', () => {
+      expect(() =>
+        validateTransition('awaiting_parts', 'in_progress', 'employee', { ...ticket, status: 'awaiting_parts' }, withParts)
+      ).toThrow(TicketTransitionError);
+      expect(() =>
+        validateTransition('awaiting_parts', 'in_progress', 'mother', { ...ticket, status: 'awaiting_parts' }, withParts)
+      ).not.toThrow();
+    });
+
+    it('custom transitions are invalid under the default workflow', () => {
+      expect(() => validateTransition('in_progress', 'awaiting_parts', 'employee', ticket)).toThrow(
+        "Invalid transition: in_progress → awaiting_parts"
+      );
+    });
+
+    it('a status missing from the workflow is reported clearly', () => {
+      expect(() =>
+        validateTransition('awaiting_parts', 'in_progress', 'mother', { ...ticket, status: 'awaiting_parts' })
+      ).toThrow('not part of the current workflow');
+    });
+
+    it('custom terminal states have no outgoing transitions', () => {
+      const withCancelled: WorkflowDefinition = {
+        states: [...DEFAULT_WORKFLOW.states, { key: 'cancelled', terminal: true }],
+        transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'open', to: 'cancelled', authorityOnly: true }],
+      };
+      expect(() =>
+        validateTransition('cancelled', 'open', 'mother', { ...ticket, status: 'cancelled' }, withCancelled)
+      ).toThrow('terminal state');
+    });
+
+    it('rejection is still needs_review → in_progress', () => {
+      const result = validateTransition('needs_review', 'in_progress', 'father', { ...ticket, status: 'needs_review' }, withParts);
+      expect(result.isRejection).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// Assignee Resolver
+// Pure functions — no framework imports.
+// Picks who a generated recurring ticket goes to, based on the template's assignment strategy.
+
+export type AssignmentStrategy = 'none' | 'fixed_user' | 'round_robin' | 'least_loaded';
+
+export interface AssignmentConfig {
+  strategy: AssignmentStrategy;
+  fixedUserId?: string | null;       // fixed_user only
+  lastAssignedUserId?: string | null; // rotation state, persisted on the template
+}
+
+export interface AssigneeCandidate {
+  id: string;
+  openTickets: number;
+}
+
+export class AssignmentStrategyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssignmentStrategyError';
+  }
+}
+
+/**
+ * Checks that a strategy has what it needs. Throws AssignmentStrategyError otherwise.
+ */
+export function validateAssignmentConfig(config: Pick<AssignmentConfig, 'strategy' | 'fixedUserId'>): void {
+  if (config.strategy === 'fixed_user' && !config.fixedUserId) {
+    throw new AssignmentStrategyError('fixed_user needs a user to assign to.');
+  }
+  if (config.strategy !== 'fixed_user' && config.fixedUserId) {
+    throw new AssignmentStrategyError('Only the fixed_user strategy takes a fixed user.');
+  }
+}
+
+/**
+ * Candidates in rotation order, starting with the one after the last assignee.
+ * Falls back to the first candidate when the last assignee has left the pool.
+ */
+function rotation(candidates: AssigneeCandidate[], lastAssignedUserId?: string | null): AssigneeCandidate[] {
+  const lastIndex = candidates.findIndex((c) => c.id === lastAssignedUserId);
+  const next = lastIndex + 1; // 0 when not found
+  return [...candidates.slice(next), ...candidates.slice(0, next)];
+}
+
+/**
+ * Returns the user id a new instance should be assigned to, or null to leave it unassigned.
+ *
+ * Candidates must come in a stable order (e.g. by id) so the rotation is the same every run.
+ * round_robin takes the next candidate after the last assignee; least_loaded takes whoever has
+ * the fewest open tickets, breaking ties in rotation order so equal loads still take turns.
+ */
+export function resolveAssignee(config: AssignmentConfig, candidates: AssigneeCandidate[]): string | null {
+  switch (config.strategy) {
+    case 'fixed_user':
+      return config.fixedUserId ?? null;
+
+    case 'round_robin':
+      return rotation(candidates, config.lastAssignedUserId)[0]?.id ?? null;
+
+    case 'least_loaded': {
+      const ordered = rotation(candidates, config.lastAssignedUserId);
+      const least = ordered.reduce<AssigneeCandidate | undefined>(
+        (best, c) => (!best || c.openTickets < best.openTickets ? c : best),
+        undefined
+      );
+      return least?.id ?? null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,72 @@
+// Checklist
+// Pure functions — no framework imports.
+// Step-by-step items on tickets and recurring templates, and the submission gate they enforce.
+
+export interface ChecklistItemInput {
+  label: string;
+  required?: boolean; // defaults to true
+  photoRequired?: boolean; // the step needs its own photo; defaults to false
+}
+
+export interface ChecklistItemDefinition {
+  label: string;
+  required: boolean;
+  photoRequired: boolean;
+}
+
+export interface ChecklistItemState {
+  label: string;
+  required: boolean;
+  checked: boolean;
+}
+
+export class ChecklistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChecklistError';
+  }
+}
+
+// A ticket cannot go to review while required items are unchecked; `unchecked` lists their labels
+export class IncompleteChecklistError extends Error {
+  constructor(public readonly unchecked: string[]) {
+    super(`Cannot transition to needs_review: required checklist items are not checked: ${unchecked.join(', ')}`);
+    this.name = 'IncompleteChecklistError';
+  }
+}
+
+export const MAX_CHECKLIST_ITEMS = 30;
+export const MAX_CHECKLIST_LABEL = 200;
+
+/**
+ * Trims labels and fills in defaults. Throws ChecklistError on empty, overlong or duplicate
+ * labels, or more than MAX_CHECKLIST_ITEMS items.
+ */
+export function normalizeChecklist(items: ChecklistItemInput[]): ChecklistItemDefinition[] {
+  if (items.length > MAX_CHECKLIST_ITEMS) {
+    throw new ChecklistError(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items.`);
+  }
+
+  const seen = new Set<string>();
+  return items.map((item) => {
+    const label = item.label.trim();
+    if (!label) throw new ChecklistError('Checklist items need a label.');
+    if (label.length > MAX_CHECKLIST_LABEL) {
+      throw new ChecklistError(`Checklist labels must be ${MAX_CHECKLIST_LABEL} characters or fewer.`);
+    }
+
+    const key = label.toLowerCase();
+    if (seen.has(key)) throw new ChecklistError(`"${label}" is on the checklist twice.`);
+    seen.add(key);
+
+    return { label, required: item.required ?? true, photoRequired: item.photoRequired ?? false };
+  });
+}
+
+/**
+ * Labels of required items that are not checked yet, in checklist order.
+ * A ticket can only be submitted for review when this is empty.
+ */
+export function uncheckedRequiredItems(items: ChecklistItemState[]): string[] {
+  return items.filter((i) => i.required && !i.checked).map((i) => i.label);
+}
@@ -0,0 +1,92 @@
+// Escalation Policy
+// Pure functions — no framework imports.
+// Decides which per-severity escalation rules an overdue ticket has triggered.
+
+import type { Severity } from './ticketStateMachine';
+
+export type EscalationAction = 'raise_severity' | 'notify_authorities';
+
+export interface EscalationRule {
+  id: string;
+  severity: Severity;
+  overdueHours: number;
+  action: EscalationAction;
+  toSeverity?: Severity | null; // required for raise_severity
+}
+
+export interface OverdueTicket {
+  id: string;
+  severity: Severity;
+  dueAt: Date;
+  lastSeverityChangeAt?: Date | null; // the overdue clock restarts when a ticket is escalated
+  appliedRuleIds: string[];
+}
+
+export class EscalationRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationRuleError';
+  }
+}
+
+export const SEVERITY_RANK: Record<Severity, number> = {
+  minor: 0,
+  needs_fix_today: 1,
+  immediate_interrupt: 2,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Checks that a rule makes sense on its own. Throws EscalationRuleError otherwise.
+ * raise_severity must name a strictly higher toSeverity; notify_authorities must not name one.
+ */
+export function validateEscalationRule(rule: Omit<EscalationRule, 'id'>): void {
+  if (!Number.isInteger(rule.overdueHours) || rule.overdueHours < 0) {
+    throw new EscalationRuleError('overdueHours must be a whole number of hours, 0 or more.');
+  }
+
+  if (rule.action === 'raise_severity') {
+    if (!rule.toSeverity) {
+      throw new EscalationRuleError('raise_severity rules need a toSeverity.');
+    }
+    if (SEVERITY_RANK[rule.toSeverity] <= SEVERITY_RANK[rule.severity]) {
+      throw new EscalationRuleError(
+        `raise_severity must go up: ${rule.severity} → ${rule.toSeverity} is not an escalation.`
+      );
+    }
+  } else if (rule.toSeverity) {
+    throw new EscalationRuleError('Only raise_severity rules take a toSeverity.');
+  }
+}
+
+/**
+ * Returns the rules that should fire for an overdue ticket right now, in overdue order.
+ *
+ * A rule fires once per ticket, when the ticket still has the rule's severity and has been
+ * overdue for at least overdueHours. Overdue time counts from dueAt, or from the last severity
+ * change if that is later, so a freshly raised ticket gets the full window of its new level.
+ * At most one raise_severity rule fires per run (the highest target wins).
+ */
+export function selectEscalations<R extends EscalationRule>(ticket: OverdueTicket, rules: R[], now: Date): R[] {
+  const since = Math.max(ticket.dueAt.getTime(), ticket.lastSeverityChangeAt?.getTime() ?? 0);
+  const overdueMs = now.getTime() - since;
+  if (now.getTime() <= ticket.dueAt.getTime()) return [];
+
+  const due = rules
+    .filter(
+      (r) =>
+        r.severity === ticket.severity &&
+        !ticket.appliedRuleIds.includes(r.id) &&
+        overdueMs >= r.overdueHours * HOUR_MS
+    )
+    .sort((a, b) => a.overdueHours - b.overdueHours);
+
+  const raises = due.filter((r) => r.action === 'raise_severity');
+  const raise = raises.reduce<R | undefined>(
+    (best, r) => (!best || SEVERITY_RANK[r.toSeverity!] > SEVERITY_RANK[best.toSeverity!] ? r : best),
+    undefined
+  );
+
+  return due.filter((r) => r.action !== 'raise_severity' || r === raise);
+}
@@ -0,0 +1,153 @@
+// Evidence Policy
+// Pure functions — no framework imports.
+// Decides which photos a ticket needs before it can be submitted for review, and what is missing.
+
+import type { Severity } from './ticketStateMachine';
+
+export type EvidencePhotoType = 'before' | 'after' | 'completion' | 'receipt';
+
+export interface PhotoRequirement {
+  photoType: EvidencePhotoType | 'any'; // 'any' counts every photo on the ticket
+  min: number;
+}
+
+export interface EvidencePolicy {
+  photos: PhotoRequirement[]; // empty = no photo needed
+}
+
+// A household rule applies to tickets matching every matcher it sets; none set = every ticket
+export interface EvidencePolicyRule extends EvidencePolicy {
+  id: string;
+  area?: string | null;
+  category?: string | null;
+  severity?: Severity | null;
+}
+
+export interface EvidenceTicket {
+  area: string;
+  category: string;
+  severity: Severity;
+  isInspection: boolean;
+}
+
+export interface EvidencePhoto {
+  photoType: EvidencePhotoType;
+  checklistItemId?: string | null;
+}
+
+export interface EvidenceChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  checked: boolean;
+  photoRequired: boolean;
+}
+
+export class EvidencePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvidencePolicyError';
+  }
+}
+
+export class MissingEvidenceError extends Error {
+  constructor(public readonly missing: string[]) {
+    super(`Cannot transition to needs_review: missing ${missing.join(', ')}`);
+    this.name = 'MissingEvidenceError';
+  }
+}
+
+// What applies when neither the template nor a household rule says otherwise
+export const DEFAULT_EVIDENCE_POLICY: EvidencePolicy = { photos: [{ photoType: 'any', min: 1 }] };
+
+const MAX_PHOTOS_PER_TYPE = 10;
+
+/**
+ * Checks that a policy makes sense on its own. Throws EvidencePolicyError otherwise.
+ * Each photo type may appear once, with a min between 1 and 10.
+ */
+export function validateEvidencePolicy(policy: EvidencePolicy): void {
+  const seen = new Set<string>();
+  for (const req of policy.photos) {
+    if (!Number.isInteger(req.min) || req.min < 1 || req.min > MAX_PHOTOS_PER_TYPE) {
+      throw new EvidencePolicyError(`min must be a whole number from 1 to ${MAX_PHOTOS_PER_TYPE}.`);
+    }
+    if (seen.has(req.photoType)) {
+      throw new EvidencePolicyError(`${req.photoType} photos are listed more than once.`);
+    }
+    seen.add(req.photoType);
+  }
+}
+
+function matches(rule: EvidencePolicyRule, ticket: EvidenceTicket): boolean {
+  return (
+    (!rule.area || rule.area === ticket.area) &&
+    (!rule.category || rule.category === ticket.category) &&
+    (!rule.severity || rule.severity === ticket.severity)
+  );
+}
+
+function specificity(rule: EvidencePolicyRule): number {
+  return [rule.area, rule.category, rule.severity].filter(Boolean).length;
+}
+
+/**
+ * The policy a ticket is held to.
+ *
+ * A template policy wins outright. Otherwise the matching household rule that sets the most
+ * matchers wins, earlier rules breaking ties; with no match the default (one photo) applies.
+ * Inspection tickets always need at least one before and one after photo on top.
+ */
+export function resolveEvidencePolicy(
+  ticket: EvidenceTicket,
+  rules: EvidencePolicyRule[],
+  templatePolicy?: EvidencePolicy | null
+): EvidencePolicy {
+  const rule = rules
+    .filter((r) => matches(r, ticket))
+    .reduce<EvidencePolicyRule | undefined>(
+      (best, r) => (!best || specificity(r) > specificity(best) ? r : best),
+      undefined
+    );
+
+  const base = templatePolicy ?? rule ?? DEFAULT_EVIDENCE_POLICY;
+  const photos = base.photos.map((p) => ({ photoType: p.photoType, min: p.min }));
+
+  if (ticket.isInspection) {
+    for (const photoType of ['before', 'after'] as const) {
+      if (!photos.some((p) => p.photoType === photoType)) photos.push({ photoType, min: 1 });
+    }
+  }
+
+  return { photos };
+}
+
+function describe(req: PhotoRequirement, have: number): string {
+  const kind = req.photoType === 'any' ? '' : `${req.photoType} `;
+  const wanted = req.min === 1 ? `a ${kind}photo` : `${req.min} ${kind}photos`;
+  return have > 0 ? `${wanted} (${have} uploaded)` : wanted;
+}
+
+/**
+ * Human-readable list of what the ticket still lacks; empty when it can be submitted.
+ * Checklist steps marked photoRequired need a photo attached to that step when the step is
+ * required or has been ticked.
+ */
+export function missingEvidence(
+  policy: EvidencePolicy,
+  photos: EvidencePhoto[],
+  checklist: EvidenceChecklistItem[] = []
+): string[] {
+  const missing = policy.photos.flatMap((req) => {
+    const have =
+      req.photoType === 'any' ? photos.length : photos.filter((p) => p.photoType === req.photoType).length;
+    return have < req.min ? [describe(req, have)] : [];
+  });
+
+  for (const item of checklist) {
+    if (!item.photoRequired || (!item.required && !item.checked)) continue;
+    if (!photos.some((p) => p.checklistItemId === item.id)) missing.push(`a photo for "${item.label}"`);
+  }
+
+  return missing;
+}
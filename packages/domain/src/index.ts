@@ -1,9 +1,109 @@
 // Domain package exports
 export { validateTransition, TicketTransitionError } from './ticketStateMachine';
-export type { Role, TicketStatus, Severity, TicketContext, TransitionResult } from './ticketStateMachine';
+export type { Role, TicketStatus, StatusKey, Severity, TicketContext, TransitionResult } from './ticketStateMachine';
 
-export { computeScore } from './scoringEngine';
-export type { ScoringInput, ScoreBreakdown, TicketHistory, Period, TicketEventType } from './scoringEngine';
+export { validateWorkflowDefinition, WorkflowDefinitionError, DEFAULT_WORKFLOW, CORE_STATUSES } from './workflow';
+export type { WorkflowDefinition, WorkflowState, WorkflowTransition, CoreTicketStatus } from './workflow';
+
+export { computeScore, daysLate } from './scoringEngine';
+export type { ScoringInput, ScoreBreakdown, ScoreLedgerEntry, ScoreRule, TicketHistory, Period, TicketEventType } from './scoringEngine';
+
+export { DEFAULT_SCORING_POLICY, validateScoringPolicy, ScoringPolicyError } from './scoringPolicy';
+export type { ScoringPolicy } from './scoringPolicy';
+
+export { SCORE_PERIOD_TYPES, periodContaining, previousPeriod, isPeriodClosed } from './scorePeriods';
+export type { ScorePeriodType, ScorePeriod } from './scorePeriods';
+
+export { buildTicketHistory, ticketOwner } from './ticketHistory';
+export type { ScoredTicketRecord } from './ticketHistory';
 
 export { isRepeatIssue } from './repeatIssueDetector';
 export type { NewTicketInfo, ClosedTicketSummary, RepeatIssueResult } from './repeatIssueDetector';
+
+export { extractMentions } from './mentionParser';
+export type { MentionCandidate } from './mentionParser';
+
+export { selectEscalations, validateEscalationRule, EscalationRuleError, SEVERITY_RANK } from './escalationPolicy';
+export type { EscalationRule, EscalationAction, OverdueTicket } from './escalationPolicy';
+
+export {
+  parseRRule,
+  formatRRule,
+  ruleForFrequency,
+  isDueOn,
+  occurrencesBetween,
+  upcomingOccurrences,
+  RecurrenceRuleError,
+} from './recurrence';
+export type {
+  RecurrenceRule,
+  RecurrenceSchedule,
+  RecurrenceFrequency,
+  RecurrenceFreq,
+  Weekday,
+  WeekdayRule,
+} from './recurrence';
+
+export { resolveAssignee, validateAssignmentConfig, AssignmentStrategyError } from './assigneeResolver';
+export type { AssignmentStrategy, AssignmentConfig, AssigneeCandidate } from './assigneeResolver';
+
+export { normalizeChecklist, uncheckedRequiredItems, ChecklistError, IncompleteChecklistError, MAX_CHECKLIST_ITEMS } from './checklist';
+export type { ChecklistItemInput, ChecklistItemDefinition, ChecklistItemState } from './checklist';
+
+export {
+  resolveEvidencePolicy,
+  missingEvidence,
+  validateEvidencePolicy,
+  EvidencePolicyError,
+  MissingEvidenceError,
+  DEFAULT_EVIDENCE_POLICY,
+} from './evidencePolicy';
+export type {
+  EvidencePolicy,
+  EvidencePolicyRule,
+  EvidencePhotoType,
+  PhotoRequirement,
+  EvidenceTicket,
+  EvidencePhoto,
+  EvidenceChecklistItem,
+} from './evidencePolicy';
+
+export {
+  photoIntegrityFlags,
+  hammingDistance,
+  NEAR_DUPLICATE_MAX_DISTANCE,
+  CAPTURE_CLOCK_TOLERANCE_MS,
+} from './photoIntegrity';
+export type { IntegrityPhoto, PhotoFlag } from './photoIntegrity';
+
+export {
+  REJECTION_REASONS,
+  REJECTION_PENALTY,
+  UNCLASSIFIED_REJECTION_PENALTY,
+  isRejectionReason,
+  rejectionPenalty,
+  validateRejection,
+  RejectionReasonError,
+} from './rejectionReasons';
+export type { RejectionReason } from './rejectionReasons';
+
+export {
+  validateReassignment,
+  validateHandoffRequest,
+  assigneeAt,
+  ReassignmentError,
+  MAX_HANDOFF_REASON,
+} from './reassignment';
+export type { ReassignableTicket, AssignmentChange } from './reassignment';
+
+export {
+  validateDispute,
+  validateResolution,
+  adjustmentFor,
+  deductionFor,
+  isDisputableRule,
+  ScoreDisputeError,
+  DISPUTABLE_RULES,
+  MAX_DISPUTE_REASON,
+} from './scoreDisputes';
+export type { DisputableRule, DisputedLine, AcceptedAdjustment } from './scoreDisputes';
@@ -0,0 +1,41 @@
+// Mention Parser
+// Pure function — no framework imports.
+// Resolves @name tokens in a comment body to known users (case-insensitive, first name match).
+
+export interface MentionCandidate {
+  id: string;
+  name: string;
+}
+
+// @ (not inside a word, so emails don't match) followed by letters, digits, dot, underscore or hyphen
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_])@([\p{L}\p{N}._-]+)/gu;
+
+/**
+ * Extracts the users mentioned in a comment body.
+ * A mention matches a candidate when the token equals the candidate's full name
+ * or first name, ignoring case. Unknown names are ignored; each user is returned once,
+ * in order of first mention.
+ *
+ * @param body - Raw comment text
+ * @param candidates - Users that may be mentioned (pre-filtered by caller for visibility)
+ */
+export function extractMentions(body: string, candidates: MentionCandidate[]): MentionCandidate[] {
+  const found: MentionCandidate[] = [];
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    // Trailing punctuation ("@Rosa.") is not part of the name
+    const token = match[1].replace(/[._-]+$/, '').toLowerCase();
+    if (!token) continue;
+
+    const user = candidates.find((c) => {
+      const name = c.name.toLowerCase();
+      return name === token || name.split(/\s+/)[0] === token;
+    });
+
+    if (user && !found.some((f) => f.id === user.id)) {
+      found.push(user);
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,86 @@
+// Photo Integrity
+// Pure functions — no framework imports.
+// Flags evidence photos an authority should look at twice: shot before the ticket existed,
+// or a near-copy of a photo already used on another ticket.
+
+export interface IntegrityPhoto {
+  id: string;
+  ticketId: string;
+  capturedAt: Date | null; // from the camera's EXIF clock; null when the file had none
+  phash: string | null; // 64-bit perceptual hash as 16 hex digits
+  createdAt: Date;
+}
+
+export type PhotoFlag =
+  | { kind: 'captured_before_ticket'; photoId: string; capturedAt: Date }
+  | { kind: 'near_duplicate'; photoId: string; matchPhotoId: string; matchTicketId: string; distance: number };
+
+// Hashes this close (of 64 bits) are the same scene give or take recompression, crops and exposure
+export const NEAR_DUPLICATE_MAX_DISTANCE = 8;
+
+// Camera clocks drift and phones sync late; a few minutes early is not worth a flag
+export const CAPTURE_CLOCK_TOLERANCE_MS = 10 * 60 * 1000;
+
+const HEX_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex-encoded hashes of the same length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare hashes of different lengths (${a.length} and ${b.length})`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += HEX_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+/**
+ * Flags the photos on one ticket.
+ *
+ * `others` are photos from other tickets in the same area and category; only those uploaded
+ * before a photo count against it, so the flag lands on the reuse rather than the first use.
+ * Each photo gets at most one near-duplicate flag, for its closest match.
+ */
+export function photoIntegrityFlags(
+  ticket: { createdAt: Date },
+  photos: IntegrityPhoto[],
+  others: IntegrityPhoto[]
+): PhotoFlag[] {
+  const flags: PhotoFlag[] = [];
+  const earliest = ticket.createdAt.getTime() - CAPTURE_CLOCK_TOLERANCE_MS;
+
+  for (const photo of photos) {
+    if (photo.capturedAt && photo.capturedAt.getTime() < earliest) {
+      flags.push({ kind: 'captured_before_ticket', photoId: photo.id, capturedAt: photo.capturedAt });
+    }
+
+    if (!photo.phash) continue;
+
+    let closest: { other: IntegrityPhoto; distance: number } | null = null;
+    for (const other of others) {
+      if (other.ticketId === photo.ticketId || !other.phash || other.createdAt >= photo.createdAt) continue;
+      if (other.phash.length !== photo.phash.length) continue;
+
+      const distance = hammingDistance(photo.phash, other.phash);
+      if (distance <= NEAR_DUPLICATE_MAX_DISTANCE && (!closest || distance < closest.distance)) {
+        closest = { other, distance };
+      }
+    }
+
+    if (closest) {
+      flags.push({
+        kind: 'near_duplicate',
+        photoId: photo.id,
+        matchPhotoId: closest.other.id,
+        matchTicketId: closest.other.ticketId,
+        distance: closest.distance,
+      });
+    }
+  }
+
+  return flags;
+}
@@ -0,0 +1,85 @@
+// Reassignment
+// Pure functions — no framework imports.
+// Rules for moving a ticket to someone else, and who held a ticket at any moment so
+// rejections and lateness count against the right person.
+
+export class ReassignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReassignmentError';
+  }
+}
+
+export interface ReassignableTicket {
+  assignedUserId: string | null;
+  isTerminal: boolean; // closed, skipped or another terminal workflow state
+}
+
+// One change of assignee. A ticket's first assignee is the fromUserId of its first change.
+export interface AssignmentChange {
+  fromUserId: string | null;
+  toUserId: string | null;
+  at: Date;
+}
+
+export const MAX_HANDOFF_REASON = 500;
+
+/**
+ * Checks an authority's reassignment. toUserId null takes the ticket off everyone's list.
+ * Throws ReassignmentError when the ticket is finished or already with that person.
+ */
+export function validateReassignment(ticket: ReassignableTicket, toUserId: string | null): void {
+  if (ticket.isTerminal) {
+    throw new ReassignmentError('Finished tickets cannot be reassigned');
+  }
+  if (ticket.assignedUserId === toUserId) {
+    throw new ReassignmentError(toUserId ? 'The ticket is already assigned to that person' : 'The ticket is already unassigned');
+  }
+}
+
+/**
+ * Checks an employee's request to hand a ticket off ("I'm off sick, please reassign").
+ * Only the current assignee may ask, once at a time, and must say why.
+ * Returns the trimmed reason; throws ReassignmentError otherwise.
+ */
+export function validateHandoffRequest(
+  ticket: ReassignableTicket,
+  requesterId: string,
+  reason: string,
+  hasPendingRequest: boolean
+): string {
+  if (ticket.isTerminal) {
+    throw new ReassignmentError('Finished tickets cannot be handed off');
+  }
+  if (ticket.assignedUserId !== requesterId) {
+    throw new ReassignmentError('Only the person assigned to a ticket can ask to hand it off');
+  }
+  if (hasPendingRequest) {
+    throw new ReassignmentError('A handoff request for this ticket is already waiting for an answer');
+  }
+
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new ReassignmentError('Say why the ticket should be handed off');
+  }
+  if (trimmed.length > MAX_HANDOFF_REASON) {
+    throw new ReassignmentError(`The reason must be at most ${MAX_HANDOFF_REASON} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Who held the ticket at `at`. `current` is today's assignee, used when it never changed hands.
+ * Changes take effect at their own timestamp.
+ */
+export function assigneeAt(current: string | null, changes: AssignmentChange[], at: Date): string | null {
+  if (changes.length === 0) return current;
+
+  const ordered = [...changes].sort((a, b) => a.at.getTime() - b.at.getTime());
+  let holder = ordered[0].fromUserId;
+  for (const change of ordered) {
+    if (change.at.getTime() > at.getTime()) break;
+    holder = change.toUserId;
+  }
+  return holder;
+}
@@ -0,0 +1,357 @@
+// Recurrence
+// Pure functions — no framework imports.
+// RRULE-style schedules for recurring templates (a day-level subset of RFC 5545).
+// Dates are calendar days read in the caller's local time, matching the cron that generates instances.
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type RecurrenceFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface WeekdayRule {
+  day: Weekday;
+  nth?: number; // 1 = first, -1 = last in the month (MONTHLY/YEARLY only)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[]; // negative counts from the end of the month
+  byMonth?: number[];    // 1–12
+  bySetPos?: number[];   // picks from each month's candidates; negative counts from the end
+  count?: number;
+  until?: Date;
+  weekStart: Weekday;
+}
+
+export interface RecurrenceSchedule {
+  rule: RecurrenceRule;
+  start: Date;
+  end?: Date | null;      // last day an occurrence may fall on
+  exceptions?: Date[];    // days skipped even though the rule matches
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']; // Date#getDay order
+const FREQS: RecurrenceFreq[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest span walked when a COUNT rule has to be replayed from its start
+const MAX_SCAN_DAYS = 366 * 30;
+
+// The fixed schedules templates had before RRULE support
+const FREQUENCY_RULES: Record<RecurrenceFrequency, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY;BYDAY=MO',
+  monthly: 'FREQ=MONTHLY;BYMONTHDAY=1',
+  custom: 'FREQ=DAILY',
+};
+
+export function ruleForFrequency(frequency: RecurrenceFrequency): string {
+  return FREQUENCY_RULES[frequency];
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function parseIntList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new RecurrenceRuleError(`${name} values must be whole numbers from ${min} to ${max} (or negative): "${part}"`);
+    }
+    return n;
+  });
+}
+
+function parsePositive(name: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new RecurrenceRuleError(`${name} must be a whole number of 1 or more: "${value}"`);
+  }
+  return n;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new RecurrenceRuleError(`UNTIL must look like 20250131 or 20250131T000000Z: "${value}"`);
+  const [, y, m, d, time, hh, mm, ss, utc] = match;
+  if (time && utc) return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  return new Date(+y, +m - 1, +d, +(hh ?? 0), +(mm ?? 0), +(ss ?? 0));
+}
+
+function parseWeekday(value: string): Weekday {
+  if (!WEEKDAYS.includes(value as Weekday)) {
+    throw new RecurrenceRuleError(`Unknown weekday "${value}" — use MO, TU, WE, TH, FR, SA or SU`);
+  }
+  return value as Weekday;
+}
+
+/**
+ * Parses RRULE text such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR". A leading "RRULE:" is allowed.
+ * Only day-level parts are supported; anything else throws RecurrenceRuleError.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new RecurrenceRuleError('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value, ...rest] = part.split('=');
+    const name = key.trim().toUpperCase();
+    if (!name || value === undefined || rest.length > 0 || value.trim() === '') {
+      throw new RecurrenceRuleError(`Malformed rule part "${part}"`);
+    }
+    if (parts.has(name)) throw new RecurrenceRuleError(`${name} appears more than once`);
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFreq | undefined;
+  if (!freq) throw new RecurrenceRuleError('FREQ is required');
+  if (!FREQS.includes(freq)) throw new RecurrenceRuleError(`FREQ must be one of ${FREQS.join(', ')}`);
+
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: 'MO' };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositive(name, value);
+        break;
+      case 'COUNT':
+        rule.count = parsePositive(name, value);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekday(value);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(name, value, 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(name, value, 1, 12);
+        if (rule.byMonth.some((m) => m < 0)) throw new RecurrenceRuleError('BYMONTH values must be 1 to 12');
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(name, value, 1, 31);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((token) => {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(token);
+          if (!match) throw new RecurrenceRuleError(`BYDAY entries look like MO, 1MO or -1FR: "${token}"`);
+          const day = parseWeekday(match[2]);
+          if (match[1] === undefined) return { day };
+          const nth = Number(match[1]);
+          if (nth === 0 || Math.abs(nth) > 5) throw new RecurrenceRuleError(`BYDAY position must be 1–5 or -1–-5: "${token}"`);
+          return { day, nth };
+        });
+        break;
+      default:
+        throw new RecurrenceRuleError(`Unsupported rule part ${name}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot be used together');
+  }
+
+  const monthly = freq === 'MONTHLY' || freq === 'YEARLY';
+  if (!monthly && rule.byDay?.some((d) => d.nth !== undefined)) {
+    throw new RecurrenceRuleError('Numbered BYDAY (e.g. 2TU) needs FREQ=MONTHLY or YEARLY');
+  }
+  if (freq === 'WEEKLY' && rule.byMonthDay) {
+    throw new RecurrenceRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+  if (rule.bySetPos) {
+    if (!monthly) throw new RecurrenceRuleError('BYSETPOS needs FREQ=MONTHLY or YEARLY');
+    if (!rule.byDay && !rule.byMonthDay) throw new RecurrenceRuleError('BYSETPOS needs BYDAY or BYMONTHDAY to pick from');
+  }
+  if (freq === 'YEARLY' && rule.byDay && !rule.byMonth) {
+    throw new RecurrenceRuleError('FREQ=YEARLY with BYDAY needs BYMONTH');
+  }
+
+  return rule;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Canonical RRULE text for a rule; parseRRule(formatRRule(r)) gives r back.
+ * UNTIL is written as a date — schedules are day-level.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${d.day}`).join(',')}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const u = rule.until;
+    parts.push(`UNTIL=${u.getFullYear()}${pad(u.getMonth() + 1)}${pad(u.getDate())}`);
+  }
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`);
+  return parts.join(';');
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Days since the epoch for a local calendar day — immune to DST shifts
+function dayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function weekNumber(date: Date, weekStart: Weekday): number {
+  const offset = (date.getDay() - WEEKDAYS.indexOf(weekStart) + 7) % 7;
+  return Math.floor((dayNumber(date) - offset) / 7);
+}
+
+function pickPositions(sorted: number[], positions: number[]): number[] {
+  const picked = positions
+    .map((pos) => (pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos]))
+    .filter((d): d is number => d !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/**
+ * Days of the month (1-based) the rule selects in the given month.
+ */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, start: Date): number[] {
+  const last = daysInMonth(year, month);
+  let days: number[];
+
+  const monthDays = rule.byMonthDay
+    ?.map((d) => (d > 0 ? d : last + 1 + d))
+    .filter((d) => d >= 1 && d <= last);
+
+  if (rule.byDay) {
+    const matches = new Set<number>();
+    for (const { day, nth } of rule.byDay) {
+      const weekday = WEEKDAYS.indexOf(day);
+      const all: number[] = [];
+      for (let d = 1; d <= last; d++) {
+        if (new Date(year, month, d).getDay() === weekday) all.push(d);
+      }
+      const chosen = nth === undefined ? all : [nth > 0 ? all[nth - 1] : all[all.length + nth]];
+      for (const d of chosen) if (d !== undefined) matches.add(d);
+    }
+    days = [...matches].filter((d) => !monthDays || monthDays.includes(d));
+  } else if (monthDays) {
+    days = monthDays;
+  } else {
+    // Same day of the month as the start; months too short for it are skipped
+    days = start.getDate() <= last ? [start.getDate()] : [];
+  }
+
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  return rule.bySetPos ? pickPositions(sorted, rule.bySetPos) : sorted;
+}
+
+/**
+ * Whether the rule alone (no bounds, COUNT or exceptions) selects this day.
+ */
+function matchesRule(rule: RecurrenceRule, start: Date, day: Date): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(day.getMonth() + 1)) return false;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if ((dayNumber(day) - dayNumber(start)) % rule.interval !== 0) return false;
+      if (rule.byDay && !rule.byDay.some((d) => WEEKDAYS.indexOf(d.day) === day.getDay())) return false;
+      if (rule.byMonthDay) return monthCandidates(rule, day.getFullYear(), day.getMonth(), start).includes(day.getDate());
+      return true;
+    }
+
+    case 'WEEKLY': {
+      if ((weekNumber(day, rule.weekStart) - weekNumber(start, rule.weekStart)) % rule.interval !== 0) return false;
+      const days = rule.byDay?.map((d) => d.day) ?? [WEEKDAYS[start.getDay()]];
+      return days.includes(WEEKDAYS[day.getDay()]);
+    }
+
+    case 'MONTHLY': {
+      const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+      if (months % rule.interval !== 0) return false;
+      return monthCandidates(rule, day.getFullYear(), day.getMonth(), start).includes(day.getDate());
+    }
+
+    case 'YEARLY': {
+      if ((day.getFullYear() - start.getFullYear()) % rule.interval !== 0) return false;
+      if (!rule.byMonth && day.getMonth() !== start.getMonth()) return false;
+      return monthCandidates(rule, day.getFullYear(), day.getMonth(), start).includes(day.getDate());
+    }
+  }
+}
+
+/**
+ * Every day in [from, to] (inclusive, local midnight) on which the schedule produces an occurrence.
+ * The start day counts only if the rule selects it. COUNT counts occurrences from the start,
+ * including ones later removed as exceptions, as in RFC 5545.
+ */
+export function occurrencesBetween(schedule: RecurrenceSchedule, from: Date, to: Date): Date[] {
+  const { rule } = schedule;
+  const start = startOfDay(schedule.start);
+  const exceptions = new Set((schedule.exceptions ?? []).map(dayNumber));
+
+  let last = dayNumber(to);
+  if (schedule.end) last = Math.min(last, dayNumber(schedule.end));
+  if (rule.until) last = Math.min(last, dayNumber(rule.until));
+
+  const first = Math.max(dayNumber(from), dayNumber(start));
+  if (first > last) return [];
+
+  // COUNT depends on every earlier occurrence, so replay from the start
+  const scanFrom = rule.count !== undefined ? dayNumber(start) : first;
+  if (last - scanFrom > MAX_SCAN_DAYS) {
+    throw new RecurrenceRuleError(`Schedule spans more than ${MAX_SCAN_DAYS} days`);
+  }
+
+  const occurrences: Date[] = [];
+  let seen = 0;
+  for (let n = scanFrom; n <= last; n++) {
+    const day = addDays(start, n - dayNumber(start));
+    if (!matchesRule(rule, start, day)) continue;
+
+    seen++;
+    if (rule.count !== undefined && seen > rule.count) break;
+    if (n >= first && !exceptions.has(n)) occurrences.push(day);
+  }
+  return occurrences;
+}
+
+/**
+ * Whether the schedule produces an occurrence on the given day.
+ */
+export function isDueOn(schedule: RecurrenceSchedule, date: Date): boolean {
+  return occurrencesBetween(schedule, date, date).length > 0;
+}
+
+/**
+ * Local midnight of each day in [from, from + days) on which the schedule produces an occurrence.
+ */
+export function upcomingOccurrences(schedule: RecurrenceSchedule, from: Date, days: number): Date[] {
+  if (days <= 0) return [];
+  return occurrencesBetween(schedule, from, addDays(startOfDay(from), days - 1));
+}
@@ -0,0 +1,61 @@
+// Rejection Reasons
+// Pure functions — no framework imports.
+// The catalogue an authority picks from when sending work back, and what each costs the employee.
+
+export const REJECTION_REASONS = [
+  'incomplete',       // steps left undone
+  'poor_quality',     // done, but not to standard
+  'wrong_area',       // worked on the wrong room, item or spot
+  'missing_evidence', // work may be fine, the photos don't show it
+  'damage',           // something was broken or damaged doing it
+  'other',            // explained in the note
+] as const;
+
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+// Quality points lost per rejection. Rejections recorded before reasons existed cost the old flat 10.
+export const REJECTION_PENALTY: Record<RejectionReason, number> = {
+  incomplete: 10,
+  poor_quality: 15,
+  wrong_area: 10,
+  missing_evidence: 5,
+  damage: 20,
+  other: 10,
+};
+
+export const UNCLASSIFIED_REJECTION_PENALTY = 10;
+
+export class RejectionReasonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectionReasonError';
+  }
+}
+
+export function isRejectionReason(value: unknown): value is RejectionReason {
+  return typeof value === 'string' && (REJECTION_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * Points a rejection costs. null/undefined is a rejection from before reasons were recorded.
+ */
+export function rejectionPenalty(reason: RejectionReason | null | undefined): number {
+  return reason ? REJECTION_PENALTY[reason] : UNCLASSIFIED_REJECTION_PENALTY;
+}
+
+/**
+ * Checks what an authority sent with a rejection: a known reason is required, and
+ * 'other' needs a note saying what it is. Throws RejectionReasonError otherwise.
+ */
+export function validateRejection(reason: unknown, note?: string | null): RejectionReason {
+  if (reason === undefined || reason === null || reason === '') {
+    throw new RejectionReasonError(`A rejection reason is required (one of: ${REJECTION_REASONS.join(', ')})`);
+  }
+  if (!isRejectionReason(reason)) {
+    throw new RejectionReasonError(`Unknown rejection reason "${String(reason)}"`);
+  }
+  if (reason === 'other' && !note?.trim()) {
+    throw new RejectionReasonError('A note explaining the rejection is required when the reason is "other"');
+  }
+  return reason;
+}
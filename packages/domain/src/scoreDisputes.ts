@@ -0,0 +1,116 @@
+// Score Disputes
+// Pure functions — no framework imports.
+// An employee can dispute one deduction on their score ("I was waiting on parts"). An authority
+// accepts it, giving back some or all of the points, or declines it with a reason.
+
+import type { ScoreLedgerEntry } from './scoringEngine';
+
+export class ScoreDisputeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoreDisputeError';
+  }
+}
+
+export const MAX_DISPUTE_REASON = 500;
+
+// Deductions charged to a ticket; the bonus and floor are not anyone's to dispute
+export const DISPUTABLE_RULES = ['rejection', 'skipped', 'late'] as const;
+export type DisputableRule = (typeof DISPUTABLE_RULES)[number];
+
+// A deduction is identified by its ticket and rule, so it is the same one on every score
+// (week, month, custom) that includes the ticket
+export interface DisputedLine {
+  ticketId: string;
+  rule: DisputableRule;
+}
+
+export interface AcceptedAdjustment extends DisputedLine {
+  points: number; // given back, above 0
+}
+
+export function isDisputableRule(rule: string): rule is DisputableRule {
+  return (DISPUTABLE_RULES as readonly string[]).includes(rule);
+}
+
+/**
+ * Points a ledger charges for one ticket and rule: 0 or negative. A ticket sent back twice
+ * has two rejection lines; both count.
+ */
+export function deductionFor(ledger: ScoreLedgerEntry[], line: DisputedLine): number {
+  return ledger
+    .filter((e) => e.ticketId === line.ticketId && e.rule === line.rule && e.points < 0)
+    .reduce((sum, e) => sum + e.points, 0);
+}
+
+/**
+ * Checks an employee's dispute of a deduction on their score. Each deduction can be disputed
+ * while no earlier dispute of it is pending or accepted, and the employee must say why.
+ * Returns the deduction and the trimmed reason; throws ScoreDisputeError otherwise.
+ */
+export function validateDispute(
+  ledger: ScoreLedgerEntry[],
+  line: { ticketId: string; rule: string },
+  reason: string,
+  hasOpenDispute: boolean
+): { line: DisputedLine; points: number; reason: string } {
+  if (!isDisputableRule(line.rule)) {
+    throw new ScoreDisputeError('Only rejection, skip and lateness deductions can be disputed');
+  }
+  const disputed: DisputedLine = { ticketId: line.ticketId, rule: line.rule };
+  const points = deductionFor(ledger, disputed);
+  if (points === 0) {
+    throw new ScoreDisputeError('That deduction is not on this score');
+  }
+  if (hasOpenDispute) {
+    throw new ScoreDisputeError('This deduction has already been disputed');
+  }
+
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new ScoreDisputeError('Say why the deduction should be reconsidered');
+  }
+  if (trimmed.length > MAX_DISPUTE_REASON) {
+    throw new ScoreDisputeError(`The reason must be at most ${MAX_DISPUTE_REASON} characters`);
+  }
+  return { line: disputed, points, reason: trimmed };
+}
+
+/**
+ * Checks an authority's answer to a dispute of `disputedPoints` (negative). Accepting gives back
+ * `adjustment` points — all of the deduction when left out, never more. Declining needs a reason.
+ * Throws ScoreDisputeError otherwise.
+ */
+export function validateResolution(
+  disputedPoints: number,
+  accept: boolean,
+  adjustment?: number,
+  note?: string
+): { adjustment: number | null; note: string | null } {
+  const trimmed = note?.trim() || null;
+  if (!accept) {
+    if (!trimmed) throw new ScoreDisputeError('Say why the dispute is declined');
+    return { adjustment: null, note: trimmed };
+  }
+
+  const max = -disputedPoints;
+  const points = adjustment ?? max;
+  if (!Number.isFinite(points) || points <= 0 || points > max) {
+    throw new ScoreDisputeError(`The adjustment must be above 0 and at most the ${max} points deducted`);
+  }
+  return { adjustment: points, note: trimmed };
+}
+
+/**
+ * Points accepted disputes give back on one score: each adjustment whose deduction is on the
+ * ledger, capped at what the ledger deducts for it now. A score held up by the floor already
+ * got those points back from the floor line, so only what lifts it above the floor counts.
+ */
+export function adjustmentFor(ledger: ScoreLedgerEntry[], adjustments: AcceptedAdjustment[]): number {
+  let total = 0;
+  for (const adjustment of adjustments) {
+    total += Math.min(adjustment.points, -deductionFor(ledger, adjustment));
+  }
+  const floor = ledger.find((e) => e.rule === 'score_floor')?.points ?? 0;
+  return Math.max(0, total - floor);
+}
@@ -0,0 +1,49 @@
+// Score Periods
+// Pure functions — no framework imports.
+// The weeks and months scores are kept for. Weeks run Sunday to Sunday like the weekly
+// report; both use the server's local time.
+
+export const SCORE_PERIOD_TYPES = ['weekly', 'monthly'] as const;
+
+export type ScorePeriodType = (typeof SCORE_PERIOD_TYPES)[number];
+
+export interface ScorePeriod {
+  type: ScorePeriodType;
+  start: Date; // inclusive
+  end: Date;   // exclusive
+}
+
+/**
+ * The week or month that `at` falls in.
+ */
+export function periodContaining(type: ScorePeriodType, at: Date): ScorePeriod {
+  const start = new Date(at);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+
+  if (type === 'weekly') {
+    start.setDate(start.getDate() - start.getDay());
+    end.setTime(start.getTime());
+    end.setDate(start.getDate() + 7);
+  } else {
+    start.setDate(1);
+    end.setTime(start.getTime());
+    end.setMonth(start.getMonth() + 1);
+  }
+
+  return { type, start, end };
+}
+
+/**
+ * The period just before this one.
+ */
+export function previousPeriod(period: ScorePeriod): ScorePeriod {
+  return periodContaining(period.type, new Date(period.start.getTime() - 1));
+}
+
+/**
+ * A period is closed once its end has passed; its score can then be finalized.
+ */
+export function isPeriodClosed(period: ScorePeriod, now: Date): boolean {
+  return now.getTime() >= period.end.getTime();
+}
@@ -1,11 +1,16 @@
 // Scoring Engine — Simplified
 // Pure function — no framework imports.
-// Rules (plain English):
+// Rules (plain English), with the default policy's numbers (a household can set its own):
 //   Base score: 100 pts
-//   Each rejection (work sent back): −10 pts
+//   Each rejection (work sent back): −5 to −20 pts by reason (−10 when no reason was recorded)
 //   Each skipped recurring task:     −5 pts
-//   Each day late per task:          −3 pts
+//   Each day late per task:          −3 pts (past its dueAt, or its severity deadline when it has none)
 //   Perfect period bonus:            +5 pts (if at least 1 ticket and no violations)
+//   Rejection and lateness penalties are scaled by the ticket's severity multiplier (1× by default),
+//   and the total never drops below the policy's score floor, if it has one.
+
+import { DEFAULT_SCORING_POLICY, type ScoringPolicy } from './scoringPolicy';
+import type { RejectionReason } from './rejectionReasons';
 
 export type Severity = 'minor' | 'needs_fix_today' | 'immediate_interrupt';
 export type TicketStatus = 'open' | 'in_progress' | 'needs_review' | 'closed' | 'skipped';
@@ -29,26 +34,57 @@ export interface TicketHistory {
 
   openedAt: Date;
   submittedAt?: Date;
+  /** Explicit deadline; overrides the severity deadline when set */
+  dueAt?: Date | null;
 
   events: TicketEventType[];
+  /** One per 'rejection' event, in the same order; missing or null = recorded without a reason */
+  rejectionReasons?: Array<RejectionReason | null>;
   wasSkipped: boolean;
   rejectedInspection?: boolean;
 }
 
+/** What a ledger line was charged for */
+export type ScoreRule = 'rejection' | 'skipped' | 'late' | 'perfect_bonus' | 'score_floor';
+
+/**
+ * One line of a score's explanation. The points of every line add up to total − 100.
+ */
+export interface ScoreLedgerEntry {
+  ticketId: string | null;          // null for period-wide lines (bonus, floor)
+  rule: ScoreRule;
+  points: number;                   // negative for deductions, positive for the bonus and floor
+  reason?: RejectionReason | null;  // rejection lines: the reason code, null when none was recorded
+  days?: number;                    // late lines: calendar days past the deadline
+}
+
 export interface ScoreBreakdown {
-  quality: number;     // rejection deductions (0 or negative)
+  quality: number;     // rejection deductions, weighted by reason (0 or negative)
   consistency: number; // skip deductions (0 or negative)
   speed: number;       // lateness deductions (0 or negative)
-  volume: number;      // perfect-period bonus (0 or +5)
-  total: number;       // 100 + quality + consistency + speed + volume
+  volume: number;      // perfect-period bonus (0 or the policy's bonus)
+  total: number;       // 100 + quality + consistency + speed + volume, held at the policy's floor
+  ledger: ScoreLedgerEntry[]; // per ticket, in ticket order, then the bonus and floor
 }
 
-// Deadline for each severity (ms) — used for speed penalty
-const DEADLINE_MS: Record<Severity, number> = {
-  immediate_interrupt: 2  * 60 * 60 * 1000,  // 2 hours
-  needs_fix_today:     8  * 60 * 60 * 1000,  // 8 hours
-  minor:               48 * 60 * 60 * 1000,  // 48 hours
-};
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Calendar days a ticket was submitted past its deadline: dueAt when set, otherwise
+ * openedAt plus the policy's severity deadline. 0 when on time or not yet submitted.
+ */
+export function daysLate(
+  ticket: Pick<TicketHistory, 'severity' | 'openedAt' | 'submittedAt' | 'dueAt'>,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): number {
+  if (!ticket.submittedAt) return 0;
+  const deadline = ticket.dueAt
+    ? ticket.dueAt.getTime()
+    : ticket.openedAt.getTime() + policy.deadlineHours[ticket.severity] * HOUR_MS;
+  const over = ticket.submittedAt.getTime() - deadline;
+  return over > 0 ? Math.ceil(over / DAY_MS) : 0;
+}
 
 export interface ScoringInput {
   tickets: TicketHistory[];
@@ -57,48 +93,70 @@ export interface ScoringInput {
   completedCount: number;
   /** Kept for interface compatibility — not used in simplified model */
   maxCompletedByAnyUser: number;
+  /** The household's scoring policy; the built-in default when left out */
+  policy?: ScoringPolicy;
 }
 
 /**
- * Compute a simple, transparent score for a user in a period.
+ * Compute a simple, transparent score for a user in a period, with a ledger line for every
+ * point gained or lost.
  * Pure function — no side effects.
  */
 export function computeScore(input: ScoringInput): ScoreBreakdown {
   const { tickets } = input;
+  const policy = input.policy ?? DEFAULT_SCORING_POLICY;
+  const ledger: ScoreLedgerEntry[] = [];
 
-  // Quality: flat -10 per rejection (no severity multiplier)
-  const rejections = tickets.reduce(
-    (sum, t) => sum + t.events.filter((e) => e === 'rejection').length,
-    0
-  );
-  const quality = rejections > 0 ? -(rejections * 10) : 0;
-
-  // Consistency: -5 per skipped recurring task
-  const skips = tickets.filter((t) => t.isRecurring && t.wasSkipped).length;
-  const consistency = skips > 0 ? -(skips * 5) : 0;
-
-  // Speed: -3 per calendar day over the severity deadline (summed across all tasks)
+  let rejections = 0;
+  let skips = 0;
   let totalDaysLate = 0;
+  let quality = 0;
+  let consistency = 0;
+  let speed = 0;
+
   for (const ticket of tickets) {
-    if (!ticket.submittedAt) continue;
-    const deadline = DEADLINE_MS[ticket.severity];
-    const elapsed = ticket.submittedAt.getTime() - ticket.openedAt.getTime();
-    if (elapsed > deadline) {
-      const daysLate = Math.ceil((elapsed - deadline) / (24 * 60 * 60 * 1000));
-      totalDaysLate += daysLate;
+    const multiplier = policy.severityMultiplier[ticket.severity];
+
+    // Quality: each rejection costs what its reason weighs, scaled by severity
+    const count = ticket.events.filter((e) => e === 'rejection').length;
+    for (let i = 0; i < count; i++) {
+      const reason = ticket.rejectionReasons?.[i] ?? null;
+      const points = (reason ? policy.rejectionPenalty[reason] : policy.unclassifiedRejectionPenalty) * multiplier;
+      quality -= points;
+      if (points > 0) ledger.push({ ticketId: ticket.id, rule: 'rejection', points: -points, reason });
+    }
+    rejections += count;
+
+    // Consistency: a fixed penalty per skipped recurring task
+    if (ticket.isRecurring && ticket.wasSkipped) {
+      skips++;
+      consistency -= policy.skipPenalty;
+      if (policy.skipPenalty > 0) ledger.push({ ticketId: ticket.id, rule: 'skipped', points: -policy.skipPenalty });
+    }
+
+    // Speed: a penalty per calendar day over the deadline, scaled by severity
+    const days = daysLate(ticket, policy);
+    if (days > 0) {
+      const points = days * policy.lateDayPenalty * multiplier;
+      totalDaysLate += days;
+      speed -= points;
+      if (points > 0) ledger.push({ ticketId: ticket.id, rule: 'late', points: -points, days });
     }
   }
-  const speed = totalDaysLate > 0 ? -(totalDaysLate * 3) : 0;
 
-  // Bonus: +5 if there was work to do and zero violations this period
+  // Bonus: if there was enough work to do and zero violations this period
   const perfect =
     tickets.length > 0 &&
+    tickets.length >= policy.perfectBonusMinTickets &&
     rejections === 0 &&
     skips === 0 &&
     totalDaysLate === 0;
-  const volume = perfect ? 5 : 0;
+  const volume = perfect ? policy.perfectBonus : 0;
+  if (volume > 0) ledger.push({ ticketId: null, rule: 'perfect_bonus', points: volume });
 
-  const total = 100 + quality + consistency + speed + volume;
+  const raw = 100 + quality + consistency + speed + volume;
+  const total = policy.scoreFloor === null ? raw : Math.max(policy.scoreFloor, raw);
+  if (total > raw) ledger.push({ ticketId: null, rule: 'score_floor', points: total - raw });
 
-  return { quality, consistency, speed, volume, total };
+  return { quality, consistency, speed, volume, total, ledger };
 }
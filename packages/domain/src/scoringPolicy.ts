@@ -0,0 +1,118 @@
+// Scoring Policy
+// Pure functions — no framework imports.
+// The numbers the scoring engine works with. A household can store its own; the default
+// reproduces the built-in rules exactly.
+
+import { REJECTION_PENALTY, REJECTION_REASONS, UNCLASSIFIED_REJECTION_PENALTY, type RejectionReason } from './rejectionReasons';
+import type { Severity } from './ticketStateMachine';
+
+const SEVERITIES: Severity[] = ['minor', 'needs_fix_today', 'immediate_interrupt'];
+
+export interface ScoringPolicy {
+  rejectionPenalty: Record<RejectionReason, number>; // points lost per rejection, by reason
+  unclassifiedRejectionPenalty: number;              // rejections recorded without a reason
+  skipPenalty: number;                               // per skipped recurring task
+  lateDayPenalty: number;                            // per calendar day past the deadline
+  severityMultiplier: Record<Severity, number>;      // scales rejection and lateness penalties
+  deadlineHours: Record<Severity, number>;           // used when a ticket has no dueAt
+  perfectBonus: number;                              // for a period with no violations
+  perfectBonusMinTickets: number;                    // tickets needed to earn the bonus
+  scoreFloor: number | null;                         // the total never goes below this; null = no floor
+}
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  rejectionPenalty: { ...REJECTION_PENALTY },
+  unclassifiedRejectionPenalty: UNCLASSIFIED_REJECTION_PENALTY,
+  skipPenalty: 5,
+  lateDayPenalty: 3,
+  severityMultiplier: { minor: 1, needs_fix_today: 1, immediate_interrupt: 1 },
+  deadlineHours: { minor: 48, needs_fix_today: 8, immediate_interrupt: 2 },
+  perfectBonus: 5,
+  perfectBonusMinTickets: 1,
+  scoreFloor: null,
+};
+
+// Keeps a typo from wiping out someone's score
+const MAX_PENALTY = 100;
+const MAX_MULTIPLIER = 10;
+const MAX_DEADLINE_HOURS = 24 * 30;
+
+export class ScoringPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoringPolicyError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function numberIn(value: unknown, field: string, min: number, max: number, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new ScoringPolicyError(`${field} must be a number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function table<K extends string>(
+  value: unknown,
+  field: string,
+  keys: readonly K[],
+  min: number,
+  max: number,
+  fallback: Record<K, number>
+): Record<K, number> {
+  if (value === undefined) return { ...fallback };
+  if (!isRecord(value)) throw new ScoringPolicyError(`${field} must be an object keyed by ${keys.join(', ')}`);
+
+  const unknownKey = Object.keys(value).find((k) => !(keys as readonly string[]).includes(k));
+  if (unknownKey) throw new ScoringPolicyError(`${field} has an unknown key "${unknownKey}"`);
+
+  const result = {} as Record<K, number>;
+  for (const key of keys) {
+    result[key] = numberIn(value[key], `${field}.${key}`, min, max, fallback[key]);
+  }
+  return result;
+}
+
+/**
+ * Checks a policy an authority submitted and fills anything left out from the default.
+ * Penalties and bonuses are positive point amounts; deadlines are hours above zero.
+ * Throws ScoringPolicyError on anything else.
+ */
+export function validateScoringPolicy(input: unknown): ScoringPolicy {
+  if (!isRecord(input)) throw new ScoringPolicyError('A scoring policy must be an object');
+
+  const known = Object.keys(DEFAULT_SCORING_POLICY);
+  const unknownField = Object.keys(input).find((k) => !known.includes(k));
+  if (unknownField) throw new ScoringPolicyError(`Unknown scoring policy field "${unknownField}"`);
+
+  const d = DEFAULT_SCORING_POLICY;
+  const deadlineHours = table(input.deadlineHours, 'deadlineHours', SEVERITIES, 0, MAX_DEADLINE_HOURS, d.deadlineHours);
+  const zeroDeadline = SEVERITIES.find((s) => deadlineHours[s] === 0);
+  if (zeroDeadline) throw new ScoringPolicyError(`deadlineHours.${zeroDeadline} must be above 0`);
+
+  const perfectBonusMinTickets = numberIn(input.perfectBonusMinTickets, 'perfectBonusMinTickets', 0, 1000, d.perfectBonusMinTickets);
+  if (!Number.isInteger(perfectBonusMinTickets)) {
+    throw new ScoringPolicyError('perfectBonusMinTickets must be a whole number');
+  }
+
+  let scoreFloor: number | null = d.scoreFloor;
+  if (input.scoreFloor !== undefined) {
+    scoreFloor = input.scoreFloor === null ? null : numberIn(input.scoreFloor, 'scoreFloor', -1000, 100, 0);
+  }
+
+  return {
+    rejectionPenalty: table(input.rejectionPenalty, 'rejectionPenalty', REJECTION_REASONS, 0, MAX_PENALTY, d.rejectionPenalty),
+    unclassifiedRejectionPenalty: numberIn(input.unclassifiedRejectionPenalty, 'unclassifiedRejectionPenalty', 0, MAX_PENALTY, d.unclassifiedRejectionPenalty),
+    skipPenalty: numberIn(input.skipPenalty, 'skipPenalty', 0, MAX_PENALTY, d.skipPenalty),
+    lateDayPenalty: numberIn(input.lateDayPenalty, 'lateDayPenalty', 0, MAX_PENALTY, d.lateDayPenalty),
+    severityMultiplier: table(input.severityMultiplier, 'severityMultiplier', SEVERITIES, 0, MAX_MULTIPLIER, d.severityMultiplier),
+    deadlineHours,
+    perfectBonus: numberIn(input.perfectBonus, 'perfectBonus', 0, MAX_PENALTY, d.perfectBonus),
+    perfectBonusMinTickets,
+    scoreFloor,
+  };
+}
@@ -0,0 +1,93 @@
+// Ticket History
+// Pure function — no framework imports.
+// Turns a stored ticket (with its audit log and reassignments) into the TicketHistory the
+// scoring engine reads, from one employee's point of view. Shared by stored scores and the
+// weekly report so both count the same things.
+
+import { assigneeAt, type AssignmentChange } from './reassignment';
+import type { RejectionReason } from './rejectionReasons';
+import type { Severity, TicketHistory, TicketEventType } from './scoringEngine';
+
+export interface ScoredTicketRecord {
+  id: string;
+  severity: Severity;
+  status: string;
+  isInspection: boolean;
+  recurringTemplateId: string | null;
+  mergedIntoId: string | null;
+  assignedUserId: string | null;
+  createdAt: Date;
+  dueAt: Date | null;
+  auditLogs: Array<{ fromStatus: string | null; toStatus: string; reason: RejectionReason | null; createdAt: Date }>;
+  assignments: Array<{ fromUserId: string | null; toUserId: string | null; createdAt: Date }>;
+}
+
+function assignmentChanges(ticket: ScoredTicketRecord): AssignmentChange[] {
+  return ticket.assignments.map((a) => ({ fromUserId: a.fromUserId, toUserId: a.toUserId, at: a.createdAt }));
+}
+
+function sortedLogs(ticket: ScoredTicketRecord) {
+  return [...ticket.auditLogs].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Who a ticket belongs to for scoring: whoever held it at its last submission for review, or
+ * holds it now if it was never submitted. Completion, lateness and skips count for them.
+ */
+export function ticketOwner(ticket: ScoredTicketRecord, now: Date = new Date()): string | null {
+  const submissions = sortedLogs(ticket).filter((l) => l.toStatus === 'needs_review');
+  const at = submissions[submissions.length - 1]?.createdAt ?? now;
+  return assigneeAt(ticket.assignedUserId, assignmentChanges(ticket), at);
+}
+
+/**
+ * The part of a ticket that counts for `userId`. A reassigned ticket counts against whoever
+ * held it at the time: each rejection against its holder then, completion, lateness and
+ * skips against the holder at the last submission (or now, if never submitted).
+ * Returns null when the user held it only in between, with nothing to show either way.
+ */
+export function buildTicketHistory(ticket: ScoredTicketRecord, userId: string, now: Date = new Date()): TicketHistory | null {
+  const events: TicketEventType[] = [];
+  const rejectionReasons: Array<RejectionReason | null> = [];
+  const changes = assignmentChanges(ticket);
+  const heldBy = (at: Date) => assigneeAt(ticket.assignedUserId, changes, at) === userId;
+
+  const logs = sortedLogs(ticket);
+
+  // Rejections: each needs_review → in_progress transition, counted against whoever held it then
+  for (const log of logs) {
+    if (log.fromStatus === 'needs_review' && log.toStatus === 'in_progress' && heldBy(log.createdAt)) {
+      events.push('rejection');
+      rejectionReasons.push(log.reason);
+    }
+  }
+
+  // The ticket belongs to its owner; their first submission is what lateness is measured up to
+  const owns = ticketOwner(ticket, now) === userId;
+  const submittedAt = logs.filter((l) => l.toStatus === 'needs_review').map((l) => l.createdAt).find(heldBy);
+
+  if (owns && (ticket.status === 'closed' || ticket.status === 'needs_review')) {
+    events.push('completed');
+  }
+
+  // A stale instance merged into a newer one is folded into that ticket, not missed
+  const wasSkipped = owns && ticket.status === 'skipped' && !ticket.mergedIntoId;
+  if (wasSkipped) {
+    events.push('skipped');
+  }
+
+  if (!owns && events.length === 0) return null;
+
+  return {
+    id: ticket.id,
+    severity: ticket.severity,
+    isRecurring: !!ticket.recurringTemplateId,
+    isInspection: ticket.isInspection,
+    openedAt: ticket.createdAt,
+    submittedAt: owns ? submittedAt : undefined,
+    dueAt: ticket.dueAt,
+    events,
+    rejectionReasons,
+    wasSkipped,
+  };
+}
@@ -1,15 +1,17 @@
 // Ticket State Machine
 // Pure function — no framework imports.
 // Throws TicketTransitionError with descriptive messages on any invalid transition.
+// The transition graph is data (see workflow.ts); today's graph is DEFAULT_WORKFLOW.
+
+import { DEFAULT_WORKFLOW } from './workflow';
+import type { WorkflowDefinition, CoreTicketStatus } from './workflow';
 
 export type Role = 'mother' | 'father' | 'employee';
 
-export type TicketStatus =
-  | 'open'
-  | 'in_progress'
-  | 'needs_review'
-  | 'closed'
-  | 'skipped';
+export type TicketStatus = CoreTicketStatus;
+
+// A core status or a household-defined one (e.g. 'awaiting_parts')
+export type StatusKey = TicketStatus | (string & {});
 
 export type Severity =
   | 'minor'
@@ -18,7 +20,7 @@ export type Severity =
 
 export interface TicketContext {
   id: string;
-  status: TicketStatus;
+  status: StatusKey;
   isRecurring: boolean;
   severity: Severity;
   assignedUserId?: string;
@@ -31,23 +33,6 @@ export class TicketTransitionError extends Error {
   }
 }
 
-// Valid base transitions (role checks applied separately below)
-const VALID_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
-  open:         ['in_progress', 'skipped'],
-  in_progress:  ['needs_review', 'skipped'],
-  needs_review: ['closed', 'in_progress'],
-  closed:       [],
-  skipped:      [],
-};
-
-// Transitions that require authority role (mother or father)
-const AUTHORITY_ONLY_TRANSITIONS: Array<{ from: TicketStatus; to: TicketStatus }> = [
-  { from: 'needs_review', to: 'closed' },
-  { from: 'needs_review', to: 'in_progress' }, // rejection/reopen
-  { from: 'open', to: 'skipped' },
-  { from: 'in_progress', to: 'skipped' },
-];
-
 function isAuthority(role: Role): boolean {
   return role === 'mother' || role === 'father';
 }
@@ -57,15 +42,17 @@ export interface TransitionResult {
 }
 
 /**
- * Validates a ticket status transition.
+ * Validates a ticket status transition against a workflow definition.
+ * The workflow must already have passed validateWorkflowDefinition; defaults to DEFAULT_WORKFLOW.
  * Throws TicketTransitionError with a descriptive message if invalid.
  * Returns TransitionResult on success.
  */
 export function validateTransition(
-  from: TicketStatus,
-  to: TicketStatus,
+  from: StatusKey,
+  to: StatusKey,
   actorRole: Role,
-  ticket: TicketContext
+  ticket: TicketContext,
+  workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): TransitionResult {
   // Terminal state check
   if (from === 'closed') {
@@ -80,9 +67,24 @@ export function validateTransition(
     );
   }
 
+  const fromState = workflow.states.find((s) => s.key === from);
+  if (!fromState) {
+    throw new TicketTransitionError(
+      `Ticket ${ticket.id} has status '${from}', which is not part of the current workflow.`
+    );
+  }
+
+  if (fromState.terminal) {
+    throw new TicketTransitionError(
+      `Ticket ${ticket.id} is ${from}. '${from}' is a terminal state with no outgoing transitions.`
+    );
+  }
+
   // Base transition validity
-  const validTargets = VALID_TRANSITIONS[from];
-  if (!validTargets.includes(to)) {
+  const outgoing = workflow.transitions.filter((t) => t.from === from);
+  const validTargets = outgoing.map((t) => t.to);
+  const transition = outgoing.find((t) => t.to === to);
+  if (!transition) {
     throw new TicketTransitionError(
       `Invalid transition: ${from} → ${to}. Valid transitions from '${from}': [${validTargets.join(', ')}].`
     );
@@ -96,11 +98,7 @@ export function validateTransition(
   }
 
   // Authority-only transition check
-  const requiresAuthority = AUTHORITY_ONLY_TRANSITIONS.some(
-    (t) => t.from === from && t.to === to
-  );
-
-  if (requiresAuthority && !isAuthority(actorRole)) {
+  if (transition.authorityOnly && !isAuthority(actorRole)) {
     throw new TicketTransitionError(
       `Transition ${from} → ${to} requires authority role (mother or father). Actor role: ${actorRole}.`
     );
@@ -0,0 +1,160 @@
+// Workflow Definition
+// Pure functions — no framework imports.
+// Describes the ticket status graph as data so households can add their own steps
+// (e.g. awaiting_parts, scheduled). The five core statuses keep their built-in meaning:
+// needs_review requires evidence, closed is authority-only, needs_review → in_progress is a rejection.
+
+export type CoreTicketStatus = 'open' | 'in_progress' | 'needs_review' | 'closed' | 'skipped';
+
+export const CORE_STATUSES: CoreTicketStatus[] = ['open', 'in_progress', 'needs_review', 'closed', 'skipped'];
+
+export interface WorkflowState {
+  key: string;
+  label?: string;
+  terminal?: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  authorityOnly?: boolean;
+}
+
+export interface WorkflowDefinition {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+export class WorkflowDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+// Today's graph — used whenever a household has not configured its own
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  states: [
+    { key: 'open' },
+    { key: 'in_progress' },
+    { key: 'needs_review' },
+    { key: 'closed', terminal: true },
+    { key: 'skipped', terminal: true },
+  ],
+  transitions: [
+    { from: 'open',         to: 'in_progress' },
+    { from: 'open',         to: 'skipped',     authorityOnly: true },
+    { from: 'in_progress',  to: 'needs_review' },
+    { from: 'in_progress',  to: 'skipped',     authorityOnly: true },
+    { from: 'needs_review', to: 'closed',      authorityOnly: true },
+    { from: 'needs_review', to: 'in_progress', authorityOnly: true }, // rejection/reopen
+  ],
+};
+
+const STATE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates an untrusted workflow definition (e.g. from the DB or an API body).
+ * Throws WorkflowDefinitionError listing the first rule broken; returns a normalized copy.
+ *
+ * Rules:
+ *   - all five core statuses are present; closed and skipped are terminal
+ *   - state keys are lowercase snake_case and unique
+ *   - transitions reference known states, are unique, and never leave a terminal state
+ *   - entering closed or skipped is always authority-only (employees never close their own work)
+ *   - every state except skipped is reachable from open, and every non-terminal state has a way out
+ */
+export function validateWorkflowDefinition(input: unknown): WorkflowDefinition {
+  if (!isRecord(input) || !Array.isArray(input.states) || !Array.isArray(input.transitions)) {
+    throw new WorkflowDefinitionError('Workflow must be an object with "states" and "transitions" arrays.');
+  }
+
+  const states: WorkflowState[] = [];
+  for (const raw of input.states) {
+    if (!isRecord(raw) || typeof raw.key !== 'string') {
+      throw new WorkflowDefinitionError('Every state needs a string "key".');
+    }
+    if (!STATE_KEY_PATTERN.test(raw.key)) {
+      throw new WorkflowDefinitionError(
+        `Invalid state key '${raw.key}': use lowercase letters, digits and underscores, starting with a letter.`
+      );
+    }
+    if (states.some((s) => s.key === raw.key)) {
+      throw new WorkflowDefinitionError(`Duplicate state '${raw.key}'.`);
+    }
+    if (raw.label !== undefined && typeof raw.label !== 'string') {
+      throw new WorkflowDefinitionError(`State '${raw.key}' label must be a string.`);
+    }
+    states.push({
+      key: raw.key,
+      ...(raw.label ? { label: raw.label } : {}),
+      ...(raw.terminal === true ? { terminal: true } : {}),
+    });
+  }
+
+  const keys = new Set(states.map((s) => s.key));
+
+  for (const core of CORE_STATUSES) {
+    if (!keys.has(core)) {
+      throw new WorkflowDefinitionError(`Missing core state '${core}'.`);
+    }
+  }
+
+  for (const core of ['closed', 'skipped'] as const) {
+    if (!states.find((s) => s.key === core)?.terminal) {
+      throw new WorkflowDefinitionError(`Core state '${core}' must be terminal.`);
+    }
+  }
+
+  const transitions: WorkflowTransition[] = [];
+  for (const raw of input.transitions) {
+    if (!isRecord(raw) || typeof raw.from !== 'string' || typeof raw.to !== 'string') {
+      throw new WorkflowDefinitionError('Every transition needs string "from" and "to".');
+    }
+    const { from, to } = raw;
+    if (!keys.has(from) || !keys.has(to)) {
+      throw new WorkflowDefinitionError(`Transition ${from} → ${to} references an unknown state.`);
+    }
+    if (from === to) {
+      throw new WorkflowDefinitionError(`Transition ${from} → ${to} does not change status.`);
+    }
+    if (states.find((s) => s.key === from)?.terminal) {
+      throw new WorkflowDefinitionError(`Transition ${from} → ${to} leaves terminal state '${from}'.`);
+    }
+    if (transitions.some((t) => t.from === from && t.to === to)) {
+      throw new WorkflowDefinitionError(`Duplicate transition ${from} → ${to}.`);
+    }
+    if ((to === 'closed' || to === 'skipped') && raw.authorityOnly !== true) {
+      throw new WorkflowDefinitionError(`Transition ${from} → ${to} must be authority-only.`);
+    }
+    transitions.push({ from, to, ...(raw.authorityOnly === true ? { authorityOnly: true } : {}) });
+  }
+
+  // Reachability from open
+  const reached = new Set<string>(['open']);
+  const queue = ['open'];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const t of transitions) {
+      if (t.from === current && !reached.has(t.to)) {
+        reached.add(t.to);
+        queue.push(t.to);
+      }
+    }
+  }
+  for (const state of states) {
+    // A household may choose never to skip anything
+    if (!reached.has(state.key) && state.key !== 'skipped') {
+      throw new WorkflowDefinitionError(`State '${state.key}' is not reachable from 'open'.`);
+    }
+    if (!state.terminal && !transitions.some((t) => t.from === state.key)) {
+      throw new WorkflowDefinitionError(`Non-terminal state '${state.key}' has no outgoing transitions.`);
+    }
+  }
+
+  return { states, transitions };
+}
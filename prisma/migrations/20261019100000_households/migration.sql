@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "Household" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Household_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing row belongs to a single default household
+INSERT INTO "Household" ("id", "name") VALUES ('default-household', 'Default Household');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "householdId" TEXT NOT NULL DEFAULT 'default-household';
+ALTER TABLE "User" ALTER COLUMN "householdId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "householdId" TEXT NOT NULL DEFAULT 'default-household';
+ALTER TABLE "Ticket" ALTER COLUMN "householdId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "householdId" TEXT NOT NULL DEFAULT 'default-household';
+ALTER TABLE "RecurringTemplate" ALTER COLUMN "householdId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "ScoreRecord" ADD COLUMN "householdId" TEXT NOT NULL DEFAULT 'default-household';
+ALTER TABLE "ScoreRecord" ALTER COLUMN "householdId" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Ticket_householdId_status_idx" ON "Ticket"("householdId", "status");
+
+-- CreateIndex
+CREATE INDEX "RecurringTemplate_householdId_idx" ON "RecurringTemplate"("householdId");
+
+-- CreateIndex
+CREATE INDEX "ScoreRecord_householdId_idx" ON "ScoreRecord"("householdId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTemplate" ADD CONSTRAINT "RecurringTemplate_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreRecord" ADD CONSTRAINT "ScoreRecord_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Household" ADD COLUMN "workflow" JSONB;
+
+-- AlterTable: statuses become workflow keys instead of a fixed enum
+ALTER TABLE "Ticket" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Ticket" ALTER COLUMN "status" TYPE TEXT USING "status"::text;
+ALTER TABLE "Ticket" ALTER COLUMN "status" SET DEFAULT 'open';
+
+-- AlterTable
+ALTER TABLE "TicketAuditLog" ALTER COLUMN "fromStatus" TYPE TEXT USING "fromStatus"::text;
+ALTER TABLE "TicketAuditLog" ALTER COLUMN "toStatus" TYPE TEXT USING "toStatus"::text;
+
+-- DropEnum
+DROP TYPE "TicketStatus";
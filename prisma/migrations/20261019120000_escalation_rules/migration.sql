@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "EscalationAction" AS ENUM ('raise_severity', 'notify_authorities');
+
+-- AlterTable: system-written entries (escalation job) have no human actor
+ALTER TABLE "TicketAuditLog" ALTER COLUMN "changedById" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "EscalationRule" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "severity" "Severity" NOT NULL,
+    "overdueHours" INTEGER NOT NULL,
+    "action" "EscalationAction" NOT NULL,
+    "toSeverity" "Severity",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EscalationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TicketEscalation" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "action" "EscalationAction" NOT NULL,
+    "fromSeverity" "Severity" NOT NULL,
+    "toSeverity" "Severity",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketEscalation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EscalationRule_householdId_idx" ON "EscalationRule"("householdId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketEscalation_ticketId_ruleId_key" ON "TicketEscalation"("ticketId", "ruleId");
+
+-- AddForeignKey
+ALTER TABLE "TicketAuditLog" DROP CONSTRAINT "TicketAuditLog_changedById_fkey";
+ALTER TABLE "TicketAuditLog" ADD CONSTRAINT "TicketAuditLog_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationRule" ADD CONSTRAINT "EscalationRule_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketEscalation" ADD CONSTRAINT "TicketEscalation_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketEscalation" ADD CONSTRAINT "TicketEscalation_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "EscalationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
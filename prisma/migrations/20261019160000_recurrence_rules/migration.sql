@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "rrule" TEXT,
+ADD COLUMN "startsOn" DATE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "endsOn" DATE,
+ADD COLUMN "exceptionDates" DATE[] DEFAULT ARRAY[]::DATE[];
+
+-- Existing templates keep their fixed schedules, starting from when they were created
+UPDATE "RecurringTemplate" SET
+  "rrule" = CASE "frequency"
+    WHEN 'weekly' THEN 'FREQ=WEEKLY;BYDAY=MO'
+    WHEN 'monthly' THEN 'FREQ=MONTHLY;BYMONTHDAY=1'
+    ELSE 'FREQ=DAILY'
+  END,
+  "startsOn" = "createdAt"::date;
+
+ALTER TABLE "RecurringTemplate" ALTER COLUMN "rrule" SET NOT NULL;
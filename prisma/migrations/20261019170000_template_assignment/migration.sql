@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('none', 'fixed_user', 'round_robin', 'least_loaded');
+
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "assignmentStrategy" "AssignmentStrategy" NOT NULL DEFAULT 'none',
+ADD COLUMN "assigneeId" TEXT,
+ADD COLUMN "assigneeSpecialty" TEXT,
+ADD COLUMN "lastAssignedUserId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTemplate" ADD CONSTRAINT "RecurringTemplate_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
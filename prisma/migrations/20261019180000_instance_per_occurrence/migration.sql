@@ -0,0 +1,12 @@
+-- Instances used to record the generation time; keep only the day
+ALTER TABLE "RecurringInstance" ALTER COLUMN "scheduledFor" SET DATA TYPE DATE USING "scheduledFor"::date;
+
+-- Manual triggers could generate the same template twice on one day; keep the first instance
+DELETE FROM "RecurringInstance" a
+USING "RecurringInstance" b
+WHERE a."templateId" = b."templateId"
+  AND a."scheduledFor" = b."scheduledFor"
+  AND (a."generatedAt", a."id") > (b."generatedAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringInstance_templateId_scheduledFor_key" ON "RecurringInstance"("templateId", "scheduledFor");
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "StalePolicy" AS ENUM ('keep', 'auto_skip', 'carry_over', 'merge');
+
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "stalePolicy" "StalePolicy" NOT NULL DEFAULT 'keep';
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "mergedIntoId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
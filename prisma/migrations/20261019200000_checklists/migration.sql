@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "checklist" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "TicketChecklistItem" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "checkedAt" TIMESTAMP(3),
+    "checkedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketChecklistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TicketChecklistItem_ticketId_idx" ON "TicketChecklistItem"("ticketId");
+
+-- AddForeignKey
+ALTER TABLE "TicketChecklistItem" ADD CONSTRAINT "TicketChecklistItem_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketChecklistItem" ADD CONSTRAINT "TicketChecklistItem_checkedById_fkey" FOREIGN KEY ("checkedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "PhotoType" ADD VALUE 'receipt';
+
+-- AlterTable
+ALTER TABLE "RecurringTemplate" ADD COLUMN "evidencePolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "TicketChecklistItem" ADD COLUMN "photoRequired" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TicketPhoto" ADD COLUMN "checklistItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "EvidencePolicy" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "area" TEXT,
+    "category" TEXT,
+    "severity" "Severity",
+    "photos" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EvidencePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EvidencePolicy_householdId_idx" ON "EvidencePolicy"("householdId");
+
+-- AddForeignKey
+ALTER TABLE "EvidencePolicy" ADD CONSTRAINT "EvidencePolicy_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketPhoto" ADD CONSTRAINT "TicketPhoto_checklistItemId_fkey" FOREIGN KEY ("checklistItemId") REFERENCES "TicketChecklistItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "StorageDriver" AS ENUM ('local', 's3', 'cloudinary');
+
+-- AlterTable
+ALTER TABLE "TicketPhoto" ADD COLUMN "storage" "StorageDriver",
+ADD COLUMN "mimeType" TEXT;
+
+-- Photos already on Cloudinary keep their public_id as the key and are now served by the API.
+-- Data-URL photos are moved into the configured driver by `pnpm --filter api photos:migrate`.
+UPDATE "TicketPhoto"
+SET "storage" = 'cloudinary', "url" = '/api/photos/' || "id"
+WHERE "s3Key" <> '' AND "url" NOT LIKE 'data:%';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TicketPhoto" ADD COLUMN "mediumKey" TEXT,
+ADD COLUMN "thumbKey" TEXT,
+ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER;
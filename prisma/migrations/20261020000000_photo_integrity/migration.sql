@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TicketPhoto" ADD COLUMN "capturedAt" TIMESTAMP(3),
+ADD COLUMN "phash" TEXT;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "RejectionReason" AS ENUM ('incomplete', 'poor_quality', 'wrong_area', 'missing_evidence', 'damage', 'other');
+
+-- AlterTable
+ALTER TABLE "TicketAuditLog" ADD COLUMN "reason" "RejectionReason";
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "ScorePeriodType" AS ENUM ('weekly', 'monthly', 'custom');
+
+-- CreateEnum
+CREATE TYPE "ScoreStatus" AS ENUM ('provisional', 'finalized');
+
+-- AlterTable: existing rows were computed on request for arbitrary periods
+ALTER TABLE "ScoreRecord" ADD COLUMN "periodType" "ScorePeriodType" NOT NULL DEFAULT 'custom',
+ADD COLUMN "status" "ScoreStatus" NOT NULL DEFAULT 'provisional',
+ADD COLUMN "finalizedAt" TIMESTAMP(3);
+
+-- Keep only the newest row per user and period before enforcing one
+DELETE FROM "ScoreRecord" a
+USING "ScoreRecord" b
+WHERE a."userId" = b."userId"
+  AND a."periodStart" = b."periodStart"
+  AND a."periodEnd" = b."periodEnd"
+  AND (a."computedAt" < b."computedAt" OR (a."computedAt" = b."computedAt" AND a."id" < b."id"));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoreRecord_userId_periodType_periodStart_periodEnd_status_key" ON "ScoreRecord"("userId", "periodType", "periodStart", "periodEnd", "status");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ScoringPolicy" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "policy" JSONB NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScoringPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: scores computed so far used the built-in rules
+ALTER TABLE "ScoreRecord" ADD COLUMN "policyVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringPolicy_householdId_version_key" ON "ScoringPolicy"("householdId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ScoringPolicy" ADD CONSTRAINT "ScoringPolicy_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoringPolicy" ADD CONSTRAINT "ScoringPolicy_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable: scores computed before this were not itemized; their snapshots refill as they are recomputed
+ALTER TABLE "ScoreRecord" ADD COLUMN "ledger" JSONB NOT NULL DEFAULT '[]';
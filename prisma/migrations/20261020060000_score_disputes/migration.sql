@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "ScoreDisputeStatus" AS ENUM ('pending', 'accepted', 'declined');
+
+-- AlterTable
+ALTER TABLE "ScoreRecord" ADD COLUMN "adjustment" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ScoreDispute" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "disputedPoints" DOUBLE PRECISION NOT NULL,
+    "periodType" "ScorePeriodType" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "ScoreDisputeStatus" NOT NULL DEFAULT 'pending',
+    "adjustment" DOUBLE PRECISION,
+    "resolutionNote" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScoreDispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScoreDisputeEvent" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "note" TEXT,
+    "adjustment" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScoreDisputeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScoreDispute_householdId_status_idx" ON "ScoreDispute"("householdId", "status");
+
+-- CreateIndex
+CREATE INDEX "ScoreDispute_userId_ticketId_rule_idx" ON "ScoreDispute"("userId", "ticketId", "rule");
+
+-- CreateIndex
+CREATE INDEX "ScoreDisputeEvent_disputeId_idx" ON "ScoreDisputeEvent"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "ScoreDispute" ADD CONSTRAINT "ScoreDispute_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreDispute" ADD CONSTRAINT "ScoreDispute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreDispute" ADD CONSTRAINT "ScoreDispute_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreDisputeEvent" ADD CONSTRAINT "ScoreDisputeEvent_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "ScoreDispute"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreDisputeEvent" ADD CONSTRAINT "ScoreDisputeEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
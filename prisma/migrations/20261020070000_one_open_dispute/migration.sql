@@ -0,0 +1,14 @@
+-- Two requests could both open a dispute of the same deduction; keep the first one open
+UPDATE "ScoreDispute" a
+SET "status" = 'declined', "resolutionNote" = 'Duplicate of an earlier dispute', "resolvedAt" = CURRENT_TIMESTAMP
+FROM "ScoreDispute" b
+WHERE a."userId" = b."userId"
+  AND a."ticketId" = b."ticketId"
+  AND a."rule" = b."rule"
+  AND a."status" IN ('pending', 'accepted')
+  AND b."status" IN ('pending', 'accepted')
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+-- CreateIndex
+-- Partial, so Prisma's schema cannot declare it: one pending or accepted dispute per deduction
+CREATE UNIQUE INDEX "ScoreDispute_userId_ticketId_rule_open_key" ON "ScoreDispute"("userId", "ticketId", "rule") WHERE "status" IN ('pending', 'accepted');
@@ -6,6 +6,17 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('🌱 Seeding database...');
 
+  // ─── Household ────────────────────────────────────────────────────────────
+  // Same id the households migration backfills existing rows with
+
+  const household = await prisma.household.upsert({
+    where: { id: 'default-household' },
+    update: {},
+    create: { id: 'default-household', name: 'Default Household' },
+  });
+  const householdId = household.id;
+  console.log(`  ✓ Household: ${household.name}`);
+
   // ─── Users ────────────────────────────────────────────────────────────────
 
   const SALT_ROUNDS = 10;
@@ -27,6 +38,7 @@ async function main() {
       where: { email: userData.email },
       update: { name: userData.name, passwordHash, role: userData.role, specialty: userData.specialty },
       create: {
+        householdId,
         name: userData.name,
         email: userData.email,
         passwordHash,
@@ -44,6 +56,38 @@ async function main() {
   const luisId = createdUsers['Luis'];
   const anaId = createdUsers['Ana'];
 
+  // ─── Escalation Rules ─────────────────────────────────────────────────────
+
+  const ruleCount = await prisma.escalationRule.count({ where: { householdId } });
+  if (ruleCount === 0) {
+    await prisma.escalationRule.createMany({
+      data: [
+        { householdId, severity: 'minor', overdueHours: 24, action: 'raise_severity', toSeverity: 'needs_fix_today' },
+        { householdId, severity: 'needs_fix_today', overdueHours: 4, action: 'notify_authorities' },
+      ],
+    });
+    console.log('  ✓ Escalation rules: minor +24h → needs_fix_today, needs_fix_today +4h → notify parents');
+  }
+
+  const evidenceCount = await prisma.evidencePolicy.count({ where: { householdId } });
+  if (evidenceCount === 0) {
+    await prisma.evidencePolicy.createMany({
+      data: [
+        { householdId, area: 'kitchen', category: 'cleaning', photos: [{ photoType: 'after', min: 2 }] },
+        {
+          householdId,
+          category: 'repair',
+          photos: [
+            { photoType: 'before', min: 1 },
+            { photoType: 'after', min: 1 },
+            { photoType: 'receipt', min: 1 },
+          ],
+        },
+      ],
+    });
+    console.log('  ✓ Evidence policies: kitchen cleaning → 2 after photos, repairs → before, after + receipt');
+  }
+
   // ─── Recurring Templates ──────────────────────────────────────────────────
   // Only seed if no templates exist yet
 
@@ -59,11 +103,15 @@ async function main() {
       name: 'Daily Kitchen Cleaning',
       description: 'Clean and sanitize kitchen surfaces, stovetop, and sink. Sweep and mop the floor.',
       frequency: 'daily' as Frequency,
+      rrule: 'FREQ=DAILY',
       assignedRoles: ['employee'],
+      assignmentStrategy: 'round_robin',
+      assigneeSpecialty: 'housekeeper',
       severityDefault: 'minor' as Severity,
       area: 'kitchen',
       category: 'cleaning',
       createdById: mariaId,
+      householdId,
     },
   });
   console.log('  ✓ Recurring template: Daily Kitchen Cleaning');
@@ -73,11 +121,20 @@ async function main() {
       name: 'Weekly Pool Check',
       description: 'Test and adjust pool chemicals (pH, chlorine). Skim surface debris. Check filter pressure.',
       frequency: 'weekly' as Frequency,
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
       assignedRoles: ['employee'],
+      assignmentStrategy: 'least_loaded',
+      checklist: [
+        { label: 'Test pH and chlorine', required: true },
+        { label: 'Skim surface debris', required: true },
+        { label: 'Check filter pressure', required: true, photoRequired: true },
+        { label: 'Brush the steps', required: false },
+      ],
       severityDefault: 'needs_fix_today' as Severity,
       area: 'pool',
       category: 'maintenance',
       createdById: mariaId,
+      householdId,
     },
   });
   console.log('  ✓ Recurring template: Weekly Pool Check');
@@ -96,6 +153,7 @@ async function main() {
       status: 'open',
       assignedUserId: rosaId,
       createdById: mariaId,
+      householdId,
     },
   });
   await prisma.ticketAuditLog.create({
@@ -121,6 +179,7 @@ async function main() {
       status: 'in_progress',
       assignedUserId: miguelId,
       createdById: mariaId,
+      householdId,
       dueAt: new Date(Date.now() + 8 * 60 * 60 * 1000), // 8 hours from now
     },
   });
@@ -156,6 +215,7 @@ async function main() {
       status: 'needs_review',
       assignedUserId: anaId,
       createdById: mariaId,
+      householdId,
       recurringTemplateId: weeklyPoolTemplate.id,
     },
   });
@@ -198,6 +258,7 @@ async function main() {
       status: 'closed',
       assignedUserId: luisId,
       createdById: mariaId,
+      householdId,
       closedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
     },
   });
@@ -247,6 +308,7 @@ async function main() {
       status: 'open',
       assignedUserId: rosaId,
       createdById: mariaId,
+      householdId,
     },
   });
   await prisma.ticketAuditLog.create({